@@ -6,7 +6,7 @@
  * Demonstrates how to place, manage, and analyze limit orders
  */
 
-import { DeepBookTradingClient } from '../src/index.js';
+import { DeepBookTradingClient, OrderType } from '../src/index.js';
 import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
 
@@ -96,9 +96,9 @@ async function main() {
     price: 1.5, // Example price (adjust based on market)
     quantity: 10, // 10 SUI
     isBid: true, // Buy order
-    clientOrderId: `limit_buy_${Date.now()}`,
-    orderType: 'limit' as const,
-    expiration: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiration
+    clientOrderId: 1n, // u64; omit to have the client allocate the next ID for the balance manager
+    orderType: OrderType.NO_RESTRICTION as const,
+    expiration: Date.now() + 60 * 60 * 1000, // 1 hour expiration (ms timestamp)
   };
 
   console.log('📝 Proposed order:');
@@ -107,21 +107,22 @@ async function main() {
   console.log(`   Quantity: ${orderParams.quantity} SUI`);
   console.log(`   Total value: ${(orderParams.price * orderParams.quantity).toFixed(2)} USDC`);
   console.log(`   Client Order ID: ${orderParams.clientOrderId}`);
-  console.log(`   Expiration: ${new Date(orderParams.expiration * 1000).toLocaleTimeString()}`);
+  console.log(`   Expiration: ${new Date(orderParams.expiration).toLocaleTimeString()}`);
 
-  // 3. Calculate required DEEP stake
-  console.log('\n3. DEEP Stake Calculation');
-  console.log('=========================');
+  // 3. Calculate required DEEP fees
+  console.log('\n3. DEEP Fee Calculation');
+  console.log('=======================');
 
   try {
     const requiredDeep = await tradingClient.trading.calculateRequiredDeep(
       poolKey,
       orderParams.quantity,
-      orderParams.isBid
+      orderParams.isBid,
+      orderParams.price
     );
 
-    console.log(`✅ Required DEEP stake: ${requiredDeep}`);
-    console.log(`   Note: DEEP is required for order placement and is refunded when order fills or cancels`);
+    console.log(`✅ Required DEEP for fees: ${requiredDeep}`);
+    console.log(`   Note: taker fees are paid on the part that fills immediately, maker fees on the part that rests`);
 
     // Check if sufficient DEEP is available
     if (balanceManagerKey && balanceManagerKey !== 'your-balance-manager-key') {
@@ -196,7 +196,7 @@ async function main() {
         console.log(`     swapExactBaseForQuote({`);
         console.log(`       poolKey: '${poolKey}',`);
         console.log(`       amount: ${example.amount},`);
-        console.log(`       deepAmount: 0,`);
+        console.log(`       // deepAmount is estimated from the pool's fees when omitted`);
         console.log(`       minOut: ${minOut.toFixed(4)}`);
         console.log(`     })`);
 
@@ -223,7 +223,7 @@ async function main() {
         console.log(`     swapExactQuoteForBase({`);
         console.log(`       poolKey: '${poolKey}',`);
         console.log(`       amount: ${example.quoteAmount},`);
-        console.log(`       deepAmount: 0,`);
+        console.log(`       // deepAmount is estimated from the pool's fees when omitted`);
         console.log(`       minOut: ${minOut.toFixed(4)}`);
         console.log(`     })`);
       }
@@ -0,0 +1,87 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Registry validation command
+ * Validates config/coins.json, config/pools.json and the oracle configuration
+ * and exits with a non-zero status when any error is found
+ *
+ * Usage:
+ *   tsx scripts/validate-registry.ts [mainnet|testnet|devnet ...] [--json] [--strict] [--config-dir <dir>]
+ */
+
+import { validateRegistry } from '../src/utils/registry-validation.js';
+import type { RegistryValidationReport } from '../src/types/index.js';
+
+const ALL_ENVIRONMENTS = ['mainnet', 'testnet', 'devnet'];
+
+interface CliOptions {
+  environments: string[];
+  json: boolean;
+  strict: boolean; // Treat warnings as failures
+  configDir?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { environments: [], json: false, strict: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--strict') {
+      options.strict = true;
+    } else if (arg === '--config-dir') {
+      options.configDir = argv[++i];
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.environments.push(arg);
+    }
+  }
+
+  if (options.environments.length === 0) {
+    options.environments = ALL_ENVIRONMENTS;
+  }
+
+  return options;
+}
+
+function printReport(report: RegistryValidationReport): void {
+  const { environment, summary } = report;
+  const status = report.valid ? '✅' : '❌';
+
+  console.log(`${status} ${environment}: ${summary.coins} coins, ${summary.pools} pools, ` +
+    `${summary.errors} errors, ${summary.warnings} warnings`);
+
+  for (const issue of report.issues) {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    console.log(`   ${icon} [${issue.code}] ${issue.path}: ${issue.message}`);
+  }
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  const reports = options.environments.map(environment =>
+    validateRegistry(environment, { configDir: options.configDir })
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(printReport);
+  }
+
+  const failed = reports.some(report =>
+    !report.valid || (options.strict && report.summary.warnings > 0)
+  );
+  process.exitCode = failed ? 1 : 0;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ Registry validation failed: ${error}`);
+  process.exitCode = 2;
+}
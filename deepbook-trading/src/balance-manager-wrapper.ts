@@ -3,14 +3,21 @@
 
 import type { DeepBookClient } from '@mysten/deepbook-v3';
 import { Transaction } from '@mysten/sui/transactions';
-import type { DepositParams, WithdrawParams } from './types/index.js';
+import type { DepositParams, RegistryCoinMap, WithdrawParams } from './types/index.js';
+import { managerBalanceRead, runBatchedReads } from './utils/batched-reads.js';
+import { toQueryError, toTransactionError } from './utils/errors.js';
+import { QueryCache } from './utils/query-cache.js';
 
 /**
  * Wrapper class for DeepBook balance manager operations
  * Simplifies fund management tasks
  */
 export class DeepBookBalanceManagerWrapper {
-  constructor(private client: DeepBookClient) {}
+  constructor(
+    private client: DeepBookClient,
+    private coins: RegistryCoinMap = {},
+    private cache: QueryCache = new QueryCache()
+  ) {}
 
   /**
    * Create a new balance manager for an owner
@@ -24,10 +31,16 @@ export class DeepBookBalanceManagerWrapper {
   ): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.balanceManager.createAndShareBalanceManager(
-      owner,
-      referralCode
-    ));
+    try {
+      tx.add(this.client.balanceManager.createAndShareBalanceManager(
+        owner,
+        referralCode
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to create balance manager for ${owner}`, {
+        operation: 'createBalanceManager',
+      });
+    }
 
     return tx;
   }
@@ -40,11 +53,19 @@ export class DeepBookBalanceManagerWrapper {
   async deposit(params: DepositParams): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.balanceManager.depositIntoManager(
-      params.managerKey,
-      params.coinKey,
-      params.amount
-    ));
+    try {
+      tx.add(this.client.balanceManager.depositIntoManager(
+        params.managerKey,
+        params.coinKey,
+        params.amount
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to deposit ${params.coinKey} into manager ${params.managerKey}`, {
+        operation: 'deposit',
+        balanceManagerKey: params.managerKey,
+        coinKey: params.coinKey,
+      });
+    }
 
     return tx;
   }
@@ -57,11 +78,19 @@ export class DeepBookBalanceManagerWrapper {
   async withdraw(params: WithdrawParams): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.balanceManager.withdrawFromManager(
-      params.managerKey,
-      params.coinKey,
-      params.amount
-    ));
+    try {
+      tx.add(this.client.balanceManager.withdrawFromManager(
+        params.managerKey,
+        params.coinKey,
+        params.amount
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to withdraw ${params.coinKey} from manager ${params.managerKey}`, {
+        operation: 'withdraw',
+        balanceManagerKey: params.managerKey,
+        coinKey: params.coinKey,
+      });
+    }
 
     return tx;
   }
@@ -76,34 +105,59 @@ export class DeepBookBalanceManagerWrapper {
     try {
       return await this.client.checkManagerBalance(managerKey, coinKey);
     } catch (error) {
-      throw new Error(`Failed to check balance for ${coinKey} in manager ${managerKey}: ${error}`);
+      throw toQueryError(error, `Failed to check balance for ${coinKey} in manager ${managerKey}`, {
+        operation: 'checkBalance',
+        balanceManagerKey: managerKey,
+        coinKey,
+      });
     }
   }
 
   /**
    * Get all balances for a balance manager
+   * Every coin is read in one simulation, and identical requests in flight share it. When the
+   * simulation fails, the failure is counted in the cache metrics and coins are read one by one.
    * @param managerKey Balance manager key
-   * @returns Map of coin balances
+   * @returns Map of coin balances for every registry coin
+   * @throws QueryError naming the coinKey whose balance could not be read
    */
   async getAllBalances(managerKey: string): Promise<Record<string, { coinType: string; balance: number }>> {
-    try {
-      // Get available coin keys from configuration
-      const coinKeys = this.getAvailableCoinKeys();
-      const balances: Record<string, { coinType: string; balance: number }> = {};
-
-      for (const coinKey of coinKeys) {
-        try {
-          const balance = await this.client.checkManagerBalance(managerKey, coinKey);
-          balances[coinKey] = balance;
-        } catch (error) {
-          // Coin might not be supported by this manager
-          console.debug(`Coin ${coinKey} not available in manager ${managerKey}`);
+    return this.cache.coalesce('getAllBalances', managerKey, async () => {
+      const coinKeys = Object.keys(this.coins);
+      let balances: Array<{ coinType: string; balance: number }>;
+
+      try {
+        balances = await runBatchedReads(
+          this.client.client,
+          coinKeys.map(coinKey => managerBalanceRead(this.client, managerKey, coinKey, this.coins[coinKey])),
+          this.cache
+        );
+      } catch (error) {
+        // A failed read fails the whole simulation, so read coin by coin to name the one at fault
+        this.cache.recordBatchFailure(error);
+        balances = [];
+        for (const coinKey of coinKeys) {
+          balances.push(await this.readBalance(managerKey, coinKey));
         }
       }
 
-      return balances;
+      return Object.fromEntries(coinKeys.map((coinKey, index) => [coinKey, balances[index]]));
+    });
+  }
+
+  /**
+   * Helper to read one coin's balance for getAllBalances
+   * Coins the manager has never held report a zero balance, so any failure here is real.
+   */
+  private async readBalance(managerKey: string, coinKey: string): Promise<{ coinType: string; balance: number }> {
+    try {
+      return await this.client.checkManagerBalance(managerKey, coinKey);
     } catch (error) {
-      throw new Error(`Failed to get all balances for manager ${managerKey}: ${error}`);
+      throw toQueryError(error, `Failed to get ${coinKey} balance for manager ${managerKey}`, {
+        operation: 'getAllBalances',
+        balanceManagerKey: managerKey,
+        coinKey,
+      });
     }
   }
 
@@ -116,10 +170,17 @@ export class DeepBookBalanceManagerWrapper {
   async transferOwnership(managerKey: string, newOwner: string): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.balanceManager.transferBalanceManager(
-      managerKey,
-      newOwner
-    ));
+    try {
+      tx.add(this.client.balanceManager.transferBalanceManager(
+        managerKey,
+        newOwner
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to transfer manager ${managerKey} to ${newOwner}`, {
+        operation: 'transferOwnership',
+        balanceManagerKey: managerKey,
+      });
+    }
 
     return tx;
   }
@@ -132,9 +193,13 @@ export class DeepBookBalanceManagerWrapper {
   async createReferral(owner: string): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.balanceManager.createReferral(
-      owner
-    ));
+    try {
+      tx.add(this.client.balanceManager.createReferral(
+        owner
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to create referral for ${owner}`, { operation: 'createReferral' });
+    }
 
     return tx;
   }
@@ -148,7 +213,7 @@ export class DeepBookBalanceManagerWrapper {
     try {
       return await this.client.referralOwner(referralId);
     } catch (error) {
-      throw new Error(`Failed to get referral owner for ${referralId}: ${error}`);
+      throw toQueryError(error, `Failed to get referral owner for ${referralId}`, { operation: 'getReferralOwner' });
     }
   }
 
@@ -165,11 +230,19 @@ export class DeepBookBalanceManagerWrapper {
     const tx = new Transaction();
 
     for (const deposit of deposits) {
-      tx.add(this.client.balanceManager.depositIntoManager(
-        managerKey,
-        deposit.coinKey,
-        deposit.amount
-      ));
+      try {
+        tx.add(this.client.balanceManager.depositIntoManager(
+          managerKey,
+          deposit.coinKey,
+          deposit.amount
+        ));
+      } catch (error) {
+        throw toTransactionError(error, `Failed to deposit ${deposit.coinKey} into manager ${managerKey}`, {
+          operation: 'batchDeposit',
+          balanceManagerKey: managerKey,
+          coinKey: deposit.coinKey,
+        });
+      }
     }
 
     return tx;
@@ -188,11 +261,19 @@ export class DeepBookBalanceManagerWrapper {
     const tx = new Transaction();
 
     for (const withdrawal of withdrawals) {
-      tx.add(this.client.balanceManager.withdrawFromManager(
-        managerKey,
-        withdrawal.coinKey,
-        withdrawal.amount
-      ));
+      try {
+        tx.add(this.client.balanceManager.withdrawFromManager(
+          managerKey,
+          withdrawal.coinKey,
+          withdrawal.amount
+        ));
+      } catch (error) {
+        throw toTransactionError(error, `Failed to withdraw ${withdrawal.coinKey} from manager ${managerKey}`, {
+          operation: 'batchWithdraw',
+          balanceManagerKey: managerKey,
+          coinKey: withdrawal.coinKey,
+        });
+      }
     }
 
     return tx;
@@ -232,17 +313,10 @@ export class DeepBookBalanceManagerWrapper {
         breakdown,
       };
     } catch (error) {
-      throw new Error(`Failed to get portfolio value for manager ${managerKey}: ${error}`);
+      throw toQueryError(error, `Failed to get portfolio value for manager ${managerKey}`, {
+        operation: 'getPortfolioValue',
+        balanceManagerKey: managerKey,
+      });
     }
   }
-
-  /**
-   * Helper method to get available coin keys
-   * @returns Array of available coin keys
-   */
-  private getAvailableCoinKeys(): string[] {
-    // This would come from configuration
-    // For now, return common coin keys
-    return ['SUI', 'USDC', 'DBUSDC', 'DEEP'];
-  }
 }
\ No newline at end of file
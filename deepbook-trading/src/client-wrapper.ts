@@ -3,13 +3,32 @@
 
 import { DeepBookClient, DeepBookConfig } from '@mysten/deepbook-v3';
 import type { SuiClient } from '@mysten/sui/client';
-import type { SimplifiedConfig, Environment } from './types/index.js';
+import type { Transaction } from '@mysten/sui/transactions';
+import type {
+  SimplifiedConfig,
+  Registry,
+  ExecuteOptions,
+  ExecutionResult,
+  SimulateOptions,
+  SimulationPreview,
+  OrderBookReplicaOptions,
+  TradeStore,
+} from './types/index.js';
+import { loadRegistry } from './utils/registry.js';
+import { ClientOrderIdAllocator } from './utils/client-order-ids.js';
+import { QueryCache } from './utils/query-cache.js';
 
 // Import wrapper classes (they will be created in separate files)
 import { DeepBookTradingWrapper } from './transaction-wrapper.js';
 import { DeepBookQueryWrapper } from './query-wrapper.js';
 import { DeepBookFlashLoanWrapper } from './flash-loan-wrapper.js';
 import { DeepBookBalanceManagerWrapper } from './balance-manager-wrapper.js';
+import { DeepBookGovernanceWrapper } from './governance-wrapper.js';
+import { DeepBookRouterWrapper } from './router-wrapper.js';
+import { DeepBookTransactionExecutor } from './transaction-executor.js';
+import { OrderBookReplica } from './order-book-replica.js';
+import { TradeHistory } from './trade-history.js';
+import { DeepBookEvents } from './event-streams.js';
 
 /**
  * Main client class for DeepBook trading operations
@@ -17,17 +36,36 @@ import { DeepBookBalanceManagerWrapper } from './balance-manager-wrapper.js';
  */
 export class DeepBookTradingClient {
   private client: DeepBookClient;
+  private registry: Registry;
   private tradingWrapper: DeepBookTradingWrapper;
   private queryWrapper: DeepBookQueryWrapper;
   private flashLoanWrapper: DeepBookFlashLoanWrapper;
   private balanceManagerWrapper: DeepBookBalanceManagerWrapper;
+  private governanceWrapper: DeepBookGovernanceWrapper;
+  private routerWrapper: DeepBookRouterWrapper;
+  private eventStreams: DeepBookEvents;
+  private executor: DeepBookTransactionExecutor;
 
   /**
    * Create a new DeepBookTradingClient
-   * @param config Configuration including SuiClient, address, and environment
+   * @param config Configuration including SuiClient, address, environment and optional coin/pool overrides
    */
   constructor(config: SimplifiedConfig) {
-    const { suiClient, address, environment, balanceManagers } = config;
+    const {
+      suiClient,
+      address,
+      environment,
+      balanceManagers,
+      signer,
+      coins,
+      pools,
+      clientOrderIdStore,
+      eventCursorStore,
+      queryCache,
+    } = config;
+
+    // Load coin and pool registry for the environment, with user overrides applied
+    this.registry = loadRegistry(environment, { coins, pools });
 
     // Create the underlying DeepBookClient
     this.client = new DeepBookClient({
@@ -35,16 +73,40 @@ export class DeepBookTradingClient {
       address,
       env: environment,
       balanceManagers,
-      // Load default configurations for the environment
-      coins: this.getDefaultCoins(environment),
-      pools: this.getDefaultPools(environment),
+      coins: this.registry.coins,
+      pools: this.registry.pools,
     });
 
+    // Coin types and balance manager addresses for moveCalls the SDK has no builder for
+    const deepBookConfig = new DeepBookConfig({
+      env: environment,
+      address,
+      balanceManagers,
+      coins: this.registry.coins,
+      pools: this.registry.pools,
+    });
+
+    // One cache, so pool parameters and metrics are shared by every query
+    const cache = new QueryCache(queryCache);
+
     // Initialize wrapper classes
-    this.tradingWrapper = new DeepBookTradingWrapper(this.client);
-    this.queryWrapper = new DeepBookQueryWrapper(this.client);
+    this.tradingWrapper = new DeepBookTradingWrapper(
+      this.client,
+      new ClientOrderIdAllocator(clientOrderIdStore, {
+        // Without a persistent store, start from the clock so IDs stay unique across restarts
+        initialValue: clientOrderIdStore ? undefined : BigInt(Date.now()) * 1000n,
+      }),
+      this.registry.pools,
+      deepBookConfig,
+      cache
+    );
+    this.queryWrapper = new DeepBookQueryWrapper(this.client, environment, this.registry, balanceManagers, cache);
     this.flashLoanWrapper = new DeepBookFlashLoanWrapper(this.client);
-    this.balanceManagerWrapper = new DeepBookBalanceManagerWrapper(this.client);
+    this.balanceManagerWrapper = new DeepBookBalanceManagerWrapper(this.client, this.registry.coins, cache);
+    this.governanceWrapper = new DeepBookGovernanceWrapper(this.client, this.registry);
+    this.routerWrapper = new DeepBookRouterWrapper(this.client, this.registry.pools, deepBookConfig);
+    this.eventStreams = new DeepBookEvents(suiClient, this.registry, eventCursorStore, balanceManagers);
+    this.executor = new DeepBookTransactionExecutor(suiClient, signer, this.registry.coins, address);
   }
 
   /**
@@ -75,6 +137,27 @@ export class DeepBookTradingClient {
     return this.balanceManagerWrapper;
   }
 
+  /**
+   * Get the staking and governance functionality wrapper
+   */
+  get governance(): DeepBookGovernanceWrapper {
+    return this.governanceWrapper;
+  }
+
+  /**
+   * Get the multi-hop swap router
+   */
+  get router(): DeepBookRouterWrapper {
+    return this.routerWrapper;
+  }
+
+  /**
+   * Get the event streams for fills, order updates, book changes and balance changes
+   */
+  get events(): DeepBookEvents {
+    return this.eventStreams;
+  }
+
   /**
    * Get the raw DeepBookClient for advanced operations
    */
@@ -83,40 +166,65 @@ export class DeepBookTradingClient {
   }
 
   /**
-   * Get default coin configurations for the specified environment
-   * @param env Environment (mainnet, testnet, devnet)
-   * @returns Coin configuration map
+   * Sign, execute and wait for a transaction built by any of the wrappers
+   * @param tx Transaction to execute
+   * @param options Signer (defaults to config.signer), gas budget and finality options
+   * @returns Digest, effects status, gas, balance changes and parsed DeepBook events
+   * @throws TransactionError on failure, carrying txDigest once the transaction reached the chain
+   */
+  async execute(tx: Transaction, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    return this.executor.execute(tx, options);
+  }
+
+  /**
+   * Preview a transaction with a dry run (or devInspect) without signing it
+   * @param tx Transaction to simulate
+   * @param options Simulation mode and sender (defaults to the signer, then the client address)
+   * @returns Gas cost, per-coin balance deltas, object changes, order events and decoded Move abort
+   */
+  async simulate(tx: Transaction, options: SimulateOptions = {}): Promise<SimulationPreview> {
+    return this.executor.simulate(tx, options);
+  }
+
+  /**
+   * Create a local replica of a pool's order book
+   * Call sync() on the replica to take its first snapshot and to catch up afterwards.
+   * @param poolKey Pool key
+   * @param options Snapshot depth, catch-up limits and resync interval
+   * @returns Order book replica with no snapshot yet
+   */
+  createOrderBookReplica(poolKey: string, options: OrderBookReplicaOptions = {}): OrderBookReplica {
+    return new OrderBookReplica(this.client, this.registry, poolKey, options);
+  }
+
+  /**
+   * Create a trade history backed by a trade store
+   * Call sync() to fetch fills, then read candles and volume summaries from the store.
+   * @param store Where trades are kept; in memory when omitted
+   * @returns Trade history over the client's queries
    */
-  private getDefaultCoins(env: Environment): any {
-    // This would load from a configuration file
-    // For now, return empty object - actual implementation would load from JSON
-    return {};
+  createTradeHistory(store?: TradeStore): TradeHistory {
+    return new TradeHistory(this.queryWrapper, store);
   }
 
   /**
-   * Get default pool configurations for the specified environment
-   * @param env Environment (mainnet, testnet, devnet)
-   * @returns Pool configuration map
+   * Get the coin and pool registry the client was constructed with
    */
-  private getDefaultPools(env: Environment): any {
-    // This would load from a configuration file
-    // For now, return empty object - actual implementation would load from JSON
-    return {};
+  getRegistry(): Registry {
+    return this.registry;
   }
 
   /**
    * Helper method to get all available pool keys for the current environment
    */
   getAvailablePoolKeys(): string[] {
-    const pools = this.getDefaultPools(this.rawClient['#config'].env);
-    return Object.keys(pools || {});
+    return Object.keys(this.registry.pools);
   }
 
   /**
    * Helper method to get all available coin keys for the current environment
    */
   getAvailableCoinKeys(): string[] {
-    const coins = this.getDefaultCoins(this.rawClient['#config'].env);
-    return Object.keys(coins || {});
+    return Object.keys(this.registry.coins);
   }
-}
\ No newline at end of file
+}
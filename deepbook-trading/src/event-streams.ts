@@ -0,0 +1,475 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { EventEmitter } from 'events';
+import type { EventId, PaginatedEvents, SuiEvent } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+import type {
+  BalanceChange,
+  BalanceManager,
+  BalanceEventData,
+  BookChange,
+  EventCursorStore,
+  EventStreamOptions,
+  EventStreamRpc,
+  OrderCanceledEventData,
+  OrderEventData,
+  OrderFilledEventData,
+  OrderModifiedEventData,
+  OrderPlacedEventData,
+  OrderUpdate,
+  PoolEventData,
+  Registry,
+  RegistryCoin,
+  Trade,
+} from './types/index.js';
+import { QueryError, RegistryError } from './types/index.js';
+import { EVENT_PAGE_SIZE, EVENT_POLL_INTERVAL_MS, FLOAT_SCALAR } from './utils/config.js';
+import { toQueryError } from './utils/errors.js';
+import { MemoryEventCursorStore } from './utils/event-cursors.js';
+import { sortByExecution } from './utils/event-order.js';
+import { ORDER_EVENTS, toTrade } from './utils/events.js';
+
+const LIFECYCLE_TYPES = {
+  OrderPlaced: 'placed',
+  OrderFilled: 'filled',
+  OrderModified: 'modified',
+  OrderCanceled: 'cancelled',
+  OrderExpired: 'expired',
+} as const;
+
+export interface EventStreamSpec<T> {
+  cursorKey: string; // Prefix of the persisted cursors, one per event type
+  eventTypes: () => Promise<string[]>; // Fully qualified Move event types to poll
+  map: (event: SuiEvent) => T[]; // Items an event delivers; empty to skip it
+}
+
+/**
+ * Stream of normalized DeepBook events, polled with persisted cursors
+ * Iterate it with for await, or call start() and listen for 'data' and 'error'. Each event's
+ * cursor is saved once its items have been handled or the loop is left, so a restarted stream
+ * continues with the next event; only an event being handled when the process died is delivered
+ * again. A stream with no saved cursor starts after the latest existing event, or with the
+ * earliest one when startAt is earliest.
+ */
+export class DeepBookEventStream<T> extends EventEmitter implements AsyncIterable<T> {
+  private stopped = false;
+  private wake?: () => void;
+
+  constructor(
+    private rpc: EventStreamRpc,
+    private cursors: EventCursorStore,
+    private spec: EventStreamSpec<T>,
+    private options: EventStreamOptions = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Poll for events until stop() is called
+   * Event types are polled side by side and merged oldest first.
+   * @throws QueryError when the events cannot be read
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const eventTypes = await this.resolve(() => this.spec.eventTypes());
+    const keys = eventTypes.map(eventType => `${this.spec.cursorKey}:${parseStructTag(eventType).name}`);
+    const cursors: Array<EventId | null> = [];
+    for (const [index, eventType] of eventTypes.entries()) {
+      cursors.push(await this.initialCursor(eventType, keys[index]));
+    }
+
+    while (!this.stopped) {
+      const pages = await this.resolve(() =>
+        Promise.all(eventTypes.map((eventType, index) => this.fetch(eventType, cursors[index], 'ascending')))
+      );
+
+      // A type with more pages may continue its last checkpoint there, possibly with events that
+      // ran before other types' events of that checkpoint, so the batch stops before it. A page
+      // that ends at that checkpoint with nothing older is read further until it gets past it.
+      let horizon = pageHorizon(pages);
+      while (horizon < Infinity && !pages.some(page => page.data.some(event => timestampOf(event) < horizon))) {
+        await this.resolve(() =>
+          Promise.all(
+            pages.map(async (page, index) => {
+              if (page.hasNextPage && timestampOf(page.data[page.data.length - 1]) === horizon) {
+                const next = await this.fetch(eventTypes[index], page.nextCursor ?? null, 'ascending');
+                pages[index] = { ...next, data: [...page.data, ...next.data] };
+              }
+            })
+          )
+        );
+        horizon = pageHorizon(pages);
+      }
+
+      const types = new Map<SuiEvent, number>();
+      pages.forEach((page, index) => page.data.forEach(event => types.set(event, index)));
+      const older = [...types.keys()].filter(event => timestampOf(event) < horizon);
+      const events = await this.resolve(() => sortByExecution(this.rpc, older));
+      const batch = events.map(event => ({ event, index: types.get(event) as number }));
+
+      for (const { event, index } of batch) {
+        try {
+          for (const item of this.spec.map(event)) {
+            yield item;
+          }
+        } finally {
+          // Also reached when the consumer leaves the loop, which counts as handling the event
+          cursors[index] = event.id;
+          await this.cursors.save(keys[index], event.id);
+        }
+        if (this.stopped) {
+          return;
+        }
+      }
+
+      if (!pages.some(page => page.hasNextPage)) {
+        await this.sleep(this.options.pollIntervalMs ?? EVENT_POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  /**
+   * Poll in the background, emitting 'data' for each item
+   * Read errors are emitted as 'error' and polling retries after the poll interval,
+   * so attach an 'error' listener.
+   * @returns This stream
+   */
+  start(): this {
+    void this.run();
+    return this;
+  }
+
+  /**
+   * Stop polling; the stream cannot be restarted
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopped) {
+      try {
+        for await (const item of this) {
+          this.emit('data', item);
+        }
+      } catch (error) {
+        this.emit('error', error);
+        await this.sleep(this.options.pollIntervalMs ?? EVENT_POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  /**
+   * Helper to load a saved cursor, or save one at the latest existing event unless starting at the earliest
+   */
+  private async initialCursor(eventType: string, key: string): Promise<EventId | null> {
+    const saved = await this.cursors.load(key);
+    if (saved) {
+      return saved;
+    }
+    if (this.options.startAt === 'earliest') {
+      return null;
+    }
+
+    const [latest] = (await this.resolve(() => this.fetch(eventType, null, 'descending', 1))).data;
+    if (!latest) {
+      return null;
+    }
+    await this.cursors.save(key, latest.id);
+    return latest.id;
+  }
+
+  private fetch(
+    eventType: string,
+    cursor: EventId | null,
+    order: 'ascending' | 'descending',
+    limit: number = this.options.pageSize ?? EVENT_PAGE_SIZE
+  ): Promise<PaginatedEvents> {
+    return this.rpc.queryEvents({ query: { MoveEventType: eventType }, cursor, limit, order });
+  }
+
+  private async resolve<R>(read: () => Promise<R>): Promise<R> {
+    try {
+      return await read();
+    } catch (error) {
+      throw toQueryError(error, `Failed to read events for stream ${this.spec.cursorKey}`, {
+        operation: 'streamEvents',
+      });
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * Event stream factory for pools and balance managers
+ * Streams poll queryEvents by event type, so their cursors survive restarts when the
+ * cursor store is persistent (see FileEventCursorStore).
+ */
+export class DeepBookEvents {
+  private packageId?: Promise<string>;
+
+  constructor(
+    private rpc: EventStreamRpc,
+    private registry: Registry,
+    private cursors: EventCursorStore = new MemoryEventCursorStore(),
+    private balanceManagers: Record<string, BalanceManager> = {}
+  ) {}
+
+  /**
+   * Stream a pool's fills
+   * @param poolKey Pool key
+   * @param options Poll interval, page size and cursor key (default fills:<poolKey>)
+   * @returns Stream of trades normalized by the pool's scalars
+   * @throws RegistryError when the pool or its coins are not in the registry
+   */
+  fills(poolKey: string, options: EventStreamOptions = {}): DeepBookEventStream<Trade> {
+    const { poolId, baseCoin, quoteCoin } = this.getPool(poolKey, 'fills');
+
+    return this.stream(options, `fills:${poolKey}`, poolId, ['order_info::OrderFilled'], event =>
+      isPool(event, poolId) ? [toTrade(poolKey, event, baseCoin, quoteCoin)] : []
+    );
+  }
+
+  /**
+   * Stream placements, fills, modifications, cancels and expirations of a balance manager's orders
+   * Orders in pools missing from the registry are skipped.
+   * @param balanceManager Balance manager object ID, or the key of a configured balance manager
+   * @param options Poll interval, page size and cursor key (default orderUpdates:<balanceManager>)
+   * @returns Stream of order updates; a self-matching fill yields one update per side
+   */
+  orderUpdates(balanceManager: string, options: EventStreamOptions = {}): DeepBookEventStream<OrderUpdate> {
+    const balanceManagerId = this.getBalanceManagerId(balanceManager);
+    const poolKeys = new Map(
+      Object.entries(this.registry.pools).map(([poolKey, pool]) => [normalizeSuiAddress(pool.address), poolKey])
+    );
+
+    return this.stream(options, `orderUpdates:${balanceManager}`, undefined, ORDER_EVENTS, event => {
+      const data = event.parsedJson as OrderEventData | OrderFilledEventData;
+      const poolKey = poolKeys.get(normalizeSuiAddress(data.pool_id));
+      if (!poolKey) {
+        return [];
+      }
+      const { baseCoin, quoteCoin } = this.getPool(poolKey, 'orderUpdates');
+      const name = parseStructTag(event.type).name as keyof typeof LIFECYCLE_TYPES;
+      const base = {
+        type: LIFECYCLE_TYPES[name],
+        poolKey,
+        balanceManagerId,
+        txDigest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        timestampMs: timestampOf(event),
+        price: toPrice(data.price, baseCoin, quoteCoin),
+      };
+
+      if (name === 'OrderFilled') {
+        const fill = data as OrderFilledEventData;
+        return (['maker', 'taker'] as const)
+          .filter(role => normalizeSuiAddress(fill[`${role}_balance_manager_id`]) === balanceManagerId)
+          .map(role => ({
+            ...base,
+            orderId: String(fill[`${role}_order_id`]),
+            clientOrderId: String(fill[`${role}_client_order_id`]),
+            isBid: role === 'taker' ? fill.taker_is_bid : !fill.taker_is_bid,
+            quantity: Number(fill.base_quantity) / baseCoin.scalar,
+            role,
+          }));
+      }
+
+      const order = data as OrderEventData;
+      if (normalizeSuiAddress(order.balance_manager_id) !== balanceManagerId) {
+        return [];
+      }
+      return [
+        {
+          ...base,
+          orderId: String(order.order_id),
+          clientOrderId: String(order.client_order_id),
+          isBid: order.is_bid,
+          quantity: Math.abs(restingDelta(name, order)) / baseCoin.scalar,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Stream changes to the resting quantity of a pool's book
+   * @param poolKey Pool key
+   * @param options Poll interval, page size and cursor key (default bookChanges:<poolKey>)
+   * @returns Stream of signed quantity changes per resting order and price
+   * @throws RegistryError when the pool or its coins are not in the registry
+   */
+  bookChanges(poolKey: string, options: EventStreamOptions = {}): DeepBookEventStream<BookChange> {
+    const { poolId, baseCoin, quoteCoin } = this.getPool(poolKey, 'bookChanges');
+
+    return this.stream(options, `bookChanges:${poolKey}`, poolId, ORDER_EVENTS, event => {
+      if (!isPool(event, poolId)) {
+        return [];
+      }
+      const data = event.parsedJson as OrderEventData | OrderFilledEventData;
+      const name = parseStructTag(event.type).name as keyof typeof LIFECYCLE_TYPES;
+      const fill = name === 'OrderFilled' ? (data as OrderFilledEventData) : undefined;
+      const order = data as OrderEventData;
+
+      return [
+        {
+          poolKey,
+          type: LIFECYCLE_TYPES[name],
+          txDigest: event.id.txDigest,
+          eventSeq: event.id.eventSeq,
+          timestampMs: timestampOf(event),
+          orderId: String(fill ? fill.maker_order_id : order.order_id),
+          isBid: fill ? !fill.taker_is_bid : order.is_bid,
+          price: toPrice(data.price, baseCoin, quoteCoin),
+          quantityDelta: restingDelta(name, data) / baseCoin.scalar,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Stream deposits into and withdrawals from a balance manager, including trade settlement
+   * @param balanceManager Balance manager object ID, or the key of a configured balance manager
+   * @param options Poll interval, page size and cursor key (default balanceChanges:<balanceManager>)
+   * @returns Stream of balance changes, scaled for coins in the registry
+   */
+  balanceChanges(balanceManager: string, options: EventStreamOptions = {}): DeepBookEventStream<BalanceChange> {
+    const balanceManagerId = this.getBalanceManagerId(balanceManager);
+    const coins = new Map(
+      Object.entries(this.registry.coins).map(([coinKey, coin]) => [normalizeStructTag(coin.type), { coinKey, coin }])
+    );
+
+    return this.stream(options, `balanceChanges:${balanceManager}`, undefined, ['balance_manager::BalanceEvent'], event => {
+      const data = event.parsedJson as BalanceEventData;
+      if (normalizeSuiAddress(data.balance_manager_id) !== balanceManagerId) {
+        return [];
+      }
+      const coinType = normalizeStructTag(data.asset.name);
+      const known = coins.get(coinType);
+
+      return [
+        {
+          balanceManagerId,
+          coinKey: known?.coinKey ?? null,
+          coinType,
+          amount: Number(data.amount) / (known?.coin.scalar ?? 1),
+          deposit: data.deposit,
+          txDigest: event.id.txDigest,
+          eventSeq: event.id.eventSeq,
+          timestampMs: timestampOf(event),
+        },
+      ];
+    });
+  }
+
+  private stream<T>(
+    options: EventStreamOptions,
+    defaultCursorKey: string,
+    poolId: string | undefined,
+    events: string[],
+    map: (event: SuiEvent) => T[]
+  ): DeepBookEventStream<T> {
+    return new DeepBookEventStream(
+      this.rpc,
+      this.cursors,
+      {
+        cursorKey: options.cursorKey ?? defaultCursorKey,
+        eventTypes: async () => {
+          const packageId = await this.getPackageId(poolId);
+          return events.map(event => `${packageId}::${event}`);
+        },
+        map,
+      },
+      options
+    );
+  }
+
+  /**
+   * Helper to find the original DeepBook package ID, which event types keep across upgrades
+   */
+  private getPackageId(poolId?: string): Promise<string> {
+    const id = poolId ?? Object.values(this.registry.pools)[0]?.address;
+    if (!id) {
+      throw new RegistryError('No pool in the registry to resolve DeepBook event types from');
+    }
+
+    this.packageId ??= this.rpc.getObject({ id, options: { showType: true } }).then(object => {
+      if (!object.data?.type) {
+        throw new QueryError(`Pool object ${id} has no type`);
+      }
+      return parseStructTag(object.data.type).address;
+    });
+    this.packageId.catch(() => (this.packageId = undefined));
+    return this.packageId;
+  }
+
+  private getPool(poolKey: string, operation: string): { poolId: string; baseCoin: RegistryCoin; quoteCoin: RegistryCoin } {
+    const pool = this.registry.pools[poolKey];
+    if (!pool) {
+      throw new RegistryError(`Unknown pool ${poolKey}`, poolKey, { operation, poolKey });
+    }
+
+    const [baseCoin, quoteCoin] = [pool.baseCoin, pool.quoteCoin].map(coinKey => {
+      const coin = this.registry.coins[coinKey];
+      if (!coin) {
+        throw new RegistryError(`Pool ${poolKey} uses unknown coin ${coinKey}`, coinKey, { operation, poolKey, coinKey });
+      }
+      return coin;
+    });
+
+    return { poolId: normalizeSuiAddress(pool.address), baseCoin, quoteCoin };
+  }
+
+  private getBalanceManagerId(balanceManager: string): string {
+    return normalizeSuiAddress(this.balanceManagers[balanceManager]?.address ?? balanceManager);
+  }
+}
+
+/**
+ * Signed change an order event makes to the resting quantity, in base units
+ */
+function restingDelta(name: keyof typeof LIFECYCLE_TYPES, data: OrderEventData | OrderFilledEventData): number {
+  switch (name) {
+    case 'OrderPlaced':
+      return Number((data as OrderPlacedEventData).placed_quantity);
+    case 'OrderFilled':
+      return -Number((data as OrderFilledEventData).base_quantity);
+    case 'OrderModified': {
+      const modified = data as OrderModifiedEventData;
+      return Number(modified.new_quantity) - Number(modified.previous_quantity);
+    }
+    case 'OrderCanceled':
+    case 'OrderExpired':
+      return -Number((data as OrderCanceledEventData).base_asset_quantity_canceled);
+  }
+}
+
+function toPrice(raw: unknown, baseCoin: RegistryCoin, quoteCoin: RegistryCoin): number {
+  return (Number(raw) / FLOAT_SCALAR / quoteCoin.scalar) * baseCoin.scalar;
+}
+
+function isPool(event: SuiEvent, poolId: string): boolean {
+  return normalizeSuiAddress((event.parsedJson as PoolEventData).pool_id) === poolId;
+}
+
+function timestampOf(event: SuiEvent): number {
+  return Number(event.timestampMs ?? 0);
+}
+
+/**
+ * Earliest last timestamp among pages that have more to read, Infinity when none has
+ */
+function pageHorizon(pages: PaginatedEvents[]): number {
+  return pages
+    .filter(page => page.hasNextPage && page.data.length > 0)
+    .reduce((min, page) => Math.min(min, timestampOf(page.data[page.data.length - 1])), Infinity);
+}
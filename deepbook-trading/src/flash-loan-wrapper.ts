@@ -4,6 +4,7 @@
 import type { DeepBookClient } from '@mysten/deepbook-v3';
 import { Transaction } from '@mysten/sui/transactions';
 import type { FlashLoanParams } from './types/index.js';
+import { toQueryError, toTransactionError } from './utils/errors.js';
 
 /**
  * Wrapper class for DeepBook flash loan operations
@@ -21,39 +22,46 @@ export class DeepBookFlashLoanWrapper {
     const tx = new Transaction();
     const { borrowPoolKey, tradePoolKey, borrowAmount, tradeAmount, isBaseAsset } = params;
 
-    // 1. Borrow asset from flash loan pool
-    const [borrowedAsset, flashLoan] = isBaseAsset
-      ? tx.add(this.client.flashLoans.borrowBaseAsset(borrowPoolKey, borrowAmount))
-      : tx.add(this.client.flashLoans.borrowQuoteAsset(borrowPoolKey, borrowAmount));
-
-    // 2. Execute trade in target pool
-    const tradeResult = isBaseAsset
-      ? tx.add(this.client.deepBook.swapExactBaseForQuote({
-          poolKey: tradePoolKey,
-          amount: tradeAmount,
-          deepAmount: 0,
-          minOut: 0,
-        }))
-      : tx.add(this.client.deepBook.swapExactQuoteForBase({
-          poolKey: tradePoolKey,
-          amount: tradeAmount,
-          deepAmount: 0,
-          minOut: 0,
-        }));
-
-    // 3. Return borrowed asset to flash loan pool
-    const remaining = isBaseAsset
-      ? tx.add(this.client.flashLoans.returnBaseAsset(
-          borrowPoolKey, borrowAmount, borrowedAsset, flashLoan
-        ))
-      : tx.add(this.client.flashLoans.returnQuoteAsset(
-          borrowPoolKey, borrowAmount, borrowedAsset, flashLoan
-        ));
-
-    // 4. Transfer profit to sender
-    // Note: In a real arbitrage, profit would be calculated from tradeResult
-    // This is a simplified version
-    tx.transferObjects([...tradeResult, remaining], tx.pure.address(this.client.address));
+    try {
+      // 1. Borrow asset from flash loan pool
+      const [borrowedAsset, flashLoan] = isBaseAsset
+        ? tx.add(this.client.flashLoans.borrowBaseAsset(borrowPoolKey, borrowAmount))
+        : tx.add(this.client.flashLoans.borrowQuoteAsset(borrowPoolKey, borrowAmount));
+
+      // 2. Execute trade in target pool
+      const tradeResult = isBaseAsset
+        ? tx.add(this.client.deepBook.swapExactBaseForQuote({
+            poolKey: tradePoolKey,
+            amount: tradeAmount,
+            deepAmount: 0,
+            minOut: 0,
+          }))
+        : tx.add(this.client.deepBook.swapExactQuoteForBase({
+            poolKey: tradePoolKey,
+            amount: tradeAmount,
+            deepAmount: 0,
+            minOut: 0,
+          }));
+
+      // 3. Return borrowed asset to flash loan pool
+      const remaining = isBaseAsset
+        ? tx.add(this.client.flashLoans.returnBaseAsset(
+            borrowPoolKey, borrowAmount, borrowedAsset, flashLoan
+          ))
+        : tx.add(this.client.flashLoans.returnQuoteAsset(
+            borrowPoolKey, borrowAmount, borrowedAsset, flashLoan
+          ));
+
+      // 4. Transfer profit to sender
+      // Note: In a real arbitrage, profit would be calculated from tradeResult
+      // This is a simplified version
+      tx.transferObjects([...tradeResult, remaining], tx.pure.address(this.client.address));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to build flash loan arbitrage from ${borrowPoolKey} to ${tradePoolKey}`, {
+        operation: 'createFlashLoanArbitrage',
+        poolKey: borrowPoolKey,
+      });
+    }
 
     return tx;
   }
@@ -67,20 +75,27 @@ export class DeepBookFlashLoanWrapper {
   async borrowBaseAsset(poolKey: string, amount: number): Promise<Transaction> {
     const tx = new Transaction();
 
-    const [borrowedAsset, flashLoan] = tx.add(
-      this.client.flashLoans.borrowBaseAsset(poolKey, amount)
-    );
-
-    // Store references for later return
-    tx.add({
-      kind: 'moveCall',
-      target: '0x2::transfer::public_share_object',
-      typeArguments: [],
-      arguments: [
-        tx.object(flashLoan),
-        tx.pure.address(this.client.address),
-      ],
-    });
+    try {
+      const [borrowedAsset, flashLoan] = tx.add(
+        this.client.flashLoans.borrowBaseAsset(poolKey, amount)
+      );
+
+      // Store references for later return
+      tx.add({
+        kind: 'moveCall',
+        target: '0x2::transfer::public_share_object',
+        typeArguments: [],
+        arguments: [
+          tx.object(flashLoan),
+          tx.pure.address(this.client.address),
+        ],
+      });
+    } catch (error) {
+      throw toTransactionError(error, `Failed to borrow base asset from ${poolKey}`, {
+        operation: 'borrowBaseAsset',
+        poolKey,
+      });
+    }
 
     return tx;
   }
@@ -94,20 +109,27 @@ export class DeepBookFlashLoanWrapper {
   async borrowQuoteAsset(poolKey: string, amount: number): Promise<Transaction> {
     const tx = new Transaction();
 
-    const [borrowedAsset, flashLoan] = tx.add(
-      this.client.flashLoans.borrowQuoteAsset(poolKey, amount)
-    );
-
-    // Store references for later return
-    tx.add({
-      kind: 'moveCall',
-      target: '0x2::transfer::public_share_object',
-      typeArguments: [],
-      arguments: [
-        tx.object(flashLoan),
-        tx.pure.address(this.client.address),
-      ],
-    });
+    try {
+      const [borrowedAsset, flashLoan] = tx.add(
+        this.client.flashLoans.borrowQuoteAsset(poolKey, amount)
+      );
+
+      // Store references for later return
+      tx.add({
+        kind: 'moveCall',
+        target: '0x2::transfer::public_share_object',
+        typeArguments: [],
+        arguments: [
+          tx.object(flashLoan),
+          tx.pure.address(this.client.address),
+        ],
+      });
+    } catch (error) {
+      throw toTransactionError(error, `Failed to borrow quote asset from ${poolKey}`, {
+        operation: 'borrowQuoteAsset',
+        poolKey,
+      });
+    }
 
     return tx;
   }
@@ -128,12 +150,19 @@ export class DeepBookFlashLoanWrapper {
   ): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.flashLoans.returnBaseAsset(
-      poolKey,
-      amount,
-      borrowedAsset,
-      flashLoan
-    ));
+    try {
+      tx.add(this.client.flashLoans.returnBaseAsset(
+        poolKey,
+        amount,
+        borrowedAsset,
+        flashLoan
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to return base asset to ${poolKey}`, {
+        operation: 'returnBaseAsset',
+        poolKey,
+      });
+    }
 
     return tx;
   }
@@ -154,12 +183,19 @@ export class DeepBookFlashLoanWrapper {
   ): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.flashLoans.returnQuoteAsset(
-      poolKey,
-      amount,
-      borrowedAsset,
-      flashLoan
-    ));
+    try {
+      tx.add(this.client.flashLoans.returnQuoteAsset(
+        poolKey,
+        amount,
+        borrowedAsset,
+        flashLoan
+      ));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to return quote asset to ${poolKey}`, {
+        operation: 'returnQuoteAsset',
+        poolKey,
+      });
+    }
 
     return tx;
   }
@@ -203,7 +239,10 @@ export class DeepBookFlashLoanWrapper {
         },
       };
     } catch (error) {
-      throw new Error(`Failed to calculate arbitrage profit: ${error}`);
+      throw toQueryError(error, `Failed to calculate arbitrage profit between ${poolA} and ${poolB}`, {
+        operation: 'calculateArbitrageProfit',
+        poolKey: poolA,
+      });
     }
   }
 
@@ -211,6 +250,7 @@ export class DeepBookFlashLoanWrapper {
    * Check if flash loan is available for a pool
    * @param poolKey Pool key
    * @returns Whether flash loan is available
+   * @throws QueryError when the vault balances cannot be read
    */
   async isFlashLoanAvailable(poolKey: string): Promise<boolean> {
     try {
@@ -224,8 +264,10 @@ export class DeepBookFlashLoanWrapper {
 
       return false;
     } catch (error) {
-      console.warn(`Failed to check flash loan availability for ${poolKey}: ${error}`);
-      return false;
+      throw toQueryError(error, `Failed to check flash loan availability for ${poolKey}`, {
+        operation: 'isFlashLoanAvailable',
+        poolKey,
+      });
     }
   }
 }
\ No newline at end of file
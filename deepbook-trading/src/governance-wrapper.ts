@@ -0,0 +1,304 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import type { FeeTier, GovernanceProposal, PoolGovernance, Registry } from './types/index.js';
+import { QueryError, RegistryError, ValidationError } from './types/index.js';
+import { FLOAT_SCALAR } from './utils/config.js';
+import { toQueryError, toTransactionError } from './utils/errors.js';
+
+// Move object fields read from a pool, as returned with showContent
+interface PoolFields {
+  inner?: { fields?: { id: { id: string }; version: string } };
+}
+
+interface PoolInnerFields {
+  value?: { fields?: { state?: { fields?: { governance?: { fields?: GovernanceFields } } } } };
+}
+
+interface GovernanceFields {
+  epoch: string;
+  quorum: string;
+  voting_power: string;
+  proposals?: { fields?: { contents?: ProposalEntry[] } }; // VecMap<ID, Proposal>
+}
+
+interface ProposalEntry {
+  fields: {
+    key: string;
+    value: { fields: { taker_fee: string; maker_fee: string; stake_required: string; votes: string } };
+  };
+}
+
+/**
+ * Wrapper class for DEEP staking and pool governance
+ * Stake becomes active in the next epoch; proposals and votes only count for the current epoch.
+ */
+export class DeepBookGovernanceWrapper {
+  constructor(
+    private client: DeepBookClient,
+    private registry: Registry
+  ) {}
+
+  /**
+   * Stake DEEP from the balance manager in a pool
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @param amount DEEP to stake
+   * @returns Transaction object ready for execution
+   * @throws ValidationError when the amount is not positive
+   */
+  async stake(poolKey: string, balanceManagerKey: string, amount: number): Promise<Transaction> {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new ValidationError(`Stake amount ${amount} must be a positive number`, {
+        operation: 'stake',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.governance.stake(poolKey, balanceManagerKey, amount));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to stake in pool ${poolKey}`, {
+        operation: 'stake',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Unstake all DEEP staked by the balance manager in a pool
+   * Unstaking also withdraws the balance manager's vote for the epoch.
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @returns Transaction object ready for execution
+   */
+  async unstake(poolKey: string, balanceManagerKey: string): Promise<Transaction> {
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.governance.unstake(poolKey, balanceManagerKey));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to unstake in pool ${poolKey}`, {
+        operation: 'unstake',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Propose new trade parameters for the next epoch
+   * The proposal ID is the proposer's balance manager ID, and submitting also votes for it.
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key (needs active stake)
+   * @param takerFee Taker fee rate, e.g. 0.001 for 10 bps
+   * @param makerFee Maker fee rate
+   * @param stakeRequired DEEP stake required for the fee discount
+   * @returns Transaction object ready for execution
+   * @throws ValidationError when a fee or the stake is negative
+   */
+  async submitProposal(
+    poolKey: string,
+    balanceManagerKey: string,
+    takerFee: number,
+    makerFee: number,
+    stakeRequired: number
+  ): Promise<Transaction> {
+    for (const [name, value] of Object.entries({ takerFee, makerFee, stakeRequired })) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new ValidationError(`Proposal ${name} ${value} must be a non-negative number`, {
+          operation: 'submitProposal',
+          poolKey,
+          balanceManagerKey,
+        });
+      }
+    }
+
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.governance.submitProposal({
+        poolKey,
+        balanceManagerKey,
+        takerFee,
+        makerFee,
+        stakeRequired,
+      }));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to submit proposal in pool ${poolKey}`, {
+        operation: 'submitProposal',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Vote for a proposal with the balance manager's active stake
+   * Voting again moves the vote from the previous proposal.
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key (needs active stake)
+   * @param proposalId Proposal ID (the proposer's balance manager ID)
+   * @returns Transaction object ready for execution
+   */
+  async vote(poolKey: string, balanceManagerKey: string, proposalId: string): Promise<Transaction> {
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.governance.vote(poolKey, balanceManagerKey, proposalId));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to vote in pool ${poolKey}`, {
+        operation: 'vote',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Get the proposals submitted in the current epoch, read from the pool's governance state
+   * Governance state only rolls over on the pool's first interaction in a new epoch, so
+   * proposals left over from an earlier epoch are not returned.
+   * @param poolKey Pool key
+   * @returns Epoch, quorum, voting power and proposals with their votes
+   * @throws QueryError when the pool's governance state cannot be read
+   */
+  async getProposals(poolKey: string): Promise<PoolGovernance> {
+    const pool = this.registry.pools[poolKey];
+    if (!pool) {
+      throw new RegistryError(`Unknown pool ${poolKey}`, poolKey, { operation: 'getProposals', poolKey });
+    }
+
+    try {
+      const deepScalar = this.deepScalar();
+      const [governance, systemState] = await Promise.all([
+        this.readGovernance(pool.address),
+        this.client.client.getLatestSuiSystemState(),
+      ]);
+
+      const epoch = Number(governance.epoch);
+      const currentEpoch = Number(systemState.epoch);
+      const proposals: GovernanceProposal[] = epoch < currentEpoch
+        ? []
+        : (governance.proposals?.fields?.contents ?? []).map(entry => {
+          const proposal = entry.fields.value.fields;
+          return {
+            proposalId: entry.fields.key,
+            takerFee: Number(proposal.taker_fee) / FLOAT_SCALAR,
+            makerFee: Number(proposal.maker_fee) / FLOAT_SCALAR,
+            stakeRequired: Number(proposal.stake_required) / deepScalar,
+            votes: Number(proposal.votes) / deepScalar,
+          };
+        });
+
+      return {
+        poolKey,
+        epoch,
+        currentEpoch,
+        quorum: Number(governance.quorum) / deepScalar,
+        votingPower: Number(governance.voting_power) / deepScalar,
+        proposals,
+      };
+    } catch (error) {
+      throw toQueryError(error, `Failed to get proposals for pool ${poolKey}`, {
+        operation: 'getProposals',
+        poolKey,
+      });
+    }
+  }
+
+  /**
+   * Get the trade parameters in effect this epoch and the balance manager's standing against them
+   * DeepBook halves the taker fee for accounts whose active stake and epoch taker volume
+   * (in DEEP) both reach stakeRequired; stakeQualified only reports the stake half.
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @returns Current and next-epoch fees, stake requirement and the account's stake
+   */
+  async getFeeTier(poolKey: string, balanceManagerKey: string): Promise<FeeTier> {
+    try {
+      const [current, next, hasAccount] = await Promise.all([
+        this.client.poolTradeParams(poolKey),
+        this.client.poolTradeParamsNext(poolKey),
+        this.client.accountExists(poolKey, balanceManagerKey),
+      ]);
+      const account = hasAccount ? await this.client.account(poolKey, balanceManagerKey) : undefined;
+      const activeStake = account?.active_stake ?? 0;
+
+      return {
+        poolKey,
+        takerFee: current.takerFee,
+        makerFee: current.makerFee,
+        stakeRequired: current.stakeRequired,
+        discountedTakerFee: current.takerFee / 2,
+        activeStake,
+        inactiveStake: account?.inactive_stake ?? 0,
+        stakeQualified: activeStake >= current.stakeRequired,
+        votedProposal: account?.voted_proposal ?? null,
+        next,
+      };
+    } catch (error) {
+      throw toQueryError(error, `Failed to get fee tier for pool ${poolKey}`, {
+        operation: 'getFeeTier',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+  }
+
+  /**
+   * Helper to read the governance fields of a pool's versioned inner state
+   */
+  private async readGovernance(poolAddress: string): Promise<GovernanceFields> {
+    const poolObject = await this.client.client.getObject({ id: poolAddress, options: { showContent: true } });
+    const inner = moveFields<PoolFields>(poolObject)?.inner?.fields;
+    if (!inner) {
+      throw new QueryError(`Pool object ${poolAddress} has no inner state`);
+    }
+
+    const innerObject = await this.client.client.getDynamicFieldObject({
+      parentId: inner.id.id,
+      name: { type: 'u64', value: inner.version },
+    });
+    const governance = moveFields<PoolInnerFields>(innerObject)?.value?.fields?.state?.fields?.governance?.fields;
+    if (!governance) {
+      throw new QueryError(`Pool ${poolAddress} has no governance state`);
+    }
+
+    return governance;
+  }
+
+  /**
+   * Helper to get the DEEP scalar from the registry
+   */
+  private deepScalar(): number {
+    const deep = this.registry.coins.DEEP;
+    if (!deep) {
+      throw new RegistryError('DEEP is not in the coin registry', 'DEEP');
+    }
+    return deep.scalar;
+  }
+}
+
+/**
+ * Get the Move fields of an object read with showContent
+ */
+function moveFields<T>(object: SuiObjectResponse): T | undefined {
+  const content = object.data?.content;
+  return content?.dataType === 'moveObject' ? (content.fields as T) : undefined;
+}
@@ -14,6 +14,13 @@ export { DeepBookTradingWrapper } from './transaction-wrapper.js';
 export { DeepBookQueryWrapper } from './query-wrapper.js';
 export { DeepBookFlashLoanWrapper } from './flash-loan-wrapper.js';
 export { DeepBookBalanceManagerWrapper } from './balance-manager-wrapper.js';
+export { DeepBookGovernanceWrapper } from './governance-wrapper.js';
+export { DeepBookRouterWrapper } from './router-wrapper.js';
+export { DeepBookTransactionExecutor } from './transaction-executor.js';
+export { OrderBookReplica } from './order-book-replica.js';
+export { TradeHistory } from './trade-history.js';
+export { DeepBookEvents, DeepBookEventStream } from './event-streams.js';
+export type { EventStreamSpec } from './event-streams.js';
 
 // Export all type definitions
 export * from './types/index.js';
@@ -24,9 +31,82 @@ export {
   FLOAT_SCALAR,
   GAS_BUDGET,
   MAX_TIMESTAMP,
+  MAX_U64,
+  DEFAULT_ORDER_DURATION_MS,
+  MAX_PTB_COMMANDS,
+  MAX_CANCEL_BATCH_SIZE,
+  FEE_PENALTY_MULTIPLIER,
+  SWAP_DEEP_BUFFER,
+  FEE_ESTIMATE_BOOK_DEPTH,
+  ORDER_BOOK_IMBALANCE_LEVELS,
+  DEFAULT_MAX_HOPS,
+  TRADE_PAGE_SIZE,
+  TRADE_QUERY_MAX_EVENT_PAGES,
+  MAX_CANDLE_INTERVAL_MS,
+  TRADE_SUMMARY_WINDOW_MS,
+  ACCOUNT_HISTORY_LOOKBACK_MS,
+  EVENT_POLL_INTERVAL_MS,
+  EVENT_PAGE_SIZE,
+  POOL_PARAMS_CACHE_TTL_MS,
+  REPLICA_SNAPSHOT_DEPTH,
+  REPLICA_MAX_CATCH_UP_CHECKPOINTS,
+  REPLICA_RESYNC_INTERVAL_MS,
   POOL_CREATION_FEE,
   PRICE_INFO_OBJECT_MAX_AGE,
+  DEFAULT_ORDER_TYPE,
+  DEFAULT_SELF_MATCHING_OPTION,
+  DEFAULT_PAY_WITH_DEEP,
 } from './utils/config.js';
 
 // Export configuration helpers
-export { getDefaultCoins, getDefaultPools } from './utils/constants.js';
\ No newline at end of file
+export { getDefaultCoins, getDefaultPools } from './utils/constants.js';
+export { loadRegistry, normalizeCoins, normalizePools, saveRegistry } from './utils/registry.js';
+export { discoverRegistryPools, createFixtureRpc, recordRpc } from './utils/pool-discovery.js';
+
+// Export execution helpers
+export { keypairSigner, callbackSigner, multisigSigner } from './utils/signers.js';
+export type { MultisigParticipant } from './utils/signers.js';
+export { parseDeepBookEvents, filterEvents, toTrade } from './utils/events.js';
+export { MemoryEventCursorStore, FileEventCursorStore } from './utils/event-cursors.js';
+export { FakeEventSource } from './utils/fake-event-source.js';
+export type { FakeEventInput } from './utils/fake-event-source.js';
+export { parseMoveAbort, decodeMoveAbort } from './utils/move-abort.js';
+export { toQueryError, toTransactionError } from './utils/errors.js';
+export { QueryCache } from './utils/query-cache.js';
+export {
+  runBatchedReads,
+  poolTradeParamsRead,
+  poolBookParamsRead,
+  vaultBalancesRead,
+  whitelistedRead,
+  midPriceRead,
+  level2TicksRead,
+  managerBalanceRead,
+} from './utils/batched-reads.js';
+export type { BatchedRead } from './utils/batched-reads.js';
+export { validateOrder, roundToStep } from './utils/order-validation.js';
+export { estimateFees, crossingQuantity } from './utils/fees.js';
+export { findSwapPaths } from './utils/routing.js';
+export {
+  toBookLevels,
+  bookMidPrice,
+  bookSpread,
+  bookImbalance,
+  microprice,
+  costToMove,
+  impactForSize,
+} from './utils/order-book.js';
+export { buildCandles, parseCandleInterval, summarizeTrades } from './utils/candles.js';
+export { MemoryTradeStore, JsonLinesTradeStore, SqliteTradeStore } from './utils/trade-stores.js';
+export { buildAccountHistory } from './utils/account-history.js';
+export type { AccountHistoryContext } from './utils/account-history.js';
+export { depositCoins, returnToSender, settleSwapOutputs } from './utils/coins.js';
+export { resolveExpiration, isGoodTillCancelled } from './utils/expiration.js';
+export {
+  ClientOrderIdAllocator,
+  MemoryClientOrderIdStore,
+  FileClientOrderIdStore,
+  toClientOrderId,
+} from './utils/client-order-ids.js';
+export { DEEPBOOK_ABORT_CODES, lookupAbortCode } from './utils/abort-codes.js';
+export { validateRegistry, isPlaceholderId, isZeroId } from './utils/registry-validation.js';
\ No newline at end of file
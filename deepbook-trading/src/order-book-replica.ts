@@ -0,0 +1,481 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+import type {
+  BookLevel,
+  DeepBookEvent,
+  OrderBookReplicaOptions,
+  OrderBookReplicaState,
+  OrderBookUpdate,
+  OrderCanceledEventData,
+  OrderFilledEventData,
+  OrderModifiedEventData,
+  OrderPlacedEventData,
+  PriceImpact,
+  Registry,
+  RegistryCoin,
+  Side,
+} from './types/index.js';
+import { QueryError, RegistryError } from './types/index.js';
+import {
+  EVENT_PAGE_SIZE,
+  FLOAT_SCALAR,
+  REPLICA_MAX_CATCH_UP_CHECKPOINTS,
+  REPLICA_MAX_CATCH_UP_PAGES,
+  REPLICA_RESYNC_INTERVAL_MS,
+  REPLICA_SNAPSHOT_ATTEMPTS,
+  REPLICA_SNAPSHOT_DEPTH,
+} from './utils/config.js';
+import { toQueryError } from './utils/errors.js';
+import { sortByExecution } from './utils/event-order.js';
+import { ORDER_EVENTS, parseDeepBookEvents } from './utils/events.js';
+import { bookMidPrice, impactForSize } from './utils/order-book.js';
+
+// One side of the book: price to resting quantity in the base coin's smallest units,
+// kept as integers so event deltas apply exactly
+type BookSide = Map<number, number>;
+
+type Level2Snapshot = Awaited<ReturnType<DeepBookClient['getLevel2TicksFromMid']>>;
+
+/**
+ * Local replica of a pool's order book
+ * Starts from a Level-2 snapshot and applies OrderPlaced, OrderFilled, OrderModified,
+ * OrderCanceled and OrderExpired events, so best price, depth and VWAP queries need no RPC
+ * round trip. sync() pages those event types with queryEvents from cursors taken at the
+ * snapshot; applyUpdate() takes events streamed by the caller. Only prices inside the
+ * snapshot's range are tracked: when a side had more levels than the snapshot depth, events
+ * beyond its last level are ignored. A gap in the checkpoint sequence or an emptied side
+ * takes a new snapshot. Events are applied in on-chain execution order, and a level is only
+ * dropped once the whole batch is applied, so a cancel listed before its placement nets out.
+ */
+export class OrderBookReplica {
+  private bids: BookSide = new Map();
+  private asks: BookSide = new Map();
+  private bidFloor = 0; // Lowest bid price the snapshot covers
+  private askCeiling = Infinity; // Highest ask price the snapshot covers
+  private checkpoint = -1;
+  private snapshotCheckpoint = -1;
+  private snapshotTimestamp = 0;
+  private resyncs = 0;
+  private cursors: Array<EventId | null> = []; // Last event applied per ORDER_EVENTS type
+  private eventTypes?: Promise<string[]>;
+  private poolId: string;
+  private baseCoin: RegistryCoin;
+  private quoteCoin: RegistryCoin;
+
+  constructor(
+    private client: DeepBookClient,
+    registry: Registry,
+    private poolKey: string,
+    private options: OrderBookReplicaOptions = {}
+  ) {
+    const pool = registry.pools[poolKey];
+    if (!pool) {
+      throw new RegistryError(`Unknown pool ${poolKey}`, poolKey, { operation: 'orderBookReplica', poolKey });
+    }
+
+    const [baseCoin, quoteCoin] = [pool.baseCoin, pool.quoteCoin].map(coinKey => {
+      const coin = registry.coins[coinKey];
+      if (!coin) {
+        throw new RegistryError(`Pool ${poolKey} uses unknown coin ${coinKey}`, coinKey, {
+          operation: 'orderBookReplica',
+          poolKey,
+          coinKey,
+        });
+      }
+      return coin;
+    });
+
+    this.poolId = normalizeSuiAddress(pool.address);
+    this.baseCoin = baseCoin;
+    this.quoteCoin = quoteCoin;
+  }
+
+  /**
+   * Replace the replica with a fresh Level-2 snapshot
+   * The latest checkpoint and the latest event of each type are read before the snapshot, then
+   * the pool's events since are checked: if any landed in between, the snapshot may or may not
+   * reflect them, so it is taken again, up to snapshotAttempts times. On a pool busy enough to
+   * exhaust them, the last snapshot is kept with cursors read after it, and events that landed
+   * between the reads are not replayed; resyncIntervalMs bounds how long such a miss, or an order
+   * that expired without an event, stays in the replica.
+   * @throws QueryError when the snapshot cannot be read
+   */
+  async resync(): Promise<void> {
+    const { depth = REPLICA_SNAPSHOT_DEPTH, snapshotAttempts = REPLICA_SNAPSHOT_ATTEMPTS } = this.options;
+
+    try {
+      const eventTypes = await this.getEventTypes();
+      let checkpoint: number;
+      let cursors: Array<EventId | null>;
+      let level2: Level2Snapshot;
+
+      for (let attempt = 1; ; attempt++) {
+        checkpoint = Number(await this.client.client.getLatestCheckpointSequenceNumber());
+        cursors = await Promise.all(eventTypes.map(eventType => this.latestEventId(eventType)));
+        level2 = await this.client.getLevel2TicksFromMid(this.poolKey, depth);
+        if (await this.unchangedSince(eventTypes, cursors)) {
+          break;
+        }
+        if (attempt >= snapshotAttempts) {
+          checkpoint = Number(await this.client.client.getLatestCheckpointSequenceNumber());
+          cursors = await Promise.all(eventTypes.map(eventType => this.latestEventId(eventType)));
+          break;
+        }
+      }
+
+      this.bids = this.toSide(level2.bid_prices, level2.bid_quantities);
+      this.asks = this.toSide(level2.ask_prices, level2.ask_quantities);
+      this.bidFloor = level2.bid_prices.length >= depth ? Math.min(...level2.bid_prices) : 0;
+      this.askCeiling = level2.ask_prices.length >= depth ? Math.max(...level2.ask_prices) : Infinity;
+
+      if (this.snapshotCheckpoint >= 0) {
+        this.resyncs++;
+      }
+      this.cursors = cursors;
+      this.checkpoint = checkpoint;
+      this.snapshotCheckpoint = checkpoint;
+      this.snapshotTimestamp = Date.now();
+    } catch (error) {
+      throw toQueryError(error, `Failed to snapshot order book for pool ${this.poolKey}`, {
+        operation: 'resyncOrderBook',
+        poolKey: this.poolKey,
+      });
+    }
+  }
+
+  /**
+   * Bring the replica up to the latest checkpoint
+   * Takes a snapshot on first use, once the snapshot is older than resyncIntervalMs, or when
+   * more than maxCatchUpCheckpoints or maxCatchUpPages of any event type are pending; otherwise
+   * applies the order events emitted since the last sync in execution order. Event queries cover every
+   * pool, and other pools' events are skipped. Do not mix with applyUpdate() on the same replica:
+   * the two track progress separately.
+   * @throws QueryError when a snapshot, checkpoint or event page cannot be read
+   */
+  async sync(): Promise<void> {
+    const {
+      maxCatchUpCheckpoints = REPLICA_MAX_CATCH_UP_CHECKPOINTS,
+      maxCatchUpPages = REPLICA_MAX_CATCH_UP_PAGES,
+      resyncIntervalMs = REPLICA_RESYNC_INTERVAL_MS,
+    } = this.options;
+
+    if (this.snapshotCheckpoint < 0 || Date.now() - this.snapshotTimestamp >= resyncIntervalMs) {
+      return this.resync();
+    }
+
+    try {
+      const latest = Number(await this.client.client.getLatestCheckpointSequenceNumber());
+      if (latest - this.checkpoint > maxCatchUpCheckpoints) {
+        return await this.resync();
+      }
+
+      const eventTypes = await this.getEventTypes();
+      const pending = await Promise.all(
+        eventTypes.map((eventType, index) => this.eventsSince(eventType, this.cursors[index], maxCatchUpPages))
+      );
+      if (pending.some(events => events === null)) {
+        return await this.resync();
+      }
+
+      const events: SuiEvent[] = [];
+      pending.forEach((typeEvents, index) => {
+        if (typeEvents && typeEvents.length > 0) {
+          events.push(...typeEvents);
+          this.cursors[index] = typeEvents[typeEvents.length - 1].id;
+        }
+      });
+      const ordered = await sortByExecution(this.client.client, events);
+      await this.applyEvents(parseDeepBookEvents(ordered), latest);
+    } catch (error) {
+      throw toQueryError(error, `Failed to sync order book for pool ${this.poolKey}`, {
+        operation: 'syncOrderBook',
+        poolKey: this.poolKey,
+      });
+    }
+  }
+
+  /**
+   * Apply the events of the next checkpoints, for callers that stream events themselves
+   * Updates must follow each other without gaps, including checkpoints with no events for
+   * the pool. Updates the replica already covers are ignored; any other discontinuity,
+   * or a side emptied down to where the snapshot stopped, takes a new snapshot.
+   * @param update Checkpoint range and its events in execution order
+   * @returns Whether the events were applied, ignored as already covered, or replaced by a snapshot
+   * @throws QueryError when a needed snapshot cannot be read
+   */
+  async applyUpdate(update: OrderBookUpdate): Promise<'applied' | 'ignored' | 'resynced'> {
+    const previousCheckpoint = update.previousCheckpoint ?? update.checkpoint - 1;
+    if (this.snapshotCheckpoint >= 0 && update.checkpoint <= this.checkpoint) {
+      return 'ignored';
+    }
+    if (previousCheckpoint !== this.checkpoint) {
+      await this.resync();
+      return 'resynced';
+    }
+
+    return this.applyEvents(update.events, update.checkpoint);
+  }
+
+  /**
+   * Get the best bid
+   * @returns Highest bid level, or null when there are no bids
+   */
+  bestBid(): BookLevel | null {
+    return this.levels(true)[0] ?? null;
+  }
+
+  /**
+   * Get the best ask
+   * @returns Lowest ask level, or null when there are no asks
+   */
+  bestAsk(): BookLevel | null {
+    return this.levels(false)[0] ?? null;
+  }
+
+  /**
+   * Get the mid price between the best bid and ask
+   * @returns Mid price, or null when either side is empty
+   */
+  midPrice(): number | null {
+    return bookMidPrice({ bids: this.levels(true), asks: this.levels(false) });
+  }
+
+  /**
+   * Get the quantity resting at one price level
+   * @param isBid Side of the book
+   * @param price Level price
+   * @returns Base quantity at the price, 0 when there is no level
+   */
+  quantityAt(isBid: boolean, price: number): number {
+    this.ensureSnapshot('quantityAt');
+    const quantity = (isBid ? this.bids : this.asks).get(price) ?? 0;
+    return quantity / this.baseCoin.scalar;
+  }
+
+  /**
+   * Get the quantity resting at prices as good as or better than a limit
+   * @param isBid Side of the book
+   * @param price Limit price: bids at or above it, asks at or below it
+   * @returns Cumulative base quantity
+   */
+  depthTo(isBid: boolean, price: number): number {
+    return this.levels(isBid)
+      .filter(level => (isBid ? level.price >= price : level.price <= price))
+      .reduce((sum, level) => sum + level.quantity, 0);
+  }
+
+  /**
+   * Get the volume-weighted average price of filling a quantity against the book
+   * @param side buy walks the asks, sell walks the bids
+   * @param quantity Base quantity to fill
+   * @returns Average and worst price, impact against the mid, and the quantity the replicated depth can fill
+   * @throws ValidationError when the quantity is not positive
+   */
+  vwap(side: Side, quantity: number): PriceImpact {
+    return impactForSize({ bids: this.levels(true), asks: this.levels(false) }, side, quantity);
+  }
+
+  /**
+   * Get the replicated book
+   * @param depth Maximum levels per side; all replicated levels when omitted
+   * @returns Levels best price first, mid price and the checkpoints the replica reflects
+   */
+  getState(depth?: number): OrderBookReplicaState {
+    const [bids, asks] = [this.levels(true), this.levels(false)];
+
+    return {
+      poolKey: this.poolKey,
+      checkpoint: this.checkpoint,
+      snapshotCheckpoint: this.snapshotCheckpoint,
+      snapshotTimestamp: this.snapshotTimestamp,
+      resyncs: this.resyncs,
+      bids: depth === undefined ? bids : bids.slice(0, depth),
+      asks: depth === undefined ? asks : asks.slice(0, depth),
+      midPrice: bookMidPrice({ bids, asks }),
+    };
+  }
+
+  /**
+   * Helper to apply events in order, then drop emptied levels and take a new snapshot if a side emptied
+   * down to where the snapshot stopped
+   */
+  private async applyEvents(events: DeepBookEvent[], checkpoint: number): Promise<'applied' | 'resynced'> {
+    for (const event of events) {
+      this.applyEvent(event);
+    }
+    for (const side of [this.bids, this.asks]) {
+      for (const [price, quantity] of side) {
+        if (quantity <= 0) {
+          side.delete(price);
+        }
+      }
+    }
+    this.checkpoint = checkpoint;
+
+    if ((this.bidFloor > 0 && this.bids.size === 0) || (this.askCeiling < Infinity && this.asks.size === 0)) {
+      await this.resync();
+      return 'resynced';
+    }
+    return 'applied';
+  }
+
+  /**
+   * Helper to apply one event to the book, ignoring other pools and prices outside the snapshot
+   */
+  private applyEvent(event: DeepBookEvent): void {
+    const { data } = event;
+    if (!this.isPoolEvent(event)) {
+      return;
+    }
+
+    switch (event.name) {
+      case 'OrderPlaced': {
+        const placed = data as unknown as OrderPlacedEventData;
+        this.adjustLevel(placed.is_bid, placed.price, Number(placed.placed_quantity));
+        break;
+      }
+      case 'OrderFilled': {
+        // The filled maker order rests on the side opposite the taker
+        const fill = data as unknown as OrderFilledEventData;
+        this.adjustLevel(!fill.taker_is_bid, fill.price, -Number(fill.base_quantity));
+        break;
+      }
+      case 'OrderModified': {
+        const modified = data as unknown as OrderModifiedEventData;
+        this.adjustLevel(modified.is_bid, modified.price, Number(modified.new_quantity) - Number(modified.previous_quantity));
+        break;
+      }
+      case 'OrderCanceled':
+      case 'OrderExpired': {
+        const canceled = data as unknown as OrderCanceledEventData;
+        this.adjustLevel(canceled.is_bid, canceled.price, -Number(canceled.base_asset_quantity_canceled));
+        break;
+      }
+    }
+  }
+
+  /**
+   * Helper to change the quantity at a level; applyEvents drops levels left empty once the batch is applied
+   */
+  private adjustLevel(isBid: boolean, rawPrice: string | number, delta: number): void {
+    const price = this.toPrice(rawPrice);
+    if (isBid ? price < this.bidFloor : price > this.askCeiling) {
+      return;
+    }
+
+    const side = isBid ? this.bids : this.asks;
+    side.set(price, (side.get(price) ?? 0) + delta);
+  }
+
+  /**
+   * Helper to tell the pool's events from other pools'
+   */
+  private isPoolEvent(event: DeepBookEvent): boolean {
+    const poolId = event.data.pool_id;
+    return typeof poolId === 'string' && normalizeSuiAddress(poolId) === this.poolId;
+  }
+
+  /**
+   * Helper to resolve the pool's order event types under the original DeepBook package ID, which event types keep across upgrades
+   */
+  private getEventTypes(): Promise<string[]> {
+    this.eventTypes ??= this.client.client.getObject({ id: this.poolId, options: { showType: true } }).then(object => {
+      if (!object.data?.type) {
+        throw new QueryError(`Pool object ${this.poolId} has no type`);
+      }
+      const packageId = parseStructTag(object.data.type).address;
+      return ORDER_EVENTS.map(event => `${packageId}::${event}`);
+    });
+    this.eventTypes.catch(() => (this.eventTypes = undefined));
+    return this.eventTypes;
+  }
+
+  /**
+   * Helper to get the ID of the latest event of a type, or null when there is none yet
+   */
+  private async latestEventId(eventType: string): Promise<EventId | null> {
+    const { data } = await this.client.client.queryEvents({
+      query: { MoveEventType: eventType },
+      cursor: null,
+      limit: 1,
+      order: 'descending',
+    });
+    return data[0]?.id ?? null;
+  }
+
+  /**
+   * Helper to check that none of the pool's events landed after the cursors
+   */
+  private async unchangedSince(eventTypes: string[], cursors: Array<EventId | null>): Promise<boolean> {
+    const pending = await Promise.all(
+      eventTypes.map((eventType, index) => this.eventsSince(eventType, cursors[index], 1))
+    );
+    return pending.every(
+      events => events !== null && !parseDeepBookEvents(events).some(event => this.isPoolEvent(event))
+    );
+  }
+
+  /**
+   * Helper to read the events of a type after a cursor, oldest first
+   * @returns The events, or null when more than maxPages pages are pending
+   */
+  private async eventsSince(eventType: string, cursor: EventId | null, maxPages: number): Promise<SuiEvent[] | null> {
+    const events: SuiEvent[] = [];
+
+    for (let pages = 0; pages < maxPages; pages++) {
+      const page = await this.client.client.queryEvents({
+        query: { MoveEventType: eventType },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: 'ascending',
+      });
+      events.push(...page.data);
+      if (!page.hasNextPage) {
+        return events;
+      }
+      cursor = page.nextCursor ?? null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Helper to get one side's levels, best price first, in display units
+   */
+  private levels(isBid: boolean): BookLevel[] {
+    this.ensureSnapshot(isBid ? 'bids' : 'asks');
+    return [...(isBid ? this.bids : this.asks)]
+      .sort(([a], [b]) => (isBid ? b - a : a - b))
+      .map(([price, quantity]) => ({ price, quantity: quantity / this.baseCoin.scalar }));
+  }
+
+  /**
+   * Helper to build one side from snapshot levels
+   */
+  private toSide(prices: number[], quantities: number[]): BookSide {
+    return new Map(prices.map((price, index) => [price, Math.round(quantities[index] * this.baseCoin.scalar)]));
+  }
+
+  /**
+   * Helper to convert an on-chain price the way the SDK's Level-2 query does, so levels line up
+   */
+  private toPrice(rawPrice: string | number): number {
+    return Number((Number(rawPrice) / FLOAT_SCALAR / this.quoteCoin.scalar * this.baseCoin.scalar).toFixed(9));
+  }
+
+  /**
+   * Helper to reject queries before the first snapshot
+   */
+  private ensureSnapshot(operation: string): void {
+    if (this.snapshotCheckpoint < 0) {
+      throw new QueryError(`Order book replica for pool ${this.poolKey} has no snapshot; call sync() first`, {
+        operation,
+        poolKey: this.poolKey,
+      });
+    }
+  }
+}
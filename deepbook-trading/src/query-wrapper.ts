@@ -1,80 +1,189 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
 
+import { mainnetPackageIds, testnetPackageIds } from '@mysten/deepbook-v3';
 import type { DeepBookClient } from '@mysten/deepbook-v3';
-import type { OrderBookQueryParams, AccountQueryParams } from './types/index.js';
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+import type {
+  AccountHistory,
+  AccountHistoryQuery,
+  BalanceManager,
+  Level2Ticks,
+  MarketSnapshot,
+  MarketSnapshotEntry,
+  OrderBook,
+  OrderBookQueryParams,
+  PoolEventData,
+  PoolStats,
+  AccountQueryParams,
+  QueryCacheMetrics,
+  Environment,
+  PoolDiscoveryOptions,
+  PoolDiscoveryResult,
+  Registry,
+  RegistryCoin,
+  Trade,
+  TradePage,
+  TradeQuery,
+} from './types/index.js';
+import { QueryError, RegistryError, ValidationError } from './types/index.js';
+import { buildAccountHistory } from './utils/account-history.js';
+import {
+  level2TicksRead,
+  midPriceRead,
+  poolBookParamsRead,
+  poolTradeParamsRead,
+  runBatchedReads,
+  vaultBalancesRead,
+  whitelistedRead,
+} from './utils/batched-reads.js';
+import { toQueryError } from './utils/errors.js';
+import { parseDeepBookEvents, toTrade } from './utils/events.js';
+import { discoverRegistryPools } from './utils/pool-discovery.js';
+import { QueryCache } from './utils/query-cache.js';
+import {
+  ACCOUNT_HISTORY_LOOKBACK_MS,
+  ACCOUNT_HISTORY_MAX_EVENT_PAGES,
+  MAX_PTB_COMMANDS,
+  ORDER_BOOK_IMBALANCE_LEVELS,
+  TRADE_PAGE_SIZE,
+  TRADE_QUERY_MAX_EVENT_PAGES,
+} from './utils/config.js';
+import {
+  bookImbalance,
+  bookMidPrice,
+  bookSpread,
+  costToMove,
+  impactForSize,
+  microprice,
+  toBookLevels,
+} from './utils/order-book.js';
+
+// Level-2 top of book, trade parameters and vault balances
+const MARKET_SNAPSHOT_READS_PER_POOL = 3;
 
 /**
  * Wrapper class for DeepBook data queries
  * Provides simplified interfaces for market data retrieval
  */
 export class DeepBookQueryWrapper {
-  constructor(private client: DeepBookClient) {}
+  // Package that defines the DeepBook types; event types keep it across upgrades
+  private originalPackageId?: string;
+
+  constructor(
+    private client: DeepBookClient,
+    private environment?: Environment,
+    private registry?: Registry,
+    private balanceManagers: Record<string, BalanceManager> = {},
+    private cache: QueryCache = new QueryCache()
+  ) {}
 
   /**
    * Get order book data with specified depth
-   * @param params Query parameters including pool key and depth
-   * @returns Order book data with bids, asks, and statistics
+   * Levels, mid price and pool statistics are read in one simulation, and identical
+   * requests in flight share it.
+   * @param params Query parameters including pool key, depth and imbalance levels
+   * @returns Levels with cumulative base and quote, spread, imbalance, microprice, pool statistics,
+   *   and costToMove/impactForSize helpers bound to the returned levels
+   * @throws RegistryError when the pool or its coins are not in the registry
    */
-  async getOrderBook(params: OrderBookQueryParams) {
-    const { poolKey, depth = 10, includeStats = true } = params;
+  async getOrderBook(params: OrderBookQueryParams): Promise<OrderBook> {
+    const { poolKey, depth = 10, includeStats = true, imbalanceLevels = ORDER_BOOK_IMBALANCE_LEVELS } = params;
 
     try {
-      // Get Level 2 order book data
-      const level2Data = await this.client.getLevel2TicksFromMid(poolKey, depth);
+      const { level2Data, midPrice, stats } = await this.cache.coalesce(
+        'getOrderBook',
+        `${poolKey}:${depth}:${includeStats}`,
+        () => this.readOrderBook(poolKey, depth, includeStats)
+      );
 
-      // Get mid price
-      const midPrice = await this.client.midPrice(poolKey);
-
-      // Get pool statistics if requested
-      const stats = includeStats ? await this.getPoolStats(poolKey) : null;
+      const book = {
+        bids: toBookLevels(level2Data.bid_prices, level2Data.bid_quantities),
+        asks: toBookLevels(level2Data.ask_prices, level2Data.ask_quantities),
+      };
 
       return {
-        bids: level2Data.bid_prices.map((price, index) => ({
-          price,
-          quantity: level2Data.bid_quantities[index],
-          cumulativeQuantity: this.calculateCumulative(level2Data.bid_quantities, index, true),
-        })),
-        asks: level2Data.ask_prices.map((price, index) => ({
-          price,
-          quantity: level2Data.ask_quantities[index],
-          cumulativeQuantity: this.calculateCumulative(level2Data.ask_quantities, index, false),
-        })),
+        ...book,
         midPrice,
+        spread: bookSpread(book),
+        imbalance: bookImbalance(book, imbalanceLevels),
+        microprice: microprice(book),
         stats,
         timestamp: Date.now(),
         poolKey,
         depth,
+        costToMove: (side, pricePercent) => costToMove(book, side, pricePercent),
+        impactForSize: (side, quantity) => impactForSize(book, side, quantity),
       };
     } catch (error) {
-      throw new Error(`Failed to get order book for pool ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get order book for pool ${poolKey}`, { operation: 'getOrderBook', poolKey });
     }
   }
 
   /**
    * Get comprehensive pool statistics
+   * Trade parameters and vault balances are read in one simulation; tick size, lot size
+   * and whitelist status are cached for the query cache TTL.
    * @param poolKey Pool key
    * @returns Pool statistics including trade params, book params, and vault balances
+   * @throws RegistryError when the pool or its coins are not in the registry
    */
-  async getPoolStats(poolKey: string) {
+  async getPoolStats(poolKey: string): Promise<PoolStats> {
     try {
-      const [tradeParams, bookParams, vaultBalances, whitelisted] = await Promise.all([
-        this.client.poolTradeParams(poolKey),
-        this.client.poolBookParams(poolKey),
-        this.client.vaultBalances(poolKey),
-        this.client.whitelisted(poolKey),
-      ]);
+      return await this.cache.coalesce('getPoolStats', poolKey, async () => {
+        const { baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getPoolStats');
+        const [[tradeParams, vaultBalances], poolParams] = await Promise.all([
+          runBatchedReads(
+            this.client.client,
+            [poolTradeParamsRead(this.client, poolKey), vaultBalancesRead(this.client, poolKey, baseCoin, quoteCoin)],
+            this.cache
+          ),
+          this.getPoolParams(poolKey),
+        ]);
 
-      return {
-        tradeParams,
-        bookParams,
-        vaultBalances,
-        whitelisted,
-        timestamp: Date.now(),
-      };
+        return { tradeParams, vaultBalances, ...poolParams, timestamp: Date.now() };
+      });
     } catch (error) {
-      throw new Error(`Failed to get pool stats for ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get pool stats for ${poolKey}`, { operation: 'getPoolStats', poolKey });
+    }
+  }
+
+  /**
+   * Get mid price, best bid and ask, spread, vault balances and trade parameters of many pools
+   * All pools are read in one simulation. A read that aborts fails the whole simulation, so a
+   * failing batch is split in half and retried until the failing pools are isolated; those,
+   * and pools missing from the registry, are returned as errored entries.
+   * @param poolKeys Pools to read (default: every registry pool)
+   * @returns Snapshot entries keyed by pool key
+   */
+  async getMarketSnapshot(poolKeys: string[] = Object.keys(this.registry?.pools ?? {})): Promise<MarketSnapshot> {
+    const pools: Record<string, MarketSnapshotEntry> = {};
+    const readable: string[] = [];
+    for (const poolKey of new Set(poolKeys)) {
+      try {
+        this.getRegistryPool(poolKey, 'getMarketSnapshot');
+        readable.push(poolKey);
+      } catch (error) {
+        pools[poolKey] = { poolKey, status: 'error', error: (error as Error).message };
+      }
+    }
+
+    const poolsPerBatch = Math.floor(MAX_PTB_COMMANDS / MARKET_SNAPSHOT_READS_PER_POOL);
+    const batches: string[][] = [];
+    for (let i = 0; i < readable.length; i += poolsPerBatch) {
+      batches.push(readable.slice(i, i + poolsPerBatch));
     }
+    await Promise.all(batches.map(batch => this.readMarketSnapshots(batch, pools)));
+
+    return { timestamp: Date.now(), pools };
+  }
+
+  /**
+   * Get hit, miss and coalescing counts of the query cache, and how many reads were batched
+   */
+  getCacheMetrics(): QueryCacheMetrics {
+    return this.cache.getMetrics();
   }
 
   /**
@@ -99,7 +208,11 @@ export class DeepBookQueryWrapper {
         timestamp: Date.now(),
       };
     } catch (error) {
-      throw new Error(`Failed to get account info for ${balanceManagerKey} in pool ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get account info for ${balanceManagerKey} in pool ${poolKey}`, {
+        operation: 'getAccountInfo',
+        poolKey,
+        balanceManagerKey,
+      });
     }
   }
 
@@ -128,7 +241,10 @@ export class DeepBookQueryWrapper {
         timestamp: Date.now(),
       };
     } catch (error) {
-      throw new Error(`Failed to get order ${orderId} from pool ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get order ${orderId} from pool ${poolKey}`, {
+        operation: 'getOrderNormalized',
+        poolKey,
+      });
     }
   }
 
@@ -167,7 +283,10 @@ export class DeepBookQueryWrapper {
         };
       }
     } catch (error) {
-      throw new Error(`Failed to get price conversion for ${amount} in pool ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get price conversion for ${amount} in pool ${poolKey}`, {
+        operation: 'getPriceConversion',
+        poolKey,
+      });
     }
   }
 
@@ -181,7 +300,10 @@ export class DeepBookQueryWrapper {
     try {
       return await this.client.getReferralBalances(poolKey, referralId);
     } catch (error) {
-      throw new Error(`Failed to get referral balances for ${referralId} in pool ${poolKey}: ${error}`);
+      throw toQueryError(error, `Failed to get referral balances for ${referralId} in pool ${poolKey}`, {
+        operation: 'getReferralBalances',
+        poolKey,
+      });
     }
   }
 
@@ -194,28 +316,356 @@ export class DeepBookQueryWrapper {
     try {
       return await this.client.getBalanceManagerIds(owner);
     } catch (error) {
-      throw new Error(`Failed to get balance manager IDs for owner ${owner}: ${error}`);
+      throw toQueryError(error, `Failed to get balance manager IDs for owner ${owner}`, {
+        operation: 'getBalanceManagerIds',
+      });
     }
   }
 
   /**
-   * Helper to calculate cumulative quantities for order book
-   * @param quantities Array of quantities
-   * @param index Current index
-   * @param isBid Whether calculating for bids (true) or asks (false)
-   * @returns Cumulative quantity up to current index
+   * Get a pool's trades from its OrderFilled events, newest first
+   * Fills are queried for all pools and filtered by pool ID, so one call scans at most
+   * TRADE_QUERY_MAX_EVENT_PAGES event pages and may return fewer than limit trades, or none
+   * when those pages held only other pools' fills. Keep passing nextCursor until hasNextPage is false.
+   * @param poolKey Pool key
+   * @param query Time range (Unix ms), cursor from the previous page and page size
+   * @returns Trades normalized by the pool's scalars, with the cursor for the next page
+   * @throws RegistryError when the pool or its coins are not in the registry
+   * @throws QueryError when the events cannot be read
    */
-  private calculateCumulative(
-    quantities: number[],
-    index: number,
-    isBid: boolean
-  ): number {
-    if (isBid) {
-      // For bids, cumulative from best bid (index 0) to current
-      return quantities.slice(0, index + 1).reduce((sum, qty) => sum + qty, 0);
-    } else {
-      // For asks, cumulative from best ask (index 0) to current
-      return quantities.slice(0, index + 1).reduce((sum, qty) => sum + qty, 0);
+  async getTrades(poolKey: string, query: TradeQuery = {}): Promise<TradePage> {
+    const { from = 0, to = Infinity, limit = TRADE_PAGE_SIZE } = query;
+    const { poolId, baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getTrades');
+
+    try {
+      const eventType = `${await this.getOriginalPackageId(poolId)}::order_info::OrderFilled`;
+      const trades: Trade[] = [];
+
+      const { nextCursor, hasNextPage } = await this.scanEvents(
+        eventType,
+        from,
+        query.cursor ?? null,
+        TRADE_QUERY_MAX_EVENT_PAGES,
+        event => {
+          const data = event.parsedJson as PoolEventData;
+          if (Number(event.timestampMs ?? 0) <= to && normalizeSuiAddress(data.pool_id) === poolId) {
+            trades.push(toTrade(poolKey, event, baseCoin, quoteCoin));
+          }
+          return trades.length >= limit;
+        }
+      );
+
+      return { trades, nextCursor, hasNextPage };
+    } catch (error) {
+      throw toQueryError(error, `Failed to get trades for pool ${poolKey}`, { operation: 'getTrades', poolKey });
+    }
+  }
+
+  /**
+   * Reconstruct a balance manager's order lifecycles and fills in a pool
+   * Placements, modifications and cancels come from the manager's own transactions. Fills and
+   * expirations of resting orders happen in other accounts' transactions, so OrderFilled and
+   * OrderExpired events of all pools are scanned back to the start of the range, at most
+   * maxEventPages pages per event type. When the scan stops first, the history is marked
+   * incomplete and scannedFrom tells how far back maker fills and expirations were found.
+   * @param balanceManager Balance manager object ID, or the key of a configured balance manager
+   * @param poolKey Pool key
+   * @param query Time range, Unix ms (default: the last ACCOUNT_HISTORY_LOOKBACK_MS), and the page cap
+   *   (default ACCOUNT_HISTORY_MAX_EVENT_PAGES)
+   * @returns Each order from placement to fill, cancel or expiry, every fill with its price,
+   *   maker/taker role and fee in DEEP or the input token, traded totals, and whether the scan reached from
+   * @throws RegistryError when the pool, its coins or DEEP are not in the registry
+   * @throws QueryError when the transactions or events cannot be read
+   */
+  async getAccountHistory(
+    balanceManager: string,
+    poolKey: string,
+    query: AccountHistoryQuery = {}
+  ): Promise<AccountHistory> {
+    const { to = Date.now(), maxEventPages = ACCOUNT_HISTORY_MAX_EVENT_PAGES } = query;
+    const { from = to - ACCOUNT_HISTORY_LOOKBACK_MS } = query;
+    const { poolId, baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getAccountHistory');
+    const deepCoin = this.registry?.coins.DEEP;
+    if (!deepCoin) {
+      throw new RegistryError('DEEP is not in the coin registry', 'DEEP', { operation: 'getAccountHistory', poolKey });
+    }
+    const balanceManagerId = normalizeSuiAddress(this.balanceManagers[balanceManager]?.address ?? balanceManager);
+
+    try {
+      const packageId = await this.getOriginalPackageId(poolId);
+      const events: SuiEvent[] = [];
+      let scannedFrom = from;
+
+      for (const name of ['OrderFilled', 'OrderExpired']) {
+        let oldest = Infinity;
+        const eventType = `${packageId}::order_info::${name}`;
+        const { hasNextPage } = await this.scanEvents(eventType, from, null, maxEventPages, event => {
+          oldest = Math.min(oldest, Number(event.timestampMs ?? 0));
+          if (normalizeSuiAddress((event.parsedJson as PoolEventData).pool_id) === poolId) {
+            events.push(event);
+          }
+          return false;
+        });
+        if (hasNextPage) {
+          // Pages spent on events after to leave the whole range unscanned
+          scannedFrom = Math.max(scannedFrom, Math.min(oldest, to));
+        }
+      }
+
+      let cursor: string | null | undefined = null;
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const response = await this.client.client.queryTransactionBlocks({
+          filter: { InputObject: balanceManagerId },
+          options: { showEvents: true },
+          order: 'descending',
+          cursor,
+        });
+
+        for (const transaction of response.data) {
+          if (Number(transaction.timestampMs ?? 0) < from) {
+            hasNextPage = false;
+            break;
+          }
+          events.push(...(transaction.events ?? []));
+        }
+
+        if (hasNextPage) {
+          cursor = response.nextCursor;
+          hasNextPage = response.hasNextPage;
+        }
+      }
+
+      return buildAccountHistory(parseDeepBookEvents(events, [packageId]), {
+        balanceManagerId,
+        poolKey,
+        poolId,
+        from,
+        to,
+        scannedFrom,
+        scalars: { base: baseCoin.scalar, quote: quoteCoin.scalar, deep: deepCoin.scalar },
+      });
+    } catch (error) {
+      throw toQueryError(error, `Failed to get account history for ${balanceManager} in pool ${poolKey}`, {
+        operation: 'getAccountHistory',
+        poolKey,
+      });
+    }
+  }
+
+  /**
+   * Discover all pools registered in the DeepBook V3 registry
+   * Resolves base/quote coin types and decimals from coin metadata. Pass the
+   * result to saveRegistry to cache it in config/pools.json and config/coins.json.
+   * @param options Optional registry ID, RPC client (e.g. a fixture) and known coins
+   * @returns Coin and pool maps ready to use as registry overrides
+   */
+  async discoverPools(options: PoolDiscoveryOptions = {}): Promise<PoolDiscoveryResult> {
+    const registryId = options.registryId || this.getRegistryId();
+
+    try {
+      return await discoverRegistryPools(
+        options.rpc || this.client.client,
+        registryId,
+        options.knownCoins ?? this.registry?.coins
+      );
+    } catch (error) {
+      throw toQueryError(error, `Failed to discover pools from registry ${registryId}`, { operation: 'discoverPools' });
+    }
+  }
+
+  /**
+   * Helper to look up a pool and its coins in the registry
+   */
+  private getRegistryPool(
+    poolKey: string,
+    operation: string
+  ): { poolId: string; baseCoin: RegistryCoin; quoteCoin: RegistryCoin } {
+    const pool = this.registry?.pools[poolKey];
+    if (!pool) {
+      throw new RegistryError(`Unknown pool ${poolKey}`, poolKey, { operation, poolKey });
+    }
+
+    const [baseCoin, quoteCoin] = [pool.baseCoin, pool.quoteCoin].map(coinKey => {
+      const coin = this.registry?.coins[coinKey];
+      if (!coin) {
+        throw new RegistryError(`Pool ${poolKey} uses unknown coin ${coinKey}`, coinKey, { operation, poolKey, coinKey });
+      }
+      return coin;
+    });
+
+    return { poolId: normalizeSuiAddress(pool.address), baseCoin, quoteCoin };
+  }
+
+  /**
+   * Helper to read a pool's levels, mid price and optionally its statistics in one simulation
+   */
+  private async readOrderBook(poolKey: string, depth: number, includeStats: boolean) {
+    const { baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getOrderBook');
+    const level2 = level2TicksRead(this.client, poolKey, depth, baseCoin, quoteCoin);
+    const mid = midPriceRead(this.client, poolKey, baseCoin, quoteCoin);
+
+    if (!includeStats) {
+      const [level2Data, midPrice] = await runBatchedReads(this.client.client, [level2, mid], this.cache);
+      return { level2Data, midPrice, stats: null };
+    }
+
+    const [[level2Data, midPrice, tradeParams, vaultBalances], poolParams] = await Promise.all([
+      runBatchedReads(
+        this.client.client,
+        [level2, mid, poolTradeParamsRead(this.client, poolKey), vaultBalancesRead(this.client, poolKey, baseCoin, quoteCoin)],
+        this.cache
+      ),
+      this.getPoolParams(poolKey),
+    ]);
+    const stats: PoolStats = { tradeParams, vaultBalances, ...poolParams, timestamp: Date.now() };
+    return { level2Data, midPrice, stats };
+  }
+
+  /**
+   * Helper to read snapshots of several pools in one simulation, splitting the pools on failure
+   */
+  private async readMarketSnapshots(poolKeys: string[], pools: Record<string, MarketSnapshotEntry>): Promise<void> {
+    const reads = poolKeys.flatMap(poolKey => {
+      const { baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getMarketSnapshot');
+      return [
+        level2TicksRead(this.client, poolKey, 1, baseCoin, quoteCoin),
+        poolTradeParamsRead(this.client, poolKey),
+        vaultBalancesRead(this.client, poolKey, baseCoin, quoteCoin),
+      ];
+    });
+
+    try {
+      const results = await runBatchedReads<unknown[]>(this.client.client, reads, this.cache);
+      poolKeys.forEach((poolKey, index) => {
+        const [level2Data, tradeParams, vaultBalances] = results.slice(
+          index * MARKET_SNAPSHOT_READS_PER_POOL,
+          (index + 1) * MARKET_SNAPSHOT_READS_PER_POOL
+        ) as [Level2Ticks, PoolStats['tradeParams'], PoolStats['vaultBalances']];
+        const book = {
+          bids: toBookLevels(level2Data.bid_prices.slice(0, 1), level2Data.bid_quantities.slice(0, 1)),
+          asks: toBookLevels(level2Data.ask_prices.slice(0, 1), level2Data.ask_quantities.slice(0, 1)),
+        };
+
+        pools[poolKey] = {
+          poolKey,
+          status: 'ok',
+          midPrice: bookMidPrice(book),
+          bestBid: book.bids[0] ? { price: book.bids[0].price, quantity: book.bids[0].quantity } : null,
+          bestAsk: book.asks[0] ? { price: book.asks[0].price, quantity: book.asks[0].quantity } : null,
+          spread: bookSpread(book),
+          vaultBalances,
+          tradeParams,
+        };
+      });
+    } catch (error) {
+      // Only a failed simulation can be narrowed down to pools; an RPC failure affects them all
+      if (poolKeys.length === 1 || !(error instanceof QueryError)) {
+        for (const poolKey of poolKeys) {
+          pools[poolKey] = {
+            poolKey,
+            status: 'error',
+            error: toQueryError(error, `Failed to read pool ${poolKey}`, { operation: 'getMarketSnapshot', poolKey }).message,
+          };
+        }
+        return;
+      }
+
+      const middle = Math.ceil(poolKeys.length / 2);
+      await Promise.all([
+        this.readMarketSnapshots(poolKeys.slice(0, middle), pools),
+        this.readMarketSnapshots(poolKeys.slice(middle), pools),
+      ]);
+    }
+  }
+
+  /**
+   * Helper to read tick size, lot size and whitelist status, which only governance changes, through the cache
+   */
+  private getPoolParams(poolKey: string): Promise<Pick<PoolStats, 'bookParams' | 'whitelisted'>> {
+    return this.cache.cached('poolParams', poolKey, async () => {
+      const { baseCoin, quoteCoin } = this.getRegistryPool(poolKey, 'getPoolParams');
+      const [bookParams, whitelisted] = await runBatchedReads(
+        this.client.client,
+        [poolBookParamsRead(this.client, poolKey, baseCoin, quoteCoin), whitelistedRead(this.client, poolKey)],
+        this.cache
+      );
+      return { bookParams, whitelisted };
+    });
+  }
+
+  /**
+   * Helper to walk events of one type newest first, back to a start time
+   * visit() returns true to stop after an event; the returned cursor resumes after the last visited one.
+   */
+  private async scanEvents(
+    eventType: string,
+    from: number,
+    cursor: EventId | null,
+    maxPages: number,
+    visit: (event: SuiEvent) => boolean
+  ): Promise<{ nextCursor: EventId | null; hasNextPage: boolean }> {
+    let hasNextPage = true;
+    let stopped = false;
+
+    for (let page = 0; page < maxPages && hasNextPage && !stopped; page++) {
+      const response = await this.client.client.queryEvents({
+        query: { MoveEventType: eventType },
+        cursor,
+        order: 'descending',
+      });
+
+      let consumed = 0;
+      for (const event of response.data) {
+        if (Number(event.timestampMs ?? 0) < from) {
+          hasNextPage = false;
+          break;
+        }
+
+        cursor = event.id;
+        consumed++;
+        if (visit(event)) {
+          stopped = true;
+          break;
+        }
+      }
+
+      if (hasNextPage && consumed === response.data.length) {
+        cursor = response.nextCursor ?? cursor;
+        hasNextPage = response.hasNextPage;
+      }
+    }
+
+    return { nextCursor: hasNextPage ? cursor : null, hasNextPage };
+  }
+
+  /**
+   * Helper to find the original DeepBook package ID from a pool object's type
+   */
+  private async getOriginalPackageId(poolId: string): Promise<string> {
+    if (!this.originalPackageId) {
+      const object = await this.client.client.getObject({ id: poolId, options: { showType: true } });
+      if (!object.data?.type) {
+        throw new QueryError(`Pool object ${poolId} has no type`);
+      }
+      this.originalPackageId = parseStructTag(object.data.type).address;
+    }
+    return this.originalPackageId;
+  }
+
+  /**
+   * Helper to get the DeepBook registry ID for the configured environment
+   * @returns Registry object ID
+   */
+  private getRegistryId(): string {
+    if (this.environment === 'mainnet') {
+      return mainnetPackageIds.REGISTRY_ID;
+    }
+    if (this.environment === 'testnet') {
+      return testnetPackageIds.REGISTRY_ID;
     }
+    throw new ValidationError(`No DeepBook registry known for environment ${this.environment}; pass registryId`, {
+      operation: 'discoverPools',
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,178 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient, DeepBookConfig } from '@mysten/deepbook-v3';
+import { Transaction } from '@mysten/sui/transactions';
+import type { TransactionObjectArgument } from '@mysten/sui/transactions';
+import type {
+  PoolMap,
+  RouteHop,
+  RouteHopQuote,
+  RouteQuote,
+  RoutedSwap,
+  RouterSwapParams,
+} from './types/index.js';
+import { QueryError, ValidationError } from './types/index.js';
+import { settleSwapOutputs } from './utils/coins.js';
+import { DEFAULT_MAX_HOPS, DEFAULT_PAY_WITH_DEEP, SWAP_DEEP_BUFFER } from './utils/config.js';
+import { errorMessage, toQueryError, toTransactionError } from './utils/errors.js';
+import { findSwapPaths } from './utils/routing.js';
+
+/**
+ * Wrapper class for swaps routed across DeepBook pools
+ * Routes are found on the graph of configured pools and priced with getQuantityOut.
+ */
+export class DeepBookRouterWrapper {
+  constructor(
+    private client: DeepBookClient,
+    private pools: PoolMap,
+    private config?: DeepBookConfig
+  ) {}
+
+  /**
+   * Quote every path between two coins, best output first
+   * Paths whose quote fails or fills nothing are left out.
+   * @param fromCoin Input coin key
+   * @param toCoin Output coin key
+   * @param amount Input amount
+   * @param options Maximum hops and whether fees are paid in DEEP
+   * @returns Quoted routes sorted by output, highest first
+   * @throws ValidationError when no path connects the coins
+   * @throws QueryError when every path failed to quote
+   */
+  async quoteRoutes(
+    fromCoin: string,
+    toCoin: string,
+    amount: number,
+    options: { maxHops?: number; payWithDeep?: boolean } = {}
+  ): Promise<RouteQuote[]> {
+    const { maxHops = DEFAULT_MAX_HOPS, payWithDeep = DEFAULT_PAY_WITH_DEEP } = options;
+    const paths = findSwapPaths(this.pools, fromCoin, toCoin, maxHops);
+    if (paths.length === 0) {
+      throw new ValidationError(`No pool path from ${fromCoin} to ${toCoin} within ${maxHops} hops`, {
+        operation: 'quoteRoutes',
+        coinKey: fromCoin,
+      });
+    }
+
+    const results = await Promise.allSettled(paths.map(path => this.quotePath(path, amount, payWithDeep)));
+    const routes = results
+      .filter((result): result is PromiseFulfilledResult<RouteQuote> => result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(route => route.amountOut > 0);
+
+    if (routes.length === 0) {
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      throw new QueryError(
+        `No route from ${fromCoin} to ${toCoin} could be filled${failure ? `: ${errorMessage(failure.reason)}` : ''}`,
+        { operation: 'quoteRoutes', coinKey: fromCoin, cause: failure?.reason }
+      );
+    }
+
+    return routes.sort((a, b) => b.amountOut - a.amountOut);
+  }
+
+  /**
+   * Swap along the best route in a single transaction
+   * Each hop's output coin feeds the next hop. Intermediate hops accept any output;
+   * minOut (the quoted output less slippageBps) is enforced on the last hop, which
+   * protects the whole route. The first hop takes inputCoin or draws from the sender's
+   * wallet coins. The output, unfilled inputs and unused DEEP go to the recipient
+   * (default: the sender) or into the depositInto balance manager.
+   * @param params Coins, input amount, slippage, maximum hops, fee payment and settlement
+   * @returns Transaction, the route it follows and the end-to-end minimum output
+   * @throws ValidationError when no path connects the coins or the slippage is out of range
+   */
+  async swap(params: RouterSwapParams): Promise<RoutedSwap> {
+    const { fromCoin, toCoin, amount, slippageBps } = params;
+    if (!Number.isFinite(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+      throw new ValidationError(`slippageBps ${slippageBps} must be between 0 and 10000`, {
+        operation: 'routerSwap',
+        coinKey: fromCoin,
+      });
+    }
+
+    const [route] = await this.quoteRoutes(fromCoin, toCoin, amount, params);
+    const minOut = route.amountOut * (1 - slippageBps / 10_000);
+    const tx = new Transaction();
+
+    try {
+      const outputs: Array<{ coinKey: string; coin: TransactionObjectArgument }> = [];
+      let input: TransactionObjectArgument | undefined = params.inputCoin;
+
+      route.hops.forEach((hop, index) => {
+        const swapParams = {
+          poolKey: hop.poolKey,
+          amount: hop.amountIn,
+          deepAmount: hop.deepAmount,
+          minOut: index === route.hops.length - 1 ? minOut : 0,
+        };
+
+        if (hop.side === 'sell') {
+          const [baseCoin, quoteCoin, deepCoin] = tx.add(
+            this.client.deepBook.swapExactBaseForQuote({ ...swapParams, baseCoin: input })
+          );
+          outputs.push({ coinKey: hop.fromCoin, coin: baseCoin }, { coinKey: 'DEEP', coin: deepCoin });
+          input = quoteCoin;
+        } else {
+          const [baseCoin, quoteCoin, deepCoin] = tx.add(
+            this.client.deepBook.swapExactQuoteForBase({ ...swapParams, quoteCoin: input })
+          );
+          outputs.push({ coinKey: hop.fromCoin, coin: quoteCoin }, { coinKey: 'DEEP', coin: deepCoin });
+          input = baseCoin;
+        }
+      });
+
+      outputs.push({ coinKey: toCoin, coin: input as TransactionObjectArgument });
+      settleSwapOutputs(tx, outputs, params, this.config);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to route ${fromCoin} to ${toCoin}`, {
+        operation: 'routerSwap',
+        coinKey: fromCoin,
+      });
+    }
+
+    return { tx, route, minOut };
+  }
+
+  /**
+   * Helper to quote a path hop by hop, feeding each hop's output into the next
+   */
+  private async quotePath(path: RouteHop[], amount: number, payWithDeep: boolean): Promise<RouteQuote> {
+    const hops: RouteHopQuote[] = [];
+    let amountIn = amount;
+
+    for (const hop of path) {
+      const [baseIn, quoteIn] = hop.side === 'sell' ? [amountIn, 0] : [0, amountIn];
+
+      try {
+        const quantityOut = payWithDeep
+          ? await this.client.getQuantityOut(hop.poolKey, baseIn, quoteIn)
+          : await this.client.getQuantityOutInputFee(hop.poolKey, baseIn, quoteIn);
+        const amountOut = hop.side === 'sell' ? quantityOut.quoteOut : quantityOut.baseOut;
+
+        hops.push({
+          ...hop,
+          amountIn,
+          amountOut,
+          unfilledIn: hop.side === 'sell' ? quantityOut.baseOut : quantityOut.quoteOut,
+          deepAmount: payWithDeep ? quantityOut.deepRequired * (1 + SWAP_DEEP_BUFFER) : 0,
+        });
+        amountIn = amountOut;
+      } catch (error) {
+        throw toQueryError(error, `Failed to quote ${hop.side} in pool ${hop.poolKey}`, {
+          operation: 'quoteRoutes',
+          poolKey: hop.poolKey,
+        });
+      }
+    }
+
+    return {
+      fromCoin: path[0].fromCoin,
+      toCoin: path[path.length - 1].toCoin,
+      amountIn: amount,
+      amountOut: amountIn,
+      hops,
+    };
+  }
+}
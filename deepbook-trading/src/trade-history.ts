@@ -0,0 +1,100 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { EventId } from '@mysten/sui/client';
+import type { DeepBookQueryWrapper } from './query-wrapper.js';
+import type { Candle, CandleInterval, Trade, TradeStore, TradeSummary, TradeSyncResult } from './types/index.js';
+import { buildCandles, summarizeTrades } from './utils/candles.js';
+import { TRADE_SUMMARY_WINDOW_MS, TRADE_SYNC_MAX_PAGES } from './utils/config.js';
+import { toQueryError } from './utils/errors.js';
+import { MemoryTradeStore } from './utils/trade-stores.js';
+
+/**
+ * Trade history kept in a store and aggregated into candles and volume summaries
+ * sync() pulls new fills from OrderFilled events; candle and summary queries read the store only.
+ */
+export class TradeHistory {
+  private backfills = new Map<string, { from: number; cursor: EventId | null }>(); // Syncs cut short, by pool
+
+  constructor(
+    private queries: DeepBookQueryWrapper,
+    private store: TradeStore = new MemoryTradeStore()
+  ) {}
+
+  /**
+   * Fetch the pool's fills since the latest stored trade into the store
+   * Fills arrive newest first and each page is stored as it arrives. A sync that fails or
+   * reaches maxPages is remembered, and the next call continues it down to its start before
+   * looking for newer fills. That position lives in memory only: after a restart, fills between
+   * the start of a cut-short sync and the oldest one it stored are not fetched.
+   * @param poolKey Pool key
+   * @param options Start of the first sync, when the store has no trades for the pool (default: 24 hours ago),
+   *   and getTrades pages fetched per call (default TRADE_SYNC_MAX_PAGES)
+   * @returns Trades fetched, including ones already stored, and whether the sync reached its start
+   * @throws QueryError when the events cannot be read or the store fails
+   */
+  async sync(poolKey: string, options: { from?: number; maxPages?: number } = {}): Promise<TradeSyncResult> {
+    const { maxPages = TRADE_SYNC_MAX_PAGES } = options;
+
+    try {
+      const backfill = this.backfills.get(poolKey) ?? {
+        from: (await this.store.latestTimestamp(poolKey)) ?? options.from ?? Date.now() - TRADE_SUMMARY_WINDOW_MS,
+        cursor: null,
+      };
+      this.backfills.set(poolKey, backfill);
+      let fetched = 0;
+
+      for (let pages = 0; pages < maxPages; pages++) {
+        const page = await this.queries.getTrades(poolKey, { from: backfill.from, cursor: backfill.cursor });
+        await this.store.append(page.trades);
+        fetched += page.trades.length;
+        backfill.cursor = page.nextCursor;
+
+        if (!page.hasNextPage) {
+          this.backfills.delete(poolKey);
+          return { fetched, complete: true };
+        }
+      }
+
+      return { fetched, complete: false };
+    } catch (error) {
+      throw toQueryError(error, `Failed to sync trades for pool ${poolKey}`, { operation: 'syncTrades', poolKey });
+    }
+  }
+
+  /**
+   * Get stored trades in a time range
+   * @param poolKey Pool key
+   * @param from Range start, Unix ms (inclusive)
+   * @param to Range end, Unix ms (inclusive; default now)
+   * @returns Trades oldest first
+   */
+  async getTrades(poolKey: string, from: number, to: number = Date.now()): Promise<Trade[]> {
+    return this.store.query(poolKey, from, to);
+  }
+
+  /**
+   * Build OHLCV candles from stored trades
+   * @param poolKey Pool key
+   * @param interval Candle interval, from 1m to 1d
+   * @param from Range start, Unix ms (inclusive)
+   * @param to Range end, Unix ms (inclusive; default now)
+   * @returns Candles oldest first; intervals without trades are left out
+   * @throws ValidationError when the interval is outside 1 minute to 1 day
+   */
+  async getCandles(poolKey: string, interval: CandleInterval, from: number, to: number = Date.now()): Promise<Candle[]> {
+    return buildCandles(await this.store.query(poolKey, from, to), interval);
+  }
+
+  /**
+   * Summarize stored trades over a trailing window, 24 hours by default
+   * @param poolKey Pool key
+   * @param options Window length and end (default now)
+   * @returns Trade count, base and quote volume, VWAP and open/high/low/close
+   */
+  async getSummary(poolKey: string, options: { windowMs?: number; to?: number } = {}): Promise<TradeSummary> {
+    const { windowMs = TRADE_SUMMARY_WINDOW_MS, to = Date.now() } = options;
+    const from = to - windowMs;
+    return summarizeTrades(await this.store.query(poolKey, from, to), from, to);
+  }
+}
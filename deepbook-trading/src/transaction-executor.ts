@@ -0,0 +1,310 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type {
+  BalanceChange,
+  SuiClient,
+  SuiObjectChange,
+  SuiTransactionBlockResponse,
+  TransactionEffects,
+} from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type {
+  BalanceDelta,
+  ExecuteOptions,
+  ExecutionResult,
+  GasSummary,
+  ObjectChangeSummary,
+  RegistryCoinMap,
+  SimulateOptions,
+  SimulationPreview,
+  TransactionSigner,
+} from './types/index.js';
+import { TransactionError } from './types/index.js';
+import { GAS_BUDGET } from './utils/config.js';
+import { filterEvents, parseDeepBookEvents } from './utils/events.js';
+import { decodeMoveAbort, parseMoveAbort } from './utils/move-abort.js';
+
+const DEFAULT_GAS_BUFFER_PERCENT = 20;
+
+/**
+ * Signs, executes and confirms transactions built by the wrappers
+ */
+export class DeepBookTransactionExecutor {
+  constructor(
+    private suiClient: SuiClient,
+    private defaultSigner?: TransactionSigner,
+    private coins: RegistryCoinMap = {},
+    private defaultSender?: string
+  ) {}
+
+  /**
+   * Sign and execute a transaction
+   * @param tx Transaction built by one of the wrappers
+   * @param options Signer, gas budget and finality options
+   * @returns Typed execution result
+   * @throws TransactionError when signing or execution fails, with txDigest when the transaction reached the chain
+   */
+  async execute(tx: Transaction, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const signer = options.signer || this.defaultSigner;
+    if (!signer) {
+      throw new TransactionError('No signer configured: pass options.signer or set signer in the client config', undefined, {
+        operation: 'execute',
+      });
+    }
+
+    let response: SuiTransactionBlockResponse;
+    try {
+      tx.setSenderIfNotSet(signer.getAddress());
+      tx.setGasBudgetIfNotSet(await this.resolveGasBudget(tx, options));
+
+      const bytes = await tx.build({ client: this.suiClient });
+      const signature = await signer.signTransaction(bytes);
+
+      response = await this.suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showEffects: true,
+          showEvents: true,
+          showBalanceChanges: true,
+        },
+      });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        throw error.addDetails({ operation: 'execute' });
+      }
+      // Building runs a dry run, so aborts can surface before submission
+      throw decodeMoveAbort(error, undefined, { operation: 'execute' }) ??
+        new TransactionError(`Failed to execute transaction: ${error}`, undefined, { operation: 'execute', cause: error });
+    }
+
+    if (options.waitForFinality !== false) {
+      try {
+        response = await this.suiClient.waitForTransaction({
+          digest: response.digest,
+          options: {
+            showEffects: true,
+            showEvents: true,
+            showBalanceChanges: true,
+          },
+        });
+      } catch (error) {
+        throw new TransactionError(`Transaction ${response.digest} was not confirmed: ${error}`, response.digest, {
+          operation: 'execute',
+          cause: error,
+        });
+      }
+    }
+
+    const result = this.toExecutionResult(response);
+    if (result.status === 'failure') {
+      throw decodeMoveAbort(result.error, result.digest, { operation: 'execute' }) ??
+        new TransactionError(`Transaction ${result.digest} failed: ${result.error}`, result.digest, { operation: 'execute' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Preview a transaction without executing it
+   * Failed simulations are returned as a preview with success false rather than thrown.
+   * @param tx Transaction built by one of the wrappers (left unmodified)
+   * @param options Simulation mode and sender
+   * @returns Gas cost, balance deltas (null in devInspect mode), object changes, order events and decoded abort
+   * @throws TransactionError when the transaction cannot be built or the RPC call fails
+   */
+  async simulate(tx: Transaction, options: SimulateOptions = {}): Promise<SimulationPreview> {
+    const sender = options.sender || this.defaultSigner?.getAddress() || this.defaultSender;
+    if (!sender) {
+      throw new TransactionError('No sender configured: pass options.sender or set address in the client config', undefined, {
+        operation: 'simulate',
+      });
+    }
+
+    // Simulate a copy so the original transaction's sender and gas data stay unset
+    const copy = Transaction.from(tx);
+    copy.setSenderIfNotSet(sender);
+
+    try {
+      if (options.mode === 'devInspect') {
+        const result = await this.suiClient.devInspectTransactionBlock({ sender, transactionBlock: copy });
+        return this.toSimulationPreview(
+          result.effects,
+          result.events,
+          null, // devInspect reports neither balance changes nor coin amounts in its effects
+          [
+            ...(result.effects.created || []).map(ref => ({ objectId: ref.reference.objectId })),
+            ...(result.effects.unwrapped || []).map(ref => ({ objectId: ref.reference.objectId })),
+          ],
+          (result.effects.deleted || []).map(ref => ({ objectId: ref.objectId })),
+          result.error ?? undefined
+        );
+      }
+
+      copy.setGasBudgetIfNotSet(GAS_BUDGET);
+      const bytes = await copy.build({ client: this.suiClient });
+      const result = await this.suiClient.dryRunTransactionBlock({ transactionBlock: bytes });
+      return this.toSimulationPreview(
+        result.effects,
+        result.events,
+        result.balanceChanges.filter(change => ownerAddress(change.owner) === sender),
+        collectObjectChanges(result.objectChanges, 'created'),
+        collectObjectChanges(result.objectChanges, 'deleted')
+      );
+    } catch (error) {
+      throw new TransactionError(`Failed to simulate transaction: ${error}`, undefined, { operation: 'simulate', cause: error });
+    }
+  }
+
+  /**
+   * Estimate the gas budget for a transaction with a dry run
+   * @param tx Transaction with sender set
+   * @param bufferPercent Headroom added on top of the dry-run cost
+   * @returns Gas budget in MIST
+   */
+  async estimateGasBudget(tx: Transaction, bufferPercent: number = DEFAULT_GAS_BUFFER_PERCENT): Promise<number> {
+    // Dry-run a copy so the original transaction's gas data stays unset
+    const bytes = await Transaction.from(tx).build({ client: this.suiClient });
+    const dryRun = await this.suiClient.dryRunTransactionBlock({ transactionBlock: bytes });
+
+    if (dryRun.effects.status.status === 'failure') {
+      throw decodeMoveAbort(dryRun.effects.status.error, undefined, { operation: 'estimateGasBudget' }) ??
+        new TransactionError(`Gas estimation dry run failed: ${dryRun.effects.status.error}`, undefined, {
+          operation: 'estimateGasBudget',
+        });
+    }
+
+    const gas = summarizeGas(dryRun.effects);
+    // Budget must cover computation and storage before the rebate is applied
+    const required = gas.computationCost + gas.storageCost;
+    return Math.ceil(Number(required) * (1 + bufferPercent / 100));
+  }
+
+  /**
+   * Helper to pick the gas budget from options
+   */
+  private async resolveGasBudget(tx: Transaction, options: ExecuteOptions): Promise<number> {
+    if (options.gasBudget === 'estimate') {
+      return this.estimateGasBudget(tx, options.gasBufferPercent);
+    }
+    return options.gasBudget ?? GAS_BUDGET;
+  }
+
+  /**
+   * Helper to convert dry-run or devInspect output into a SimulationPreview
+   */
+  private toSimulationPreview(
+    effects: TransactionEffects,
+    rawEvents: SuiTransactionBlockResponse['events'],
+    balanceChanges: BalanceChange[] | null,
+    createdObjects: ObjectChangeSummary[],
+    deletedObjects: ObjectChangeSummary[],
+    inspectError?: string
+  ): SimulationPreview {
+    const error = effects.status.error ?? inspectError;
+    const events = parseDeepBookEvents(rawEvents || []);
+    const abort = parseMoveAbort(error);
+
+    return {
+      success: effects.status.status === 'success' && !inspectError,
+      error,
+      abort: abort ?? undefined,
+      gas: summarizeGas(effects),
+      balanceDeltas: balanceChanges && balanceChanges.map(change => this.toBalanceDelta(change)),
+      createdObjects,
+      deletedObjects,
+      events,
+      ordersPlaced: filterEvents(events, 'OrderPlaced'),
+      ordersFilled: filterEvents(events, 'OrderFilled'),
+    };
+  }
+
+  /**
+   * Helper to express a balance change in registry coin units
+   */
+  private toBalanceDelta(change: BalanceChange): BalanceDelta {
+    const coinType = normalizeStructTag(change.coinType);
+    const match = Object.entries(this.coins).find(([, coin]) => normalizeStructTag(coin.type) === coinType);
+    const rawAmount = BigInt(change.amount);
+
+    return {
+      coinKey: match ? match[0] : coinType,
+      coinType,
+      rawAmount,
+      amount: match ? Number(rawAmount) / match[1].scalar : Number(rawAmount),
+    };
+  }
+
+  /**
+   * Helper to convert an RPC response into an ExecutionResult
+   */
+  private toExecutionResult(response: SuiTransactionBlockResponse): ExecutionResult {
+    const effects = response.effects;
+    if (!effects) {
+      throw new TransactionError(`Transaction ${response.digest} returned no effects`, response.digest);
+    }
+
+    return {
+      digest: response.digest,
+      status: effects.status.status,
+      error: effects.status.error,
+      gas: summarizeGas(effects),
+      balanceChanges: (response.balanceChanges || []).map(change => ({
+        owner: ownerAddress(change.owner),
+        coinType: change.coinType,
+        amount: BigInt(change.amount),
+      })),
+      events: parseDeepBookEvents(response.events || []),
+      checkpoint: response.checkpoint ?? undefined,
+    };
+  }
+}
+
+/**
+ * Summarize the gas used by a transaction
+ * @param effects Transaction effects
+ * @returns Gas summary with the net total cost
+ */
+export function summarizeGas(effects: TransactionEffects): GasSummary {
+  const { computationCost, storageCost, storageRebate, nonRefundableStorageFee } = effects.gasUsed;
+  const gas = {
+    computationCost: BigInt(computationCost),
+    storageCost: BigInt(storageCost),
+    storageRebate: BigInt(storageRebate),
+    nonRefundableStorageFee: BigInt(nonRefundableStorageFee),
+  };
+
+  return {
+    ...gas,
+    totalCost: gas.computationCost + gas.storageCost - gas.storageRebate,
+  };
+}
+
+/**
+ * Pick created or deleted objects out of a dry run's object changes
+ */
+function collectObjectChanges(
+  changes: SuiObjectChange[],
+  kind: 'created' | 'deleted'
+): ObjectChangeSummary[] {
+  const summaries: ObjectChangeSummary[] = [];
+  for (const change of changes) {
+    if (change.type === kind) {
+      summaries.push({ objectId: change.objectId, objectType: change.objectType });
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Extract a readable owner from an ObjectOwner
+ */
+export function ownerAddress(owner: unknown): string {
+  if (typeof owner === 'string') {
+    return owner;
+  }
+  const value = owner as { AddressOwner?: string; ObjectOwner?: string; Shared?: unknown } | null;
+  return value?.AddressOwner ?? value?.ObjectOwner ?? (value?.Shared ? 'shared' : 'immutable');
+}
@@ -1,57 +1,223 @@
 // Copyright (c) Mysten Labs, Inc.
 // SPDX-License-Identifier: Apache-2.0
 
-import type { DeepBookClient } from '@mysten/deepbook-v3';
+import type { DeepBookClient, DeepBookConfig, PlaceLimitOrderParams } from '@mysten/deepbook-v3';
 import { Transaction } from '@mysten/sui/transactions';
-import type { OrderParams, MarketOrderParams, SwapParams } from './types/index.js';
+import type { TransactionObjectArgument } from '@mysten/sui/transactions';
+import type {
+  OrderParams,
+  MarketOrderParams,
+  SwapParams,
+  OrderValidationResult,
+  PoolBookParams,
+  BatchOptions,
+  BatchOrderResult,
+  BatchTransaction,
+  CancelAllResult,
+  CancelReplaceParams,
+  PoolSettlement,
+  PoolTokenAmounts,
+  SettlementSweep,
+  BookLevel,
+  FeeEstimate,
+  FeeEstimateParams,
+  FeeMarketData,
+  ProtectedSwap,
+  ProtectedSwapParams,
+  SwapQuote,
+  Side,
+  PoolMap,
+  SwapSettlementOptions,
+} from './types/index.js';
+import { OrderType, OrderValidationError, QuoteDriftError, RegistryError, ValidationError } from './types/index.js';
+import { ClientOrderIdAllocator, toClientOrderId } from './utils/client-order-ids.js';
+import { settleSwapOutputs } from './utils/coins.js';
+import {
+  DEFAULT_ORDER_DURATION_MS,
+  DEFAULT_ORDER_TYPE,
+  DEFAULT_PAY_WITH_DEEP,
+  DEFAULT_SELF_MATCHING_OPTION,
+  FEE_ESTIMATE_BOOK_DEPTH,
+  MAX_CANCEL_BATCH_SIZE,
+  MAX_PTB_COMMANDS,
+  SWAP_DEEP_BUFFER,
+} from './utils/config.js';
+import { toQueryError, toTransactionError } from './utils/errors.js';
+import { resolveExpiration } from './utils/expiration.js';
+import { crossingQuantity, estimateFees } from './utils/fees.js';
+import { validateOrder } from './utils/order-validation.js';
+import { QueryCache } from './utils/query-cache.js';
+
+// One unit of a batch: an SDK transaction builder and the orders it places or cancels
+interface BatchStep {
+  add: (tx: Transaction) => void;
+  poolKey: string;
+  clientOrderId?: string;
+  cancelledOrderIds?: string[] | 'all';
+}
 
 /**
  * Wrapper class for DeepBook trading operations
  * Simplifies common trading tasks
  */
 export class DeepBookTradingWrapper {
-  constructor(private client: DeepBookClient) {}
+  constructor(
+    private client: DeepBookClient,
+    private orderIds: ClientOrderIdAllocator = new ClientOrderIdAllocator(),
+    private pools: PoolMap = {},
+    private config?: DeepBookConfig,
+    private cache: QueryCache = new QueryCache()
+  ) {}
+
+  /**
+   * Check an order against the pool's tick size, lot size and minimum size
+   * @param params Limit order (with price) or market order parameters
+   * @returns Adjusted price/quantity (when autoRound is set), warnings and errors
+   */
+  async validateOrder(params: OrderParams | MarketOrderParams): Promise<OrderValidationResult> {
+    const bookParams = await this.getBookParams(params.poolKey);
+    return validateOrder(
+      bookParams,
+      { price: 'price' in params ? params.price : undefined, quantity: params.quantity, isBid: params.isBid },
+      { autoRound: params.autoRound }
+    );
+  }
+
+  /**
+   * Get a pool's tick size, lot size and minimum size
+   * These only change through governance, so they are kept in the query cache for its TTL.
+   * @param poolKey Pool key
+   * @returns Book parameters in price and base units
+   */
+  async getBookParams(poolKey: string): Promise<PoolBookParams> {
+    try {
+      return await this.cache.cached('bookParams', poolKey, () => this.client.poolBookParams(poolKey));
+    } catch (error) {
+      throw toQueryError(error, `Failed to get book params for pool ${poolKey}`, {
+        operation: 'getBookParams',
+        poolKey,
+      });
+    }
+  }
 
   /**
    * Place a limit order on the order book
+   * orderType selects no-restriction (default), post-only, immediate-or-cancel or
+   * fill-or-kill; selfMatchingOption and payWithDeep default to the on-chain defaults.
+   * Price and quantity are validated against the pool's book parameters first;
+   * with autoRound they are rounded onto the grid instead of rejected.
    * @param params Order parameters including price, quantity, and direction
    * @returns Transaction object ready for execution
+   * @throws OrderValidationError when the order is off the tick/lot grid or below the minimum size
    */
   async placeLimitOrder(params: OrderParams): Promise<Transaction> {
+    const validation = await this.checkOrder(params, 'placeLimitOrder');
     const tx = new Transaction();
 
-    // Generate client order ID if not provided
-    const clientOrderId = params.clientOrderId || this.generateOrderId();
-    const expiration = params.expiration || this.getDefaultExpiration();
-
-    tx.add(this.client.deepBook.placeLimitOrder({
-      poolKey: params.poolKey,
-      balanceManagerKey: params.balanceManagerKey,
-      clientOrderId,
-      price: params.price,
-      quantity: params.quantity,
-      isBid: params.isBid,
-      orderType: params.orderType || 'limit',
-      expiration,
-    }));
+    try {
+      tx.add(this.client.deepBook.placeLimitOrder(await this.prepareLimitOrder(params, validation)));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to place limit order in pool ${params.poolKey}`, {
+        operation: 'placeLimitOrder',
+        poolKey: params.poolKey,
+        balanceManagerKey: params.balanceManagerKey,
+      });
+    }
 
     return tx;
   }
 
+  /**
+   * Place several limit orders, packed into as few transactions as the PTB command limit allows
+   * Every order is validated before any transaction is built. Orders within one
+   * transaction land atomically; when the batch is split, each transaction stands alone.
+   * @param orders Limit order parameters, in placement order
+   * @param options PTB command limit per transaction
+   * @returns Transactions to execute in order, with the client order IDs each one places
+   * @throws OrderValidationError when any order is off the tick/lot grid or below the minimum size
+   */
+  async batchPlaceLimitOrders(orders: OrderParams[], options: BatchOptions = {}): Promise<BatchOrderResult> {
+    const steps = await this.prepareBatchPlacements(orders, 'batchPlaceLimitOrders');
+
+    try {
+      return this.composeBatch(steps, options);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to batch ${orders.length} limit orders`, {
+        operation: 'batchPlaceLimitOrders',
+      });
+    }
+  }
+
+  /**
+   * Cancel orders and place replacements in one transaction
+   * Cancels run before placements so the freed balance funds the new orders. If the
+   * batch exceeds the PTB command limit it is split, cancels first, and the result is
+   * marked non-atomic.
+   * @param params Pool, balance manager, order IDs to cancel (or 'all') and orders to place
+   * @param options PTB command limit per transaction
+   * @returns Transactions to execute in order, with the orders each one cancels and places
+   * @throws OrderValidationError when any replacement order fails validation
+   */
+  async cancelReplace(params: CancelReplaceParams, options: BatchOptions = {}): Promise<BatchOrderResult> {
+    const { poolKey, balanceManagerKey, cancel, place } = params;
+    const placements = await this.prepareBatchPlacements(place, 'cancelReplace');
+
+    try {
+      const cancels: BatchStep[] = [];
+      if (cancel === 'all') {
+        cancels.push({
+          add: this.client.deepBook.cancelAllOrders(poolKey, balanceManagerKey),
+          poolKey,
+          cancelledOrderIds: 'all',
+        });
+      } else {
+        for (let i = 0; i < cancel.length; i += MAX_CANCEL_BATCH_SIZE) {
+          const orderIds = cancel.slice(i, i + MAX_CANCEL_BATCH_SIZE);
+          cancels.push({
+            add: this.client.deepBook.cancelOrders(poolKey, balanceManagerKey, orderIds),
+            poolKey,
+            cancelledOrderIds: orderIds,
+          });
+        }
+      }
+
+      return this.composeBatch([...cancels, ...placements], options);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to cancel and replace orders in pool ${poolKey}`, {
+        operation: 'cancelReplace',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+  }
+
   /**
    * Place a market order
    * @param params Market order parameters
    * @returns Transaction object ready for execution
+   * @throws OrderValidationError when the quantity is off the lot grid or below the minimum size
    */
   async placeMarketOrder(params: MarketOrderParams): Promise<Transaction> {
+    const { quantity } = await this.checkOrder(params, 'placeMarketOrder');
     const tx = new Transaction();
 
-    tx.add(this.client.deepBook.placeMarketOrder({
-      poolKey: params.poolKey,
-      balanceManagerKey: params.balanceManagerKey,
-      quantity: params.quantity,
-      isBid: params.isBid,
-    }));
+    try {
+      tx.add(this.client.deepBook.placeMarketOrder({
+        poolKey: params.poolKey,
+        balanceManagerKey: params.balanceManagerKey,
+        clientOrderId: await this.resolveClientOrderId(params),
+        quantity,
+        isBid: params.isBid,
+        selfMatchingOption: params.selfMatchingOption ?? DEFAULT_SELF_MATCHING_OPTION,
+        payWithDeep: params.payWithDeep ?? DEFAULT_PAY_WITH_DEEP,
+      }));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to place market order in pool ${params.poolKey}`, {
+        operation: 'placeMarketOrder',
+        poolKey: params.poolKey,
+        balanceManagerKey: params.balanceManagerKey,
+      });
+    }
 
     return tx;
   }
@@ -70,17 +236,25 @@ export class DeepBookTradingWrapper {
   ): Promise<Transaction> {
     const tx = new Transaction();
 
-    tx.add(this.client.deepBook.cancelOrder({
-      poolKey,
-      balanceManagerKey,
-      orderId,
-    }));
+    try {
+      tx.add(this.client.deepBook.cancelOrder(poolKey, balanceManagerKey, orderId));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to cancel order ${orderId} in pool ${poolKey}`, {
+        operation: 'cancelOrder',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
 
     return tx;
   }
 
   /**
    * Swap exact base amount for quote
+   * Unless deepAmount is given, the DEEP fee is estimated (with a buffer) when paying
+   * with DEEP; with payWithDeep false the fee is taken from the input token. Input comes
+   * from inputCoin or the sender's wallet coins; the output, unfilled input and unused
+   * DEEP go to the recipient (default: the sender) or into the depositInto balance manager.
    * @param params Swap parameters
    * @returns Transaction object ready for execution
    */
@@ -88,18 +262,26 @@ export class DeepBookTradingWrapper {
     const tx = new Transaction();
     const minOut = params.minOut || 0;
 
-    tx.add(this.client.deepBook.swapExactBaseForQuote({
-      poolKey: params.poolKey,
-      amount: params.amount,
-      deepAmount: 0, // Can be configured if needed
-      minOut,
-    }));
+    try {
+      const deepAmount = params.deepAmount
+        ?? await this.estimateSwapDeep(params.poolKey, params.amount, true, params.payWithDeep);
+      this.addSwap(tx, params.poolKey, 'sell', { amount: params.amount, deepAmount, minOut }, params);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to swap base for quote in pool ${params.poolKey}`, {
+        operation: 'swapExactBaseForQuote',
+        poolKey: params.poolKey,
+      });
+    }
 
     return tx;
   }
 
   /**
    * Swap exact quote amount for base
+   * Unless deepAmount is given, the DEEP fee is estimated (with a buffer) when paying
+   * with DEEP; with payWithDeep false the fee is taken from the input token. Input comes
+   * from inputCoin or the sender's wallet coins; the output, unfilled input and unused
+   * DEEP go to the recipient (default: the sender) or into the depositInto balance manager.
    * @param params Swap parameters
    * @returns Transaction object ready for execution
    */
@@ -107,16 +289,289 @@ export class DeepBookTradingWrapper {
     const tx = new Transaction();
     const minOut = params.minOut || 0;
 
-    tx.add(this.client.deepBook.swapExactQuoteForBase({
-      poolKey: params.poolKey,
-      amount: params.amount,
-      deepAmount: 0, // Can be configured if needed
-      minOut,
-    }));
+    try {
+      const deepAmount = params.deepAmount
+        ?? await this.estimateSwapDeep(params.poolKey, params.amount, false, params.payWithDeep);
+      this.addSwap(tx, params.poolKey, 'buy', { amount: params.amount, deepAmount, minOut }, params);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to swap quote for base in pool ${params.poolKey}`, {
+        operation: 'swapExactQuoteForBase',
+        poolKey: params.poolKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Swap with a minimum output derived from a fresh quote
+   * Quotes the swap with getQuantityOut, sets minOut to the quoted output less
+   * slippageBps and attaches the quoted DEEP fee. With maxDriftBps the swap is
+   * re-quoted after the transaction is built and rejected if the output moved further.
+   * @param params Pool, input amount, side (sell spends base, buy spends quote), slippage and drift tolerance
+   * @returns Transaction and the quote it was built from
+   * @throws ValidationError for an out-of-range slippage or a book that cannot fill any of the amount
+   * @throws QuoteDriftError when the re-quoted output differs by more than maxDriftBps
+   */
+  async swap(params: ProtectedSwapParams): Promise<ProtectedSwap> {
+    const { poolKey, amount, side, slippageBps, maxDriftBps } = params;
+    const payWithDeep = params.payWithDeep ?? DEFAULT_PAY_WITH_DEEP;
+    for (const [name, bps] of Object.entries({ slippageBps, maxDriftBps })) {
+      if (bps !== undefined && (!Number.isFinite(bps) || bps < 0 || bps > 10_000)) {
+        throw new ValidationError(`${name} ${bps} must be between 0 and 10000`, { operation: 'swap', poolKey });
+      }
+    }
+
+    const quote = await this.quoteSwap(poolKey, amount, side, slippageBps, payWithDeep);
+    if (quote.expectedOut <= 0) {
+      throw new ValidationError(`Pool ${poolKey} cannot fill any of the ${side} amount ${amount}`, {
+        operation: 'swap',
+        poolKey,
+      });
+    }
+
+    const tx = new Transaction();
+
+    try {
+      this.addSwap(tx, poolKey, side, { amount, deepAmount: quote.deepAmount, minOut: quote.minOut }, params);
+    } catch (error) {
+      throw toTransactionError(error, `Failed to swap in pool ${poolKey}`, { operation: 'swap', poolKey });
+    }
+
+    if (maxDriftBps !== undefined) {
+      const requote = await this.quoteSwap(poolKey, amount, side, slippageBps, payWithDeep);
+      quote.driftBps = Math.abs(requote.expectedOut - quote.expectedOut) / quote.expectedOut * 10_000;
+      if (quote.driftBps > maxDriftBps) {
+        throw new QuoteDriftError(
+          `Quote for pool ${poolKey} moved ${quote.driftBps.toFixed(1)} bps (limit ${maxDriftBps})`,
+          quote,
+          requote.expectedOut,
+          { operation: 'swap', poolKey }
+        );
+      }
+    }
+
+    return { tx, quote };
+  }
+
+  /**
+   * Reduce the quantity of an open order
+   * DeepBook only allows shrinking an order; the new quantity must stay on the lot
+   * grid and at or above the minimum size.
+   * @param poolKey Pool key where the order exists
+   * @param balanceManagerKey Balance manager key
+   * @param orderId Order ID to modify
+   * @param newQuantity New total quantity in base units, below the current quantity
+   * @returns Transaction object ready for execution
+   * @throws OrderValidationError when the new quantity is off the lot grid or below the minimum size
+   */
+  async modifyOrder(
+    poolKey: string,
+    balanceManagerKey: string,
+    orderId: string,
+    newQuantity: number
+  ): Promise<Transaction> {
+    const validation = validateOrder(await this.getBookParams(poolKey), { quantity: newQuantity, isBid: false });
+    if (!validation.valid) {
+      throw new OrderValidationError(
+        `Invalid quantity for order ${orderId} in pool ${poolKey}: ${validation.errors.join('; ')}`,
+        validation,
+        { operation: 'modifyOrder', poolKey, balanceManagerKey }
+      );
+    }
+
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.deepBook.modifyOrder(poolKey, balanceManagerKey, orderId, newQuantity));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to modify order ${orderId} in pool ${poolKey}`, {
+        operation: 'modifyOrder',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Cancel every open order of a balance manager in one pool
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @returns Transaction object ready for execution
+   */
+  async cancelAllOrders(poolKey: string, balanceManagerKey: string): Promise<Transaction> {
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.deepBook.cancelAllOrders(poolKey, balanceManagerKey));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to cancel all orders in pool ${poolKey}`, {
+        operation: 'cancelAllOrders',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
 
     return tx;
   }
 
+  /**
+   * Cancel every open order of a balance manager across all configured pools
+   * Open orders are discovered with accountOpenOrders; each pool that has any gets a
+   * cancel-all, packed into as few transactions as the PTB command limit allows.
+   * Orders placed after discovery in those pools are cancelled too. A pool whose open
+   * orders cannot be read does not stop the others from being cancelled; it is reported
+   * in failedPools instead.
+   * @param balanceManagerKey Balance manager key
+   * @param options PTB command limit per transaction
+   * @returns Transactions to execute, with the pools and discovered order IDs each one cancels,
+   *   and the pools that could not be read
+   */
+  async cancelAllAcrossPools(balanceManagerKey: string, options: BatchOptions = {}): Promise<CancelAllResult> {
+    const poolKeys = Object.keys(this.pools);
+    const reads = await Promise.allSettled(
+      poolKeys.map(poolKey => this.client.accountOpenOrders(poolKey, balanceManagerKey))
+    );
+
+    const failedPools: CancelAllResult['failedPools'] = [];
+    const openOrders: Array<{ poolKey: string; orderIds: string[] }> = [];
+    reads.forEach((read, index) => {
+      const poolKey = poolKeys[index];
+      if (read.status === 'fulfilled') {
+        openOrders.push({ poolKey, orderIds: read.value });
+        return;
+      }
+      const error = toQueryError(read.reason, `Failed to get open orders in pool ${poolKey}`, {
+        operation: 'cancelAllAcrossPools',
+        poolKey,
+        balanceManagerKey,
+      });
+      failedPools.push({ poolKey, error: error.message });
+    });
+
+    try {
+      const steps: BatchStep[] = openOrders
+        .filter(({ orderIds }) => orderIds.length > 0)
+        .map(({ poolKey, orderIds }) => ({
+          add: this.client.deepBook.cancelAllOrders(poolKey, balanceManagerKey),
+          poolKey,
+          cancelledOrderIds: orderIds,
+        }));
+
+      return { ...this.composeBatch(steps, options), failedPools };
+    } catch (error) {
+      throw toTransactionError(error, 'Failed to cancel orders across pools', {
+        operation: 'cancelAllAcrossPools',
+        balanceManagerKey,
+      });
+    }
+  }
+
+  /**
+   * Move settled balances (fill proceeds and refunds) from the pool account into the balance manager
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @returns Transaction object ready for execution
+   */
+  async withdrawSettledAmounts(poolKey: string, balanceManagerKey: string): Promise<Transaction> {
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.deepBook.withdrawSettledAmounts(poolKey, balanceManagerKey));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to withdraw settled amounts in pool ${poolKey}`, {
+        operation: 'withdrawSettledAmounts',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Claim accumulated maker rebates into the balance manager
+   * @param poolKey Pool key
+   * @param balanceManagerKey Balance manager key
+   * @returns Transaction object ready for execution
+   */
+  async claimRebates(poolKey: string, balanceManagerKey: string): Promise<Transaction> {
+    const tx = new Transaction();
+
+    try {
+      tx.add(this.client.deepBook.claimRebates(poolKey, balanceManagerKey));
+    } catch (error) {
+      throw toTransactionError(error, `Failed to claim rebates in pool ${poolKey}`, {
+        operation: 'claimRebates',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Withdraw settled balances and claim rebates in every configured pool that has any
+   * Pool accounts are read with account(); pools without an account are skipped.
+   * @param balanceManagerKey Balance manager key
+   * @returns One transaction covering all pools (null when there is nothing to settle) and per-pool amounts
+   * @throws QueryError when a pool account cannot be read
+   */
+  async sweepSettledBalances(balanceManagerKey: string): Promise<SettlementSweep> {
+    const accounts = await Promise.all(
+      Object.keys(this.pools).map(async (poolKey): Promise<PoolSettlement | null> => {
+        try {
+          if (!(await this.client.accountExists(poolKey, balanceManagerKey))) {
+            return null;
+          }
+          const account = await this.client.account(poolKey, balanceManagerKey);
+          return {
+            poolKey,
+            settledBalances: account.settled_balances,
+            unclaimedRebates: account.unclaimed_rebates,
+          };
+        } catch (error) {
+          throw toQueryError(error, `Failed to get account in pool ${poolKey}`, {
+            operation: 'sweepSettledBalances',
+            poolKey,
+            balanceManagerKey,
+          });
+        }
+      })
+    );
+
+    const pools = accounts.filter(
+      (pool): pool is PoolSettlement =>
+        pool !== null && (hasAmount(pool.settledBalances) || hasAmount(pool.unclaimedRebates))
+    );
+    if (pools.length === 0) {
+      return { tx: null, pools };
+    }
+
+    const tx = new Transaction();
+
+    try {
+      for (const pool of pools) {
+        if (hasAmount(pool.unclaimedRebates)) {
+          tx.add(this.client.deepBook.claimRebates(pool.poolKey, balanceManagerKey));
+        }
+        if (hasAmount(pool.settledBalances)) {
+          tx.add(this.client.deepBook.withdrawSettledAmounts(pool.poolKey, balanceManagerKey));
+        }
+      }
+    } catch (error) {
+      throw toTransactionError(error, 'Failed to sweep settled balances', {
+        operation: 'sweepSettledBalances',
+        balanceManagerKey,
+      });
+    }
+
+    return { tx, pools };
+  }
+
   /**
    * Batch cancel multiple orders
    * @param poolKey Pool key
@@ -131,54 +586,335 @@ export class DeepBookTradingWrapper {
   ): Promise<Transaction> {
     const tx = new Transaction();
 
-    for (const orderId of orderIds) {
-      tx.add(this.client.deepBook.cancelOrder({
+    try {
+      for (const orderId of orderIds) {
+        tx.add(this.client.deepBook.cancelOrder(poolKey, balanceManagerKey, orderId));
+      }
+    } catch (error) {
+      throw toTransactionError(error, `Failed to cancel orders in pool ${poolKey}`, {
+        operation: 'batchCancelOrders',
         poolKey,
         balanceManagerKey,
-        orderId,
-      }));
+      });
     }
 
     return tx;
   }
 
   /**
-   * Generate a unique order ID
-   * @returns Unique order ID string
+   * Helper to turn validated order parameters into SDK limit order parameters
+   * Allocates the client order ID and resolves the expiration.
+   */
+  private async prepareLimitOrder(
+    params: OrderParams,
+    validation: OrderValidationResult
+  ): Promise<PlaceLimitOrderParams> {
+    const orderType = params.orderType ?? DEFAULT_ORDER_TYPE;
+    // IOC and FOK orders never rest, so only resting orders get a default expiration
+    const isImmediate = orderType === OrderType.IMMEDIATE_OR_CANCEL || orderType === OrderType.FILL_OR_KILL;
+
+    return {
+      poolKey: params.poolKey,
+      balanceManagerKey: params.balanceManagerKey,
+      clientOrderId: await this.resolveClientOrderId(params),
+      price: validation.price as number,
+      quantity: validation.quantity,
+      isBid: params.isBid,
+      orderType,
+      selfMatchingOption: params.selfMatchingOption ?? DEFAULT_SELF_MATCHING_OPTION,
+      payWithDeep: params.payWithDeep ?? DEFAULT_PAY_WITH_DEEP,
+      expiration: isImmediate
+        ? undefined
+        : resolveExpiration(params.expiration ?? { durationMs: DEFAULT_ORDER_DURATION_MS }),
+    };
+  }
+
+  /**
+   * Helper to validate a batch of limit orders, then prepare a placement step for each
+   * Nothing is allocated until every order has passed validation.
    */
-  private generateOrderId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 10);
-    return `order_${timestamp}_${random}`;
+  private async prepareBatchPlacements(orders: OrderParams[], operation: string): Promise<BatchStep[]> {
+    const validations: OrderValidationResult[] = [];
+    for (const order of orders) {
+      validations.push(await this.checkOrder(order, operation));
+    }
+
+    const steps: BatchStep[] = [];
+    for (const [index, order] of orders.entries()) {
+      try {
+        const prepared = await this.prepareLimitOrder(order, validations[index]);
+        steps.push({
+          add: this.client.deepBook.placeLimitOrder(prepared),
+          poolKey: order.poolKey,
+          clientOrderId: prepared.clientOrderId,
+        });
+      } catch (error) {
+        throw toTransactionError(error, `Failed to prepare limit order ${index} in pool ${order.poolKey}`, {
+          operation,
+          poolKey: order.poolKey,
+          balanceManagerKey: order.balanceManagerKey,
+        });
+      }
+    }
+    return steps;
+  }
+
+  /**
+   * Helper to pack batch steps into transactions without exceeding the PTB command limit
+   * Steps keep their order; a new transaction starts when the next step would not fit.
+   * @throws ValidationError when a single step does not fit in an empty transaction
+   */
+  private composeBatch(steps: BatchStep[], options: BatchOptions): BatchOrderResult {
+    const maxCommands = options.maxCommands ?? MAX_PTB_COMMANDS;
+    const transactions: BatchTransaction[] = [];
+    let current: BatchTransaction | undefined;
+
+    for (const step of steps) {
+      // Measure the step on its own, since steps differ in size
+      const scratch = new Transaction();
+      scratch.add(step.add);
+      const stepCommands = commandCount(scratch);
+      if (stepCommands > maxCommands) {
+        throw new ValidationError(
+          `A single order step needs ${stepCommands} commands, which does not fit in ${maxCommands}`,
+          { operation: 'composeBatch' }
+        );
+      }
+
+      if (!current || commandCount(current.tx) + stepCommands > maxCommands) {
+        current = { tx: new Transaction(), poolKeys: [], clientOrderIds: [], cancelledOrderIds: [] };
+        transactions.push(current);
+      }
+      current.tx.add(step.add);
+
+      if (!current.poolKeys.includes(step.poolKey)) {
+        current.poolKeys.push(step.poolKey);
+      }
+
+      if (step.clientOrderId !== undefined) {
+        current.clientOrderIds.push(step.clientOrderId);
+      }
+      if (step.cancelledOrderIds === 'all') {
+        current.cancelledOrderIds = 'all';
+      } else if (step.cancelledOrderIds && current.cancelledOrderIds !== 'all') {
+        current.cancelledOrderIds.push(...step.cancelledOrderIds);
+      }
+    }
+
+    return { transactions, atomic: transactions.length <= 1 };
   }
 
   /**
-   * Get default expiration timestamp (24 hours from now)
-   * @returns Expiration timestamp in seconds
+   * Helper to validate an order and throw when it cannot be placed
    */
-  private getDefaultExpiration(): number {
-    // Default to 24 hours from now
-    return Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+  private async checkOrder(
+    params: OrderParams | MarketOrderParams,
+    operation: string
+  ): Promise<OrderValidationResult> {
+    const validation = await this.validateOrder(params);
+    if (!validation.valid) {
+      throw new OrderValidationError(
+        `Invalid order for pool ${params.poolKey}: ${validation.errors.join('; ')}`,
+        validation,
+        { operation, poolKey: params.poolKey, balanceManagerKey: params.balanceManagerKey }
+      );
+    }
+    return validation;
   }
 
   /**
-   * Helper to calculate required DEEP stake for an order
+   * Helper to use the caller's client order ID or allocate the next one for the balance manager
+   * @returns u64 client order ID as a decimal string
+   */
+  private async resolveClientOrderId(params: OrderParams | MarketOrderParams): Promise<string> {
+    if (params.clientOrderId !== undefined) {
+      return toClientOrderId(params.clientOrderId);
+    }
+    return this.orderIds.next(params.balanceManagerKey);
+  }
+
+  /**
+   * Estimate the fees of an order or swap from the pool's fee parameters
+   * Market orders, IOC and FOK orders are all taker; post-only orders are all maker;
+   * other limit orders are taker for the part that crosses the current book.
+   * Taker fees are halved when the balance manager's active stake meets the pool's
+   * requirement (the epoch volume requirement is not checked).
+   * @param params Pool, optional balance manager, price (omit for market orders), quantity, side and order type
+   * @returns Taker, maker and total fees in DEEP and in the input token
+   */
+  async estimateFees(params: FeeEstimateParams): Promise<FeeEstimate> {
+    const { poolKey, balanceManagerKey, quantity, isBid } = params;
+
+    try {
+      const [market, price] = await Promise.all([
+        this.getFeeMarketData(poolKey, balanceManagerKey),
+        params.price ?? this.client.midPrice(poolKey),
+      ]);
+
+      const orderType = params.orderType ?? DEFAULT_ORDER_TYPE;
+      let takerQuantity = quantity;
+      if (params.price !== undefined && orderType === OrderType.POST_ONLY) {
+        takerQuantity = 0;
+      } else if (params.price !== undefined && orderType === OrderType.NO_RESTRICTION) {
+        const book = await this.client.getLevel2TicksFromMid(poolKey, FEE_ESTIMATE_BOOK_DEPTH);
+        const levels: BookLevel[] = isBid
+          ? book.ask_prices.map((levelPrice, i) => ({ price: levelPrice, quantity: book.ask_quantities[i] }))
+          : book.bid_prices.map((levelPrice, i) => ({ price: levelPrice, quantity: book.bid_quantities[i] }));
+        takerQuantity = crossingQuantity({ price, quantity, isBid }, levels);
+      }
+
+      return estimateFees({ price, quantity, isBid, takerQuantity }, market);
+    } catch (error) {
+      throw toQueryError(error, `Failed to estimate fees in pool ${poolKey}`, {
+        operation: 'estimateFees',
+        poolKey,
+        balanceManagerKey,
+      });
+    }
+  }
+
+  /**
+   * Helper to calculate the DEEP an order needs for fees
    * @param poolKey Pool key
-   * @param quantity Order quantity
+   * @param quantity Order quantity in base
    * @param isBid Whether it's a bid order
+   * @param price Limit price; omit for a market order
    * @returns Promise resolving to required DEEP amount
    */
   async calculateRequiredDeep(
     poolKey: string,
     quantity: number,
-    isBid: boolean
+    isBid: boolean,
+    price?: number
   ): Promise<number> {
-    if (isBid) {
-      const result = await this.client.getQuoteQuantityOut(poolKey, quantity);
-      return result.deepRequired;
-    } else {
-      const result = await this.client.getBaseQuantityOut(poolKey, quantity);
-      return result.deepRequired;
+    const estimate = await this.estimateFees({ poolKey, quantity, isBid, price });
+    return estimate.total.deep;
+  }
+
+  /**
+   * Helper to read the fee inputs for a pool and, optionally, a balance manager's stake
+   */
+  private async getFeeMarketData(poolKey: string, balanceManagerKey?: string): Promise<FeeMarketData> {
+    const [tradeParams, whitelisted, deepPrice, activeStake] = await Promise.all([
+      this.client.poolTradeParams(poolKey),
+      this.client.whitelisted(poolKey),
+      this.client.getPoolDeepPrice(poolKey),
+      this.getActiveStake(poolKey, balanceManagerKey),
+    ]);
+
+    return {
+      ...tradeParams,
+      whitelisted,
+      activeStake,
+      deepPerBase: deepPrice.deep_per_base,
+      deepPerQuote: deepPrice.deep_per_quote,
+    };
+  }
+
+  /**
+   * Helper to read a balance manager's active stake in a pool (0 without an account)
+   */
+  private async getActiveStake(poolKey: string, balanceManagerKey?: string): Promise<number> {
+    if (!balanceManagerKey || !(await this.client.accountExists(poolKey, balanceManagerKey))) {
+      return 0;
     }
+    return (await this.client.account(poolKey, balanceManagerKey)).active_stake;
   }
-}
\ No newline at end of file
+
+  /**
+   * Helper to add a single-pool swap and settle its output coins
+   * Without inputCoin the SDK draws the input from the sender's coins with coinWithBalance.
+   */
+  private addSwap(
+    tx: Transaction,
+    poolKey: string,
+    side: Side,
+    amounts: { amount: number; deepAmount: number; minOut: number },
+    options: SwapSettlementOptions
+  ): void {
+    const pool = this.pools[poolKey];
+    if (!pool) {
+      throw new RegistryError(`Unknown pool ${poolKey}`, poolKey);
+    }
+
+    const [baseCoin, quoteCoin, deepCoin]: readonly TransactionObjectArgument[] = tx.add(side === 'sell'
+      ? this.client.deepBook.swapExactBaseForQuote({ poolKey, ...amounts, baseCoin: options.inputCoin })
+      : this.client.deepBook.swapExactQuoteForBase({ poolKey, ...amounts, quoteCoin: options.inputCoin }));
+
+    settleSwapOutputs(tx, [
+      { coinKey: pool.baseCoin, coin: baseCoin },
+      { coinKey: pool.quoteCoin, coin: quoteCoin },
+      { coinKey: 'DEEP', coin: deepCoin },
+    ], options, this.config);
+  }
+
+  /**
+   * Helper to quote a swap and derive its minimum output and DEEP amount
+   */
+  private async quoteSwap(
+    poolKey: string,
+    amount: number,
+    side: Side,
+    slippageBps: number,
+    payWithDeep: boolean
+  ): Promise<SwapQuote> {
+    const [baseIn, quoteIn] = side === 'sell' ? [amount, 0] : [0, amount];
+
+    try {
+      const quantityOut = payWithDeep
+        ? await this.client.getQuantityOut(poolKey, baseIn, quoteIn)
+        : await this.client.getQuantityOutInputFee(poolKey, baseIn, quoteIn);
+      const expectedOut = side === 'sell' ? quantityOut.quoteOut : quantityOut.baseOut;
+
+      return {
+        poolKey,
+        side,
+        amountIn: amount,
+        expectedOut,
+        minOut: expectedOut * (1 - slippageBps / 10_000),
+        unfilledIn: side === 'sell' ? quantityOut.baseOut : quantityOut.quoteOut,
+        deepAmount: payWithDeep ? quantityOut.deepRequired * (1 + SWAP_DEEP_BUFFER) : 0,
+        slippageBps,
+      };
+    } catch (error) {
+      throw toQueryError(error, `Failed to quote swap in pool ${poolKey}`, { operation: 'swap', poolKey });
+    }
+  }
+
+  /**
+   * Helper to work out the DEEP to send with a swap
+   * Swaps run without a balance manager, so no stake discount applies.
+   */
+  private async estimateSwapDeep(
+    poolKey: string,
+    amount: number,
+    isExactBase: boolean,
+    payWithDeep: boolean = DEFAULT_PAY_WITH_DEEP
+  ): Promise<number> {
+    if (!payWithDeep) {
+      return 0;
+    }
+
+    const [market, price] = await Promise.all([
+      this.getFeeMarketData(poolKey),
+      this.client.midPrice(poolKey),
+    ]);
+    const quantity = isExactBase ? amount : amount / price;
+    const estimate = estimateFees({ price, quantity, isBid: !isExactBase, takerQuantity: quantity }, market);
+    return estimate.taker.deep * (1 + SWAP_DEEP_BUFFER);
+  }
+}
+
+/**
+ * Number of commands already in a transaction
+ */
+function commandCount(tx: Transaction): number {
+  return tx.getData().commands.length;
+}
+
+/**
+ * Whether any of base, quote or DEEP is non-zero
+ */
+function hasAmount(amounts: PoolTokenAmounts): boolean {
+  return amounts.base > 0 || amounts.quote > 0 || amounts.deep > 0;
+}
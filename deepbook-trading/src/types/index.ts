@@ -6,9 +6,14 @@
  * Export all types used across the skill
  */
 
+import type { EventId, SuiClient } from '@mysten/sui/client';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { Environment, Coin, PoolMap, OrderType, SelfMatchingOptions } from '@mysten/deepbook-v3';
+
 // Re-export types from DeepBook SDK
 export type { SuiClient } from '@mysten/sui/client';
-export type { Environment, BalanceManager, Coin, Pool, MarginManager } from '@mysten/deepbook-v3';
+export type { Environment, BalanceManager, Coin, Pool, MarginManager, CoinMap, PoolMap } from '@mysten/deepbook-v3';
+export { OrderType, SelfMatchingOptions } from '@mysten/deepbook-v3';
 
 // Export custom types for the skill
 export interface SimplifiedConfig {
@@ -16,35 +21,574 @@ export interface SimplifiedConfig {
   address: string;
   environment: Environment;
   balanceManagers?: Record<string, { address: string; tradeCap?: string }>;
+  signer?: TransactionSigner; // Default signer for execute()
+  coins?: Record<string, CoinConfigEntry>; // Overrides merged over config/coins.json
+  pools?: Record<string, PoolConfigEntry>; // Overrides merged over config/pools.json
+  clientOrderIdStore?: ClientOrderIdStore; // Persists client order ID counters; in-memory when omitted
+  eventCursorStore?: EventCursorStore; // Persists event stream cursors; in-memory when omitted
+  queryCache?: QueryCacheOptions; // Lifetime of cached pool parameters
+}
+
+// Registry configuration
+// A coin entry as written in config/coins.json or passed as an override
+export interface CoinConfigEntry {
+  type: string;
+  decimals?: number;
+  scalar?: number;
+  feed?: string;
+  currencyId?: string;
+  priceInfoObjectId?: string;
+}
+
+// A pool entry in either the config/pools.json schema (baseType/quoteType/poolId)
+// or the DeepBook SDK schema (baseCoin/quoteCoin/address)
+export interface PoolConfigEntry {
+  baseCoin?: string;
+  quoteCoin?: string;
+  address?: string;
+  baseType?: string;
+  quoteType?: string;
+  poolId?: string;
+}
+
+export interface RegistryCoin extends Coin {
+  decimals: number;
+}
+
+export type RegistryCoinMap = Record<string, RegistryCoin>;
+
+export interface Registry {
+  environment: Environment;
+  coins: RegistryCoinMap;
+  pools: PoolMap;
+}
+
+export interface RegistryOverrides {
+  coins?: Record<string, CoinConfigEntry>;
+  pools?: Record<string, PoolConfigEntry>;
+  configDir?: string; // Directory holding coins.json and pools.json
 }
 
-export type OrderType = 'limit' | 'market' | 'ioc' | 'fok';
 export type Side = 'buy' | 'sell';
 
+export interface EnvironmentConfig {
+  rpcUrl: string;
+  wormholeStateId?: string;
+  pythStateId?: string;
+}
+
+// Registry validation
+export type RegistryIssueSeverity = 'error' | 'warning';
+
+export type RegistryIssueCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_COIN_TYPE'
+  | 'MALFORMED_ADDRESS'
+  | 'PLACEHOLDER_ADDRESS'
+  | 'ZERO_PRICE_FEED'
+  | 'DECIMALS_SCALAR_MISMATCH'
+  | 'DUPLICATE_COIN_TYPE'
+  | 'DUPLICATE_POOL_ID'
+  | 'UNKNOWN_COIN'
+  | 'DUPLICATE_ORACLE_ID'
+  | 'MISSING_ORACLE';
+
+export interface RegistryIssue {
+  severity: RegistryIssueSeverity;
+  code: RegistryIssueCode;
+  path: string; // e.g. coins.DEEP.type, pools.SUI_USDC.poolId, oracle.pythStateId
+  message: string;
+}
+
+export interface RegistryValidationReport {
+  environment: string;
+  valid: boolean; // false when any issue has severity 'error'
+  issues: RegistryIssue[];
+  summary: {
+    coins: number;
+    pools: number;
+    errors: number;
+    warnings: number;
+  };
+}
+
+export interface RegistryValidationOptions {
+  configDir?: string;
+  environments?: Record<string, EnvironmentConfig>; // Defaults to DEFAULT_ENVIRONMENTS
+}
+
+// Pool discovery
+// Subset of SuiClient used by pool discovery; a recorded fixture can stand in for it
+export type PoolDiscoveryRpc = Pick<
+  SuiClient,
+  'getObject' | 'getDynamicFields' | 'getDynamicFieldObject' | 'multiGetObjects' | 'getCoinMetadata'
+>;
+
+// Recorded RPC responses keyed by method name, then by JSON-encoded request params
+export type RpcFixture = Record<string, Record<string, unknown>>;
+
+export interface PoolDiscoveryOptions {
+  registryId?: string; // Defaults to the DeepBook registry for the client's environment
+  rpc?: PoolDiscoveryRpc; // Defaults to the client's SuiClient
+  knownCoins?: RegistryCoinMap; // Coin keys to reuse for known coin types (default: the client's registry coins)
+}
+
+export interface DiscoveredPool {
+  poolKey: string;
+  poolId: string;
+  baseType: string;
+  quoteType: string;
+}
+
+export interface PoolDiscoveryResult {
+  coins: RegistryCoinMap;
+  pools: PoolMap;
+  discovered: DiscoveredPool[];
+}
+
+// Transaction execution
+// Anything that can produce a serialized Sui signature for transaction bytes
+export interface TransactionSigner {
+  getAddress(): string;
+  signTransaction(bytes: Uint8Array): Promise<string>;
+}
+
+export interface ExecuteOptions {
+  signer?: TransactionSigner; // Overrides the client's default signer
+  gasBudget?: number | 'estimate'; // Defaults to GAS_BUDGET
+  gasBufferPercent?: number; // Headroom added to an estimated budget (default 20)
+  waitForFinality?: boolean; // Wait until the transaction is checkpointed (default true)
+}
+
+export interface GasSummary {
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  nonRefundableStorageFee: bigint;
+  totalCost: bigint; // computation + storage - rebate
+}
+
+export interface CoinBalanceChange {
+  owner: string;
+  coinType: string;
+  amount: bigint; // Negative when spent
+}
+
+export interface DeepBookEvent {
+  type: string; // Full Move event type
+  module: string; // e.g. order_info, balance_manager
+  name: string; // e.g. OrderPlaced, OrderFilled
+  sender: string;
+  txDigest: string;
+  eventSeq: string;
+  timestampMs?: number;
+  data: Record<string, unknown>;
+}
+
+// Fields of DeepBook Move events as returned in parsedJson; u64 values are decimal strings
+export interface PoolEventData {
+  pool_id: string;
+}
+
+export interface OrderFilledEventData extends PoolEventData {
+  maker_order_id: string;
+  taker_order_id: string;
+  maker_client_order_id: string;
+  taker_client_order_id: string;
+  price: string;
+  taker_is_bid: boolean;
+  taker_fee: string;
+  taker_fee_is_deep: boolean;
+  maker_fee: string;
+  maker_fee_is_deep: boolean;
+  base_quantity: string;
+  quote_quantity: string;
+  maker_balance_manager_id: string;
+  taker_balance_manager_id: string;
+  timestamp: string;
+}
+
+// Fields every event about one resting order carries
+export interface OrderEventData extends PoolEventData {
+  balance_manager_id: string;
+  order_id: string;
+  client_order_id: string;
+  trader: string;
+  price: string;
+  is_bid: boolean;
+}
+
+export interface OrderPlacedEventData extends OrderEventData {
+  placed_quantity: string;
+  expire_timestamp: string;
+}
+
+export interface OrderModifiedEventData extends OrderEventData {
+  previous_quantity: string;
+  filled_quantity: string;
+  new_quantity: string;
+  timestamp: string;
+}
+
+// Also the fields of OrderExpired
+export interface OrderCanceledEventData extends OrderEventData {
+  original_quantity: string;
+  base_asset_quantity_canceled: string;
+  timestamp: string;
+}
+
+export interface BalanceEventData {
+  balance_manager_id: string;
+  asset: { name: string }; // TypeName of the coin, address without 0x
+  amount: string;
+  deposit: boolean;
+}
+
+export interface ExecutionResult {
+  digest: string;
+  status: 'success' | 'failure';
+  error?: string;
+  gas: GasSummary;
+  balanceChanges: CoinBalanceChange[];
+  events: DeepBookEvent[];
+  checkpoint?: string;
+}
+
+// Transaction simulation
+export interface MoveAbortInfo {
+  packageId: string;
+  module: string;
+  functionName?: string;
+  code: number;
+  command?: number; // Index of the PTB command that aborted
+  abortName?: string; // Move error constant, when the code is in the DeepBook catalogue
+  reason: string; // Human-readable description of the abort
+}
+
+export interface SimulateOptions {
+  mode?: 'dryRun' | 'devInspect'; // devInspect needs no gas coins but cannot report balance deltas
+  sender?: string; // Defaults to the signer's address, then the client address
+}
+
+export interface BalanceDelta {
+  coinKey: string; // Registry coin key, or the coin type when the coin is not in the registry
+  coinType: string;
+  rawAmount: bigint; // Change in smallest units; negative when spent
+  amount: number; // rawAmount divided by the coin's scalar
+}
+
+export interface ObjectChangeSummary {
+  objectId: string;
+  objectType?: string;
+}
+
+export interface SimulationPreview {
+  success: boolean;
+  error?: string;
+  abort?: MoveAbortInfo;
+  gas: GasSummary;
+  balanceDeltas: BalanceDelta[] | null; // Sender's balance changes, including gas; null when unavailable (devInspect)
+  createdObjects: ObjectChangeSummary[];
+  deletedObjects: ObjectChangeSummary[];
+  events: DeepBookEvent[];
+  ordersPlaced: DeepBookEvent[];
+  ordersFilled: DeepBookEvent[];
+}
+
 // Trading parameters
-export interface OrderParams {
+// Order expiration: 'GTC' (good-till-cancelled), an absolute Unix timestamp in
+// milliseconds or Date, or a duration from now
+export type OrderExpiration = 'GTC' | number | Date | { durationMs: number };
+
+// Client order ID allocation
+export interface ClientOrderIdStore {
+  load(balanceManagerKey: string): Promise<bigint | undefined>; // Highest ID that may have been handed out
+  save(balanceManagerKey: string, value: bigint): Promise<void>;
+}
+
+export interface ClientOrderIdAllocatorOptions {
+  initialValue?: bigint; // First ID for a balance manager with no stored counter (default 1)
+  reserveSize?: number; // IDs reserved per store write (default 100)
+}
+
+interface LimitOrderBaseParams {
   poolKey: string;
   balanceManagerKey: string;
   price: number;
   quantity: number;
   isBid: boolean;
-  clientOrderId?: string;
-  orderType?: OrderType;
-  expiration?: number;
+  clientOrderId?: string | bigint; // u64; allocated per balance manager when omitted
+  payWithDeep?: boolean; // Pay fees in DEEP (default) or in the input token
+  autoRound?: boolean; // Round price toward the passive side and floor quantity to the lot size instead of rejecting
+}
+
+// Default order: matches what it can and rests the remainder on the book
+export interface NoRestrictionOrderParams extends LimitOrderBaseParams {
+  orderType?: OrderType.NO_RESTRICTION;
+  expiration?: OrderExpiration; // Defaults to 24 hours
+  selfMatchingOption?: SelfMatchingOptions;
 }
 
+// Maker-only order: aborts instead of crossing, so it can never self-match
+export interface PostOnlyOrderParams extends LimitOrderBaseParams {
+  orderType: OrderType.POST_ONLY;
+  expiration?: OrderExpiration; // Defaults to 24 hours
+  selfMatchingOption?: never;
+}
+
+// Taker-only order: never rests on the book, so it has no expiration
+export interface ImmediateOrderParams extends LimitOrderBaseParams {
+  orderType: OrderType.IMMEDIATE_OR_CANCEL | OrderType.FILL_OR_KILL;
+  expiration?: never;
+  selfMatchingOption?: SelfMatchingOptions;
+}
+
+export type OrderParams = NoRestrictionOrderParams | PostOnlyOrderParams | ImmediateOrderParams;
+
 export interface MarketOrderParams {
   poolKey: string;
   balanceManagerKey: string;
   quantity: number;
   isBid: boolean;
+  clientOrderId?: string | bigint; // u64; allocated per balance manager when omitted
+  selfMatchingOption?: SelfMatchingOptions;
+  payWithDeep?: boolean; // Pay fees in DEEP (default) or in the input token
+  autoRound?: boolean; // Floor quantity to the lot size instead of rejecting
+}
+
+// Order pre-flight validation
+export interface PoolBookParams {
+  tickSize: number; // Price increment in quote per base
+  lotSize: number; // Quantity increment in base
+  minSize: number; // Minimum order quantity in base
+}
+
+export interface OrderValidationInput {
+  price?: number; // Omitted for market orders
+  quantity: number;
+  isBid: boolean;
+}
+
+export interface OrderValidationOptions {
+  autoRound?: boolean;
+}
+
+export interface OrderValidationResult {
+  valid: boolean;
+  price?: number; // Adjusted price (equal to the input unless auto-rounded)
+  quantity: number; // Adjusted quantity
+  adjusted: boolean;
+  warnings: string[]; // Adjustments made in auto-round mode
+  errors: string[];
+  bookParams: PoolBookParams;
+}
+
+// Batch order composition
+export interface BatchOptions {
+  maxCommands?: number; // PTB commands per transaction (default MAX_PTB_COMMANDS)
+}
+
+export interface CancelReplaceParams {
+  poolKey: string;
+  balanceManagerKey: string;
+  cancel: string[] | 'all'; // Order IDs to cancel in the pool, or every open order
+  place: OrderParams[];
+}
+
+export interface BatchTransaction {
+  tx: Transaction;
+  poolKeys: string[]; // Pools this transaction touches
+  clientOrderIds: string[]; // Client order IDs of the orders placed by this transaction
+  cancelledOrderIds: string[] | 'all'; // Orders cancelled by this transaction
+}
+
+export interface BatchOrderResult {
+  transactions: BatchTransaction[]; // Execute in order; cancels always come first
+  atomic: boolean; // False when the batch had to be split across transactions
+}
+
+export interface CancelAllResult extends BatchOrderResult {
+  failedPools: Array<{ poolKey: string; error: string }>; // Pools whose open orders could not be read, so are not cancelled
+}
+
+// Settlement of pool account balances
+export interface PoolTokenAmounts {
+  base: number;
+  quote: number;
+  deep: number;
 }
 
-export interface SwapParams {
+export interface PoolSettlement {
+  poolKey: string;
+  settledBalances: PoolTokenAmounts; // Withdrawn into the balance manager when any is non-zero
+  unclaimedRebates: PoolTokenAmounts; // Claimed when any is non-zero
+}
+
+export interface SettlementSweep {
+  tx: Transaction | null; // null when no pool has anything to settle
+  pools: PoolSettlement[]; // Pools the transaction settles
+}
+
+// Where swap inputs come from and where outputs go
+export interface SwapSettlementOptions {
+  inputCoin?: TransactionObjectArgument; // Coin to spend; defaults to the sender's wallet coins, merged as needed
+  recipient?: string; // Receives the output, unfilled input and unused DEEP (default: the sender)
+  depositInto?: string; // Balance manager key to deposit them into instead; the sender must own it
+}
+
+export interface SwapParams extends SwapSettlementOptions {
   poolKey: string;
   amount: number;
   isExactBase: boolean;
   minOut?: number;
+  payWithDeep?: boolean; // Pay fees in DEEP (default) or in the input token
+  deepAmount?: number; // DEEP sent for fees; estimated when omitted, unused DEEP is returned
+}
+
+// Slippage-protected swap: sell spends an exact base amount, buy spends an exact quote amount
+export interface ProtectedSwapParams extends SwapSettlementOptions {
+  poolKey: string;
+  amount: number; // Input amount: base when selling, quote when buying
+  side: Side;
+  slippageBps: number; // Accepted shortfall from the quoted output, in basis points
+  payWithDeep?: boolean; // Pay fees in DEEP (default) or in the input token
+  maxDriftBps?: number; // Re-quote after building and reject if the output moved more than this
+}
+
+export interface SwapQuote {
+  poolKey: string;
+  side: Side;
+  amountIn: number;
+  expectedOut: number; // Output at the quoted book
+  minOut: number; // expectedOut less slippage; the swap aborts below this
+  unfilledIn: number; // Input the book cannot absorb, returned by the swap
+  deepAmount: number; // DEEP attached for fees (0 when paying in the input token)
+  slippageBps: number;
+  driftBps?: number; // Change in output between quote and re-quote, when re-quoted
+}
+
+export interface ProtectedSwap {
+  tx: Transaction;
+  quote: SwapQuote;
+}
+
+// Multi-hop routing
+export interface RouteHop {
+  poolKey: string;
+  side: Side; // sell: base to quote, buy: quote to base
+  fromCoin: string;
+  toCoin: string;
+}
+
+export interface RouteHopQuote extends RouteHop {
+  amountIn: number;
+  amountOut: number;
+  unfilledIn: number; // Input the pool cannot absorb, returned to the sender
+  deepAmount: number; // DEEP attached for this hop's fees
+}
+
+export interface RouteQuote {
+  fromCoin: string;
+  toCoin: string;
+  amountIn: number;
+  amountOut: number; // Output of the last hop
+  hops: RouteHopQuote[];
+}
+
+export interface RouterSwapParams extends SwapSettlementOptions {
+  fromCoin: string;
+  toCoin: string;
+  amount: number;
+  slippageBps: number; // Accepted shortfall from the quoted end-to-end output
+  maxHops?: number; // Default DEFAULT_MAX_HOPS
+  payWithDeep?: boolean; // Pay fees in DEEP (default) or in each hop's input token
+}
+
+export interface RoutedSwap {
+  tx: Transaction;
+  route: RouteQuote;
+  minOut: number; // Enforced on the last hop
+}
+
+// Fee estimation
+export interface BookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface FeeEstimateParams {
+  poolKey: string;
+  balanceManagerKey?: string; // Account whose DEEP stake may discount the taker fee
+  price?: number; // Limit price; omitted for market orders and swaps, which are priced at mid
+  quantity: number; // Base quantity
+  isBid: boolean;
+  orderType?: OrderType; // Limit order type (default NO_RESTRICTION)
+}
+
+export interface FeeEstimateInput {
+  price: number; // Limit or reference price
+  quantity: number; // Base quantity
+  isBid: boolean;
+  takerQuantity: number; // Part of the quantity expected to fill immediately
+}
+
+export interface FeeMarketData {
+  takerFee: number;
+  makerFee: number;
+  stakeRequired: number;
+  whitelisted: boolean; // Whitelisted pools charge no fees
+  activeStake: number; // Account's active DEEP stake (0 without a balance manager)
+  deepPerBase?: number; // DEEP price oracle, set when the pool prices DEEP against base
+  deepPerQuote?: number; // ... or against quote
+}
+
+export interface FeeAmounts {
+  deep: number; // Fee when paying with DEEP
+  inputToken: number; // Fee when paying with the input token, including the penalty
+}
+
+export interface FeeEstimate {
+  inputAsset: 'base' | 'quote'; // Token fees are charged in when not paying with DEEP
+  whitelisted: boolean;
+  stakeDiscount: boolean; // Taker fee halved for active stake (epoch volume is not checked)
+  takerFeeRate: number; // Effective rates after whitelisting and discount
+  makerFeeRate: number;
+  takerQuantity: number;
+  makerQuantity: number;
+  taker: FeeAmounts; // Fees on the taker quantity
+  maker: FeeAmounts; // Fees on the resting quantity, charged at placement
+  total: FeeAmounts;
+}
+
+// Staking and governance
+export interface GovernanceProposal {
+  proposalId: string; // Proposer's balance manager ID
+  takerFee: number;
+  makerFee: number;
+  stakeRequired: number; // DEEP
+  votes: number; // DEEP voting power behind the proposal
+}
+
+export interface PoolGovernance {
+  poolKey: string;
+  epoch: number; // Epoch of the pool's governance state
+  currentEpoch: number; // Chain epoch
+  quorum: number; // Votes a proposal needs to take effect next epoch, in DEEP
+  votingPower: number; // Total voting power, in DEEP
+  proposals: GovernanceProposal[]; // Empty when the governance state is from an earlier epoch
+}
+
+export interface FeeTier {
+  poolKey: string;
+  takerFee: number;
+  makerFee: number;
+  stakeRequired: number; // DEEP stake (and epoch taker volume) needed for the taker discount
+  discountedTakerFee: number;
+  activeStake: number; // DEEP staked before this epoch
+  inactiveStake: number; // DEEP staked this epoch, active from the next one
+  stakeQualified: boolean; // activeStake >= stakeRequired
+  votedProposal: string | null;
+  next: { takerFee: number; makerFee: number; stakeRequired: number }; // Parameters for the next epoch
 }
 
 // Query parameters
@@ -52,6 +596,313 @@ export interface OrderBookQueryParams {
   poolKey: string;
   depth?: number;
   includeStats?: boolean;
+  imbalanceLevels?: number; // Levels per side in the imbalance; defaults to ORDER_BOOK_IMBALANCE_LEVELS
+}
+
+// Order book analytics
+export interface OrderBookSides {
+  bids: BookLevel[]; // Best price first
+  asks: BookLevel[];
+}
+
+export interface OrderBookLevel extends BookLevel {
+  cumulativeQuantity: number; // Base quantity from the best level through this one
+  cumulativeQuote: number; // Quote notional from the best level through this one
+}
+
+export interface OrderBookSpread {
+  absolute: number;
+  bps: number; // Relative to the mid price
+}
+
+export interface MoveCost {
+  side: Side; // buy lifts the asks, sell hits the bids
+  pricePercent: number;
+  targetPrice: number | null; // null when the side is empty
+  baseQuantity: number; // Base traded to move the best price to the target
+  quoteQuantity: number;
+  exhausted: boolean; // Visible depth ran out before reaching the target
+}
+
+export interface PriceImpact extends VwapQuote {
+  quoteQuantity: number; // Quote notional of the filled quantity
+  impactBps: number | null; // Average price against the mid, positive when worse; null without a two-sided book
+}
+
+export interface PoolStats {
+  tradeParams: { takerFee: number; makerFee: number; stakeRequired: number };
+  bookParams: { tickSize: number; lotSize: number; minSize: number };
+  vaultBalances: { base: number; quote: number; deep: number };
+  whitelisted: boolean;
+  timestamp: number;
+}
+
+// Level-2 levels as read on-chain, best price first
+export interface Level2Ticks {
+  bid_prices: number[];
+  bid_quantities: number[];
+  ask_prices: number[];
+  ask_quantities: number[];
+}
+
+export interface PoolMarketSnapshot {
+  poolKey: string;
+  status: 'ok';
+  midPrice: number | null; // Between the best bid and ask; null when a side is empty
+  bestBid: BookLevel | null;
+  bestAsk: BookLevel | null;
+  spread: OrderBookSpread | null;
+  vaultBalances: PoolStats['vaultBalances'];
+  tradeParams: PoolStats['tradeParams'];
+}
+
+export interface PoolSnapshotError {
+  poolKey: string;
+  status: 'error';
+  error: string;
+}
+
+export type MarketSnapshotEntry = PoolMarketSnapshot | PoolSnapshotError;
+
+export interface MarketSnapshot {
+  timestamp: number;
+  pools: Record<string, MarketSnapshotEntry>; // Keyed by pool key
+}
+
+export interface OrderBook {
+  poolKey: string;
+  depth: number;
+  bids: OrderBookLevel[]; // Best price first
+  asks: OrderBookLevel[];
+  midPrice: number;
+  spread: OrderBookSpread | null; // null when either side is empty
+  imbalance: number | null; // (bid - ask) / (bid + ask) base quantity over the top levels, from -1 to 1
+  microprice: number | null; // Mid weighted by the opposite side's top-of-book quantity
+  stats: PoolStats | null;
+  timestamp: number;
+  costToMove(side: Side, pricePercent: number): MoveCost;
+  impactForSize(side: Side, quantity: number): PriceImpact;
+}
+
+// Trade history
+export interface Trade {
+  poolKey: string;
+  txDigest: string;
+  eventSeq: string; // With txDigest, identifies the fill
+  timestampMs: number;
+  price: number;
+  baseQuantity: number;
+  quoteQuantity: number;
+  takerSide: Side; // buy when the taker bought base
+  makerOrderId: string;
+  takerOrderId: string;
+  makerBalanceManagerId: string;
+  takerBalanceManagerId: string;
+}
+
+export interface TradeQuery {
+  from?: number; // Oldest fill to return, Unix ms (inclusive)
+  to?: number; // Newest fill to return, Unix ms (inclusive)
+  cursor?: EventId | null; // nextCursor of the previous page
+  limit?: number; // Maximum trades per page; defaults to TRADE_PAGE_SIZE
+}
+
+// Trades newest first; pass nextCursor back to continue into older fills
+export interface TradePage {
+  trades: Trade[]; // Possibly none while hasNextPage is true, when the scanned events were other pools' fills
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+}
+
+export interface TradeSyncResult {
+  fetched: number; // Trades fetched, including ones already stored
+  complete: boolean; // false when the page cap was reached; the next sync continues from there
+}
+
+// Candle interval as milliseconds or a duration such as 1m, 15m, 4h or 1d
+export type CandleInterval = number | `${number}${'m' | 'h' | 'd'}`;
+
+export interface Candle {
+  openTime: number; // Unix ms, aligned to the interval
+  closeTime: number; // openTime + interval - 1
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Base quantity
+  quoteVolume: number;
+  vwap: number;
+  trades: number;
+}
+
+export interface TradeSummary {
+  from: number;
+  to: number;
+  trades: number;
+  volume: number; // Base quantity
+  quoteVolume: number;
+  vwap: number | null; // null when there were no trades
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+}
+
+// Account history
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export interface AccountHistoryQuery {
+  from?: number; // Unix ms; defaults to ACCOUNT_HISTORY_LOOKBACK_MS ago
+  to?: number; // Unix ms; defaults to now
+  maxEventPages?: number; // Pool-wide event pages scanned per event type; defaults to ACCOUNT_HISTORY_MAX_EVENT_PAGES
+}
+
+export interface OrderFill {
+  orderId: string;
+  txDigest: string;
+  eventSeq: string;
+  timestampMs: number;
+  role: 'maker' | 'taker';
+  isBid: boolean; // Side of the account's order
+  price: number;
+  baseQuantity: number;
+  quoteQuantity: number;
+  fee: number;
+  feeIsDeep: boolean; // Otherwise paid in the order's input token: quote for bids, base for asks
+}
+
+export interface OrderLifecycleEvent {
+  type: 'placed' | 'filled' | 'modified' | 'cancelled' | 'expired';
+  txDigest: string;
+  eventSeq: string;
+  timestampMs: number;
+  quantity: number; // Base quantity placed, filled, removed by the modification, or cancelled/expired
+}
+
+export interface OrderLifecycle {
+  orderId: string;
+  clientOrderId: string | null;
+  isBid: boolean;
+  price: number | null; // Limit price; null for orders that never rested in the range
+  status: OrderStatus;
+  placedInRange: boolean; // false when the order rested before the range, so its status is partial
+  restingQuantity: number; // Base quantity left on the book
+  filledQuantity: number;
+  filledQuote: number;
+  averagePrice: number | null;
+  fees: { deep: number; inputToken: number };
+  fills: OrderFill[];
+  events: OrderLifecycleEvent[]; // Oldest first
+}
+
+export interface AccountTotals {
+  baseBought: number;
+  baseSold: number;
+  quoteSpent: number; // Excluding fees
+  quoteReceived: number;
+  fees: { deep: number; base: number; quote: number };
+}
+
+export interface AccountHistory {
+  balanceManagerId: string;
+  poolKey: string;
+  from: number;
+  to: number;
+  complete: boolean; // false when the pool-wide event scan stopped at maxEventPages before reaching from
+  scannedFrom: number; // Oldest time the pool-wide scan reached; maker fills and expirations before it are missing
+  orders: OrderLifecycle[]; // By first event, oldest first
+  fills: OrderFill[]; // Oldest first
+  totals: AccountTotals;
+}
+
+// Query caching
+export interface QueryCacheOptions {
+  ttlMs?: number; // Lifetime of cached pool parameters (default POOL_PARAMS_CACHE_TTL_MS); 0 disables caching
+}
+
+export interface QueryOperationMetrics {
+  hits: number; // Served from the cache
+  misses: number; // Read from the chain
+  coalesced: number; // Joined an identical read already in flight
+}
+
+export interface QueryCacheMetrics {
+  operations: Record<string, QueryOperationMetrics>;
+  total: QueryOperationMetrics;
+  simulations: number; // devInspect simulations run for batched reads
+  batchedReads: number; // Reads carried by those simulations
+  failedBatches: number; // Simulations that failed, so their reads were retried one at a time
+  lastBatchError: string | null; // Why the latest of those failed
+}
+
+// Event streams
+// Subset of SuiClient that places transactions within their checkpoint, to merge events in execution order
+export type EventOrderRpc = Pick<SuiClient, 'multiGetTransactionBlocks' | 'getCheckpoint'>;
+
+// Subset of SuiClient that event streams poll; FakeEventSource stands in for it in tests
+export type EventStreamRpc = Pick<SuiClient, 'queryEvents' | 'getObject'> & EventOrderRpc;
+
+// Persists the last event a stream delivered, per cursor key
+export interface EventCursorStore {
+  load(key: string): Promise<EventId | undefined>;
+  save(key: string, cursor: EventId): Promise<void>;
+}
+
+export interface EventStreamOptions {
+  pollIntervalMs?: number; // Wait between polls once caught up (default EVENT_POLL_INTERVAL_MS)
+  pageSize?: number; // Events per query (default EVENT_PAGE_SIZE)
+  cursorKey?: string; // Prefix of the persisted cursors; defaults to the stream name, e.g. fills:SUI_USDC
+  startAt?: 'latest' | 'earliest'; // Where a stream with no saved cursor starts (default latest)
+}
+
+export interface OrderUpdate extends OrderLifecycleEvent {
+  poolKey: string;
+  balanceManagerId: string;
+  orderId: string;
+  clientOrderId: string;
+  isBid: boolean;
+  price: number;
+  role?: 'maker' | 'taker'; // Set on fills
+}
+
+export interface BookChange {
+  poolKey: string;
+  type: OrderLifecycleEvent['type'];
+  txDigest: string;
+  eventSeq: string;
+  timestampMs: number;
+  orderId: string; // Resting order whose quantity changed
+  isBid: boolean; // Side of the resting order
+  price: number;
+  quantityDelta: number; // Change in base quantity resting at the price
+}
+
+export interface BalanceChange {
+  balanceManagerId: string;
+  coinKey: string | null; // null when the coin is not in the registry
+  coinType: string;
+  amount: number; // Scaled by the coin's decimals; smallest units when coinKey is null
+  deposit: boolean;
+  txDigest: string;
+  eventSeq: string;
+  timestampMs: number;
+}
+
+// Persists normalized trades; implementations ignore trades they already hold
+export interface TradeStore {
+  append(trades: Trade[]): Promise<void>;
+  query(poolKey: string, from: number, to: number): Promise<Trade[]>; // Oldest first, bounds inclusive
+  latestTimestamp(poolKey: string): Promise<number | undefined>;
+}
+
+// Subset of a synchronous SQLite handle, as provided by better-sqlite3 or node:sqlite
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+    get(...params: unknown[]): unknown;
+  };
 }
 
 export interface AccountQueryParams {
@@ -59,6 +910,41 @@ export interface AccountQueryParams {
   balanceManagerKey: string;
 }
 
+// Order book replica
+export interface OrderBookReplicaOptions {
+  depth?: number; // Levels per side read in each snapshot
+  maxCatchUpCheckpoints?: number; // sync() resyncs rather than catch up on more checkpoints than this
+  maxCatchUpPages?: number; // sync() resyncs rather than read more event pages per event type than this
+  resyncIntervalMs?: number; // sync() takes a fresh snapshot once the current one is older than this
+  snapshotAttempts?: number; // Snapshots resync() takes while the pool's events move under it
+}
+
+// Events from a contiguous range of checkpoints, applied in order
+export interface OrderBookUpdate {
+  checkpoint: number; // Last checkpoint the update covers
+  previousCheckpoint?: number; // Checkpoint before the first one covered; defaults to checkpoint - 1
+  events: DeepBookEvent[];
+}
+
+export interface VwapQuote {
+  side: Side; // buy walks the asks, sell walks the bids
+  requestedQuantity: number;
+  filledQuantity: number; // Less than requested when the replicated depth runs out
+  averagePrice: number;
+  worstPrice: number; // Last level reached
+}
+
+export interface OrderBookReplicaState {
+  poolKey: string;
+  checkpoint: number; // Last checkpoint applied; sync() may also have applied events from later ones
+  snapshotCheckpoint: number;
+  snapshotTimestamp: number;
+  resyncs: number; // Snapshots taken after the first, on gaps, staleness or exhausted depth
+  bids: BookLevel[]; // Best price first
+  asks: BookLevel[];
+  midPrice: number | null; // null when either side is empty
+}
+
 // Flash loan parameters
 export interface FlashLoanParams {
   borrowPoolKey: string;
@@ -82,23 +968,175 @@ export interface WithdrawParams {
 }
 
 // Error types
+export interface ErrorDetails {
+  operation?: string; // Wrapper method that failed, e.g. getOrderBook
+  poolKey?: string;
+  balanceManagerKey?: string;
+  coinKey?: string;
+  cause?: unknown; // Original error
+}
+
 export class DeepBookTradingError extends Error {
-  constructor(message: string, public code?: string) {
+  operation?: string;
+  poolKey?: string;
+  balanceManagerKey?: string;
+  coinKey?: string;
+  cause?: unknown;
+
+  constructor(message: string, public code?: string, details: ErrorDetails = {}) {
     super(message);
     this.name = 'DeepBookTradingError';
+    this.addDetails(details);
+  }
+
+  /**
+   * Fill in context that is not already set
+   * @param details Operation, pool/manager/coin keys and cause
+   */
+  addDetails(details: ErrorDetails): this {
+    this.operation ??= details.operation;
+    this.poolKey ??= details.poolKey;
+    this.balanceManagerKey ??= details.balanceManagerKey;
+    this.coinKey ??= details.coinKey;
+    this.cause ??= details.cause;
+    return this;
   }
 }
 
 export class TransactionError extends DeepBookTradingError {
-  constructor(message: string, public txDigest?: string) {
-    super(message, 'TRANSACTION_ERROR');
+  constructor(message: string, public txDigest?: string, details?: ErrorDetails) {
+    super(message, 'TRANSACTION_ERROR', details);
     this.name = 'TransactionError';
   }
 }
 
+// Move abort errors, decoded from the DeepBook abort-code catalogue (utils/abort-codes.ts)
+export class MoveAbortError extends TransactionError {
+  constructor(message: string, public abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, txDigest, details);
+    this.name = 'MoveAbortError';
+    this.code = 'MOVE_ABORT';
+  }
+}
+
+export class InsufficientBalanceError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'InsufficientBalanceError';
+    this.code = 'INSUFFICIENT_BALANCE';
+  }
+}
+
+export class OrderBelowMinSizeError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'OrderBelowMinSizeError';
+    this.code = 'ORDER_BELOW_MIN_SIZE';
+  }
+}
+
+export class InvalidTickSizeError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'InvalidTickSizeError';
+    this.code = 'INVALID_TICK_SIZE';
+  }
+}
+
+export class InvalidLotSizeError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'InvalidLotSizeError';
+    this.code = 'INVALID_LOT_SIZE';
+  }
+}
+
+export class InvalidExpirationError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'InvalidExpirationError';
+    this.code = 'INVALID_EXPIRATION';
+  }
+}
+
+export class OrderRejectedError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'OrderRejectedError';
+    this.code = 'ORDER_REJECTED';
+  }
+}
+
+export class OrderNotFoundError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'OrderNotFoundError';
+    this.code = 'ORDER_NOT_FOUND';
+  }
+}
+
+export class SlippageExceededError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'SlippageExceededError';
+    this.code = 'SLIPPAGE_EXCEEDED';
+  }
+}
+
+export class UnauthorizedError extends MoveAbortError {
+  constructor(message: string, abort: MoveAbortInfo, txDigest?: string, details?: ErrorDetails) {
+    super(message, abort, txDigest, details);
+    this.name = 'UnauthorizedError';
+    this.code = 'UNAUTHORIZED';
+  }
+}
+
+export type MoveAbortErrorClass = new (
+  message: string,
+  abort: MoveAbortInfo,
+  txDigest?: string,
+  details?: ErrorDetails
+) => MoveAbortError;
+
+export interface AbortCodeEntry {
+  name: string; // Move error constant, e.g. EOrderBelowMinimumSize
+  description: string;
+  error?: MoveAbortErrorClass; // Defaults to MoveAbortError
+}
+
 export class QueryError extends DeepBookTradingError {
-  constructor(message: string) {
-    super(message, 'QUERY_ERROR');
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, 'QUERY_ERROR', details);
     this.name = 'QueryError';
   }
+}
+
+export class ValidationError extends DeepBookTradingError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class OrderValidationError extends ValidationError {
+  constructor(message: string, public validation: OrderValidationResult, details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'OrderValidationError';
+    this.code = 'ORDER_VALIDATION_FAILED';
+  }
+}
+
+export class QuoteDriftError extends ValidationError {
+  constructor(message: string, public quote: SwapQuote, public requotedOut: number, details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'QuoteDriftError';
+    this.code = 'QUOTE_DRIFT';
+  }
+}
+
+export class RegistryError extends DeepBookTradingError {
+  constructor(message: string, public entryKey?: string, details?: ErrorDetails) {
+    super(message, 'REGISTRY_ERROR', details);
+    this.name = 'RegistryError';
+  }
 }
\ No newline at end of file
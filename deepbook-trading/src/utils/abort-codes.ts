@@ -0,0 +1,115 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * DeepBook V3 abort-code catalogue
+ * Maps the error constants of the DeepBook V3 Move modules to readable
+ * descriptions and the error class thrown for them
+ */
+
+import type { AbortCodeEntry } from '../types/index.js';
+import {
+  InsufficientBalanceError,
+  InvalidExpirationError,
+  InvalidLotSizeError,
+  InvalidTickSizeError,
+  OrderBelowMinSizeError,
+  OrderNotFoundError,
+  OrderRejectedError,
+  SlippageExceededError,
+  UnauthorizedError,
+} from '../types/index.js';
+
+// Abort codes keyed by module name, then by code
+export const DEEPBOOK_ABORT_CODES: Record<string, Record<number, AbortCodeEntry>> = {
+  pool: {
+    1: { name: 'EInvalidFee', description: 'Invalid pool fee' },
+    2: { name: 'ESameBaseAndQuote', description: 'Base and quote coins must differ' },
+    // Pool creation parameters; orders that break them abort in order_info or book instead
+    3: { name: 'EInvalidTickSize', description: 'Invalid tick size for a new pool' },
+    4: { name: 'EInvalidLotSize', description: 'Invalid lot size for a new pool' },
+    5: { name: 'EInvalidMinSize', description: 'Invalid minimum size for a new pool' },
+    6: { name: 'EInvalidQuantityIn', description: 'Swap input quantity must be positive' },
+    7: { name: 'EIneligibleReferencePool', description: 'Pool is not eligible as a reference pool' },
+    9: { name: 'EInvalidOrderBalanceManager', description: 'Order does not belong to this balance manager', error: UnauthorizedError },
+    10: { name: 'EIneligibleTargetPool', description: 'Pool is not eligible as a target pool' },
+    11: { name: 'EPackageVersionDisabled', description: 'DeepBook package version is disabled' },
+    12: { name: 'EMinimumQuantityOutNotMet', description: 'Swap output is below the minimum requested', error: SlippageExceededError },
+    13: { name: 'EInvalidStake', description: 'Invalid stake amount' },
+    14: { name: 'EPoolNotRegistered', description: 'Pool is not registered' },
+    15: { name: 'EPoolCannotBeBothWhitelistedAndStable', description: 'Pool cannot be both whitelisted and stable' },
+  },
+  order_info: {
+    0: { name: 'EOrderInvalidPrice', description: 'Order price is outside the allowed range or not a multiple of the tick size', error: InvalidTickSizeError },
+    1: { name: 'EOrderBelowMinimumSize', description: 'Order quantity is below the pool minimum size', error: OrderBelowMinSizeError },
+    2: { name: 'EOrderInvalidLotSize', description: 'Order quantity is not a multiple of the lot size', error: InvalidLotSizeError },
+    3: { name: 'EInvalidExpireTimestamp', description: 'Order expiration is in the past', error: InvalidExpirationError },
+    4: { name: 'EInvalidOrderType', description: 'Invalid order type', error: OrderRejectedError },
+    5: { name: 'EPOSTOrderCrossesOrderbook', description: 'Post-only order would cross the order book', error: OrderRejectedError },
+    6: { name: 'EFOKOrderCannotBeFullyFilled', description: 'Fill-or-kill order cannot be fully filled', error: OrderRejectedError },
+    7: { name: 'EMarketOrderCannotBePostOnly', description: 'Market orders cannot be post-only', error: OrderRejectedError },
+    8: { name: 'ESelfMatchingCancelTaker', description: 'Order would self-match and the taker was cancelled', error: OrderRejectedError },
+  },
+  order: {
+    0: { name: 'EInvalidNewQuantity', description: 'New quantity must be below the original and above the filled quantity', error: OrderRejectedError },
+    1: { name: 'EOrderExpired', description: 'Order has expired', error: InvalidExpirationError },
+  },
+  book: {
+    1: { name: 'EInvalidAmountIn', description: 'Invalid input amount' },
+    2: { name: 'EEmptyOrderbook', description: 'Order book is empty' },
+    3: { name: 'EInvalidPriceRange', description: 'Invalid price range' },
+    4: { name: 'EInvalidTicks', description: 'Invalid number of ticks' },
+    5: { name: 'EOrderBelowMinimumSize', description: 'Order quantity is below the pool minimum size', error: OrderBelowMinSizeError },
+    6: { name: 'EOrderInvalidLotSize', description: 'Order quantity is not a multiple of the lot size', error: InvalidLotSizeError },
+    7: { name: 'ENewQuantityMustBeLessThanOriginal', description: 'New quantity must be less than the original quantity', error: OrderRejectedError },
+  },
+  balance_manager: {
+    0: { name: 'EInvalidOwner', description: 'Sender is not the balance manager owner', error: UnauthorizedError },
+    1: { name: 'EInvalidTrader', description: 'Trade proof does not match the balance manager', error: UnauthorizedError },
+    2: { name: 'EInvalidProof', description: 'Invalid trade proof', error: UnauthorizedError },
+    3: { name: 'EBalanceManagerBalanceTooLow', description: 'Balance manager balance is too low', error: InsufficientBalanceError },
+    4: { name: 'EMaxTradeCapsReached', description: 'Maximum number of trade caps reached' },
+    5: { name: 'ETradeCapNotInList', description: 'Trade cap is not authorized for this balance manager', error: UnauthorizedError },
+  },
+  vault: {
+    1: { name: 'ENotEnoughBaseForLoan', description: 'Not enough base coin in the vault for the flash loan', error: InsufficientBalanceError },
+    2: { name: 'ENotEnoughQuoteForLoan', description: 'Not enough quote coin in the vault for the flash loan', error: InsufficientBalanceError },
+    3: { name: 'EInvalidLoanQuantity', description: 'Invalid flash loan quantity' },
+    4: { name: 'EIncorrectLoanPool', description: 'Flash loan returned to the wrong pool' },
+    5: { name: 'EIncorrectTypeReturned', description: 'Flash loan returned with the wrong coin type' },
+    6: { name: 'EIncorrectQuantityReturned', description: 'Flash loan returned with the wrong quantity' },
+  },
+  state: {
+    1: { name: 'EMaxOpenOrders', description: 'Maximum number of open orders reached', error: OrderRejectedError },
+    2: { name: 'EAlreadyProposed', description: 'Account has already submitted a proposal' },
+  },
+  governance: {
+    1: { name: 'EInvalidMakerFee', description: 'Invalid maker fee in proposal' },
+    2: { name: 'EInvalidTakerFee', description: 'Invalid taker fee in proposal' },
+    3: { name: 'EProposalDoesNotExist', description: 'Proposal does not exist' },
+    4: { name: 'EMaxProposalsReachedNotEnoughVotes', description: 'Maximum proposals reached and stake is too low to replace one' },
+    5: { name: 'EWhitelistedPoolCannotChange', description: 'Whitelisted pool parameters cannot change' },
+  },
+  big_vector: {
+    0: { name: 'EMaxSliceSize', description: 'Maximum slice size exceeded' },
+    1: { name: 'EMaxFanOut', description: 'Maximum fan-out exceeded' },
+    2: { name: 'EExists', description: 'Order already exists' },
+    3: { name: 'ENotFound', description: 'Order not found', error: OrderNotFoundError },
+    8: { name: 'ENotEmpty', description: 'Vector is not empty' },
+  },
+  registry: {
+    1: { name: 'EPoolAlreadyExists', description: 'Pool already exists' },
+    2: { name: 'EPoolDoesNotExist', description: 'Pool does not exist' },
+    3: { name: 'EPackageVersionNotEnabled', description: 'DeepBook package version is not enabled' },
+  },
+};
+
+/**
+ * Look up an abort code in the DeepBook catalogue
+ * @param module Move module that aborted
+ * @param code Abort code
+ * @returns Catalogue entry, or undefined for unknown modules and codes
+ */
+export function lookupAbortCode(module: string, code: number): AbortCodeEntry | undefined {
+  return DEEPBOOK_ABORT_CODES[module]?.[code];
+}
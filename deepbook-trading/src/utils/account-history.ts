@@ -0,0 +1,255 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Account history reconstruction
+ * Replays a balance manager's DeepBook events into per-order lifecycles,
+ * fills with maker/taker role and fees, and traded totals
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type {
+  AccountHistory,
+  AccountTotals,
+  DeepBookEvent,
+  OrderFill,
+  OrderLifecycle,
+  OrderLifecycleEvent,
+} from '../types/index.js';
+import { FLOAT_SCALAR } from './config.js';
+
+export interface AccountHistoryContext {
+  balanceManagerId: string;
+  poolKey: string;
+  poolId: string;
+  from: number;
+  to: number;
+  scannedFrom?: number; // Set when pool-wide events were scanned back only to this time, after from
+  scalars: { base: number; quote: number; deep: number };
+}
+
+// Lifecycle under construction, with quantities still in raw units
+interface OrderState {
+  order: OrderLifecycle;
+  restingRaw: number | null;
+  terminal?: 'cancelled' | 'expired';
+}
+
+/**
+ * Reconstruct order lifecycles from DeepBook events
+ * Events of other pools, other balance managers and outside the range are ignored, and an
+ * event seen twice counts once. Orders that never rested in the range (taker orders, or
+ * orders placed before it) have no limit price; taker-only orders count as filled once seen.
+ * @param events Parsed events in any order, e.g. from the manager's transactions and pool-wide fills
+ * @param context Balance manager, pool, time range and coin scalars
+ * @returns Orders and fills oldest first, with totals bought, sold and paid in fees
+ */
+export function buildAccountHistory(events: DeepBookEvent[], context: AccountHistoryContext): AccountHistory {
+  const managerId = normalizeSuiAddress(context.balanceManagerId);
+  const orders = new Map<string, OrderState>();
+  const fills: OrderFill[] = [];
+
+  const stateFor = (orderId: string, isBid: boolean, clientOrderId: unknown): OrderState => {
+    let state = orders.get(orderId);
+    if (!state) {
+      state = {
+        order: {
+          orderId,
+          clientOrderId: clientOrderId === undefined ? null : String(clientOrderId),
+          isBid,
+          price: null,
+          status: 'open',
+          placedInRange: false,
+          restingQuantity: 0,
+          filledQuantity: 0,
+          filledQuote: 0,
+          averagePrice: null,
+          fees: { deep: 0, inputToken: 0 },
+          fills: [],
+          events: [],
+        },
+        restingRaw: null,
+      };
+      orders.set(orderId, state);
+    }
+    return state;
+  };
+
+  for (const event of sortEvents(dedupeEvents(events))) {
+    const data = event.data;
+    const timestampMs = event.timestampMs ?? Number(data.timestamp ?? 0);
+    if (normalizeSuiAddress(String(data.pool_id)) !== normalizeSuiAddress(context.poolId)) {
+      continue;
+    }
+    if (timestampMs < context.from || timestampMs > context.to) {
+      continue;
+    }
+    const base = { txDigest: event.txDigest, eventSeq: event.eventSeq, timestampMs };
+
+    if (event.name === 'OrderFilled') {
+      // A self-matching trade fills two of the account's orders
+      for (const role of ['maker', 'taker'] as const) {
+        if (normalizeSuiAddress(String(data[`${role}_balance_manager_id`])) !== managerId) {
+          continue;
+        }
+
+        const isBid = role === 'taker' ? Boolean(data.taker_is_bid) : !data.taker_is_bid;
+        const feeIsDeep = Boolean(data[`${role}_fee_is_deep`]);
+        const feeScalar = feeIsDeep ? context.scalars.deep : isBid ? context.scalars.quote : context.scalars.base;
+        const state = stateFor(String(data[`${role}_order_id`]), isBid, data[`${role}_client_order_id`]);
+        const fill: OrderFill = {
+          orderId: state.order.orderId,
+          ...base,
+          role,
+          isBid,
+          price: toPrice(data.price, context),
+          baseQuantity: Number(data.base_quantity) / context.scalars.base,
+          quoteQuantity: Number(data.quote_quantity) / context.scalars.quote,
+          fee: Number(data[`${role}_fee`]) / feeScalar,
+          feeIsDeep,
+        };
+
+        fills.push(fill);
+        state.order.fills.push(fill);
+        state.order.events.push({ type: 'filled', ...base, quantity: fill.baseQuantity });
+        if (role === 'maker' && state.restingRaw !== null) {
+          state.restingRaw -= Number(data.base_quantity);
+        }
+      }
+      continue;
+    }
+
+    if (normalizeSuiAddress(String(data.balance_manager_id)) !== managerId) {
+      continue;
+    }
+    const state = stateFor(String(data.order_id), Boolean(data.is_bid), data.client_order_id);
+    let lifecycleEvent: OrderLifecycleEvent;
+
+    switch (event.name) {
+      case 'OrderPlaced':
+        state.order.price = toPrice(data.price, context);
+        state.order.placedInRange = true;
+        state.restingRaw = Number(data.placed_quantity);
+        lifecycleEvent = { type: 'placed', ...base, quantity: state.restingRaw / context.scalars.base };
+        break;
+      case 'OrderModified':
+        state.order.price ??= toPrice(data.price, context);
+        state.restingRaw = Number(data.new_quantity) - Number(data.filled_quantity);
+        lifecycleEvent = {
+          type: 'modified',
+          ...base,
+          quantity: (Number(data.previous_quantity) - Number(data.new_quantity)) / context.scalars.base,
+        };
+        break;
+      case 'OrderCanceled':
+      case 'OrderExpired':
+        state.order.price ??= toPrice(data.price, context);
+        state.terminal = event.name === 'OrderCanceled' ? 'cancelled' : 'expired';
+        state.restingRaw = 0;
+        lifecycleEvent = {
+          type: state.terminal,
+          ...base,
+          quantity: Number(data.base_asset_quantity_canceled) / context.scalars.base,
+        };
+        break;
+      default:
+        continue;
+    }
+    state.order.events.push(lifecycleEvent);
+  }
+
+  const scannedFrom = Math.max(context.scannedFrom ?? context.from, context.from);
+  return {
+    balanceManagerId: managerId,
+    poolKey: context.poolKey,
+    from: context.from,
+    to: context.to,
+    complete: scannedFrom === context.from,
+    scannedFrom,
+    orders: [...orders.values()].map(state => finishOrder(state, context.scalars.base)),
+    fills,
+    totals: sumFills(fills),
+  };
+}
+
+/**
+ * Derive an order's status, fill totals and fees from its replayed events
+ */
+function finishOrder(state: OrderState, baseScalar: number): OrderLifecycle {
+  const { order } = state;
+  order.filledQuantity = order.fills.reduce((sum, fill) => sum + fill.baseQuantity, 0);
+  order.filledQuote = order.fills.reduce((sum, fill) => sum + fill.quoteQuantity, 0);
+  order.averagePrice = order.filledQuantity > 0 ? order.filledQuote / order.filledQuantity : null;
+  for (const fill of order.fills) {
+    if (fill.feeIsDeep) {
+      order.fees.deep += fill.fee;
+    } else {
+      order.fees.inputToken += fill.fee;
+    }
+  }
+
+  const restingRaw = Math.max(state.restingRaw ?? 0, 0);
+  const rested = state.restingRaw !== null || order.fills.some(fill => fill.role === 'maker');
+
+  if (state.terminal) {
+    order.status = state.terminal;
+  } else if (!rested || (state.restingRaw !== null && restingRaw === 0)) {
+    // Taker-only orders leave no event for an unfilled remainder
+    order.status = 'filled';
+  } else {
+    order.status = order.filledQuantity > 0 ? 'partially_filled' : 'open';
+  }
+
+  order.restingQuantity = order.status === 'open' || order.status === 'partially_filled' ? restingRaw / baseScalar : 0;
+  return order;
+}
+
+function sumFills(fills: OrderFill[]): AccountTotals {
+  const totals: AccountTotals = {
+    baseBought: 0,
+    baseSold: 0,
+    quoteSpent: 0,
+    quoteReceived: 0,
+    fees: { deep: 0, base: 0, quote: 0 },
+  };
+
+  for (const fill of fills) {
+    if (fill.isBid) {
+      totals.baseBought += fill.baseQuantity;
+      totals.quoteSpent += fill.quoteQuantity;
+    } else {
+      totals.baseSold += fill.baseQuantity;
+      totals.quoteReceived += fill.quoteQuantity;
+    }
+
+    if (fill.feeIsDeep) {
+      totals.fees.deep += fill.fee;
+    } else if (fill.isBid) {
+      totals.fees.quote += fill.fee;
+    } else {
+      totals.fees.base += fill.fee;
+    }
+  }
+
+  return totals;
+}
+
+function toPrice(raw: unknown, context: AccountHistoryContext): number {
+  return (Number(raw) / FLOAT_SCALAR / context.scalars.quote) * context.scalars.base;
+}
+
+function dedupeEvents(events: DeepBookEvent[]): DeepBookEvent[] {
+  return [...new Map(events.map(event => [`${event.txDigest}:${event.eventSeq}`, event])).values()];
+}
+
+/**
+ * Sort events oldest first, keeping events of one transaction in emission order
+ */
+function sortEvents(events: DeepBookEvent[]): DeepBookEvent[] {
+  return events.sort(
+    (a, b) =>
+      (a.timestampMs ?? 0) - (b.timestampMs ?? 0) ||
+      a.txDigest.localeCompare(b.txDigest) ||
+      Number(a.eventSeq) - Number(b.eventSeq)
+  );
+}
@@ -0,0 +1,194 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Batched devInspect reads
+ * DeepBook read functions are Move calls simulated with devInspect. Reads added to one
+ * transaction run in a single simulation, and each is decoded from its own command's
+ * return values the same way the SDK decodes it.
+ */
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { bcs } from '@mysten/sui/bcs';
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { Level2Ticks, PoolStats, RegistryCoin } from '../types/index.js';
+import { QueryError } from '../types/index.js';
+import { DEEP_SCALAR, FLOAT_SCALAR } from './config.js';
+import type { QueryCache } from './query-cache.js';
+
+export interface BatchedRead<T> {
+  add: (tx: Transaction) => void; // Adds the read; its last command's return values are decoded
+  decode: (returnValues: Uint8Array[]) => T;
+}
+
+// Reads use no gas coin or owned objects, so any sender can simulate them
+const READ_SENDER = normalizeSuiAddress('0x0');
+
+/**
+ * Simulate several reads in one transaction
+ * @param rpc Client that runs the simulation
+ * @param reads Reads to run, in order
+ * @param cache Counts the simulation in its metrics
+ * @returns Decoded results in the order of reads
+ * @throws QueryError when the simulation fails or a read returns nothing
+ */
+export async function runBatchedReads<T extends readonly unknown[]>(
+  rpc: Pick<SuiClient, 'devInspectTransactionBlock'>,
+  reads: { [K in keyof T]: BatchedRead<T[K]> },
+  cache?: QueryCache
+): Promise<T> {
+  const tx = new Transaction();
+  const commands = (reads as readonly BatchedRead<unknown>[]).map(read => {
+    read.add(tx);
+    return tx.getData().commands.length - 1;
+  });
+
+  const result = await rpc.devInspectTransactionBlock({ sender: READ_SENDER, transactionBlock: tx });
+  if (result.error) {
+    throw new QueryError(`Batched read failed: ${result.error}`);
+  }
+  cache?.recordBatch(commands.length);
+
+  return (reads as readonly BatchedRead<unknown>[]).map((read, index) => {
+    const returnValues = result.results?.[commands[index]]?.returnValues;
+    if (!returnValues) {
+      throw new QueryError(`Batched read ${index} returned no values`);
+    }
+    return read.decode(returnValues.map(([bytes]) => new Uint8Array(bytes)));
+  }) as unknown as T;
+}
+
+/**
+ * Read a pool's taker fee, maker fee and DEEP stake required for reduced fees
+ */
+export function poolTradeParamsRead(client: DeepBookClient, poolKey: string): BatchedRead<PoolStats['tradeParams']> {
+  return {
+    add: tx => tx.add(client.deepBook.poolTradeParams(poolKey)),
+    decode: ([takerFee, makerFee, stakeRequired]) => ({
+      takerFee: parseU64(takerFee) / FLOAT_SCALAR,
+      makerFee: parseU64(makerFee) / FLOAT_SCALAR,
+      stakeRequired: parseU64(stakeRequired) / DEEP_SCALAR,
+    }),
+  };
+}
+
+/**
+ * Read a pool's tick size, lot size and minimum size
+ */
+export function poolBookParamsRead(
+  client: DeepBookClient,
+  poolKey: string,
+  baseCoin: RegistryCoin,
+  quoteCoin: RegistryCoin
+): BatchedRead<PoolStats['bookParams']> {
+  return {
+    add: tx => tx.add(client.deepBook.poolBookParams(poolKey)),
+    decode: ([tickSize, lotSize, minSize]) => ({
+      tickSize: (parseU64(tickSize) * baseCoin.scalar) / quoteCoin.scalar / FLOAT_SCALAR,
+      lotSize: parseU64(lotSize) / baseCoin.scalar,
+      minSize: parseU64(minSize) / baseCoin.scalar,
+    }),
+  };
+}
+
+/**
+ * Read the base, quote and DEEP held in a pool's vault
+ */
+export function vaultBalancesRead(
+  client: DeepBookClient,
+  poolKey: string,
+  baseCoin: RegistryCoin,
+  quoteCoin: RegistryCoin
+): BatchedRead<PoolStats['vaultBalances']> {
+  return {
+    add: tx => tx.add(client.deepBook.vaultBalances(poolKey)),
+    decode: ([base, quote, deep]) => ({
+      base: round(parseU64(base) / baseCoin.scalar),
+      quote: round(parseU64(quote) / quoteCoin.scalar),
+      deep: round(parseU64(deep) / DEEP_SCALAR),
+    }),
+  };
+}
+
+/**
+ * Read whether a pool is whitelisted (trades without fees)
+ */
+export function whitelistedRead(client: DeepBookClient, poolKey: string): BatchedRead<boolean> {
+  return {
+    add: tx => tx.add(client.deepBook.whitelisted(poolKey)),
+    decode: ([whitelisted]) => bcs.Bool.parse(whitelisted),
+  };
+}
+
+/**
+ * Read a pool's mid price
+ */
+export function midPriceRead(
+  client: DeepBookClient,
+  poolKey: string,
+  baseCoin: RegistryCoin,
+  quoteCoin: RegistryCoin
+): BatchedRead<number> {
+  return {
+    add: tx => tx.add(client.deepBook.midPrice(poolKey)),
+    decode: ([midPrice]) => round(toPrice(parseU64(midPrice), baseCoin, quoteCoin)),
+  };
+}
+
+/**
+ * Read Level-2 prices and quantities within a number of ticks of the mid price
+ */
+export function level2TicksRead(
+  client: DeepBookClient,
+  poolKey: string,
+  ticks: number,
+  baseCoin: RegistryCoin,
+  quoteCoin: RegistryCoin
+): BatchedRead<Level2Ticks> {
+  const prices = (bytes: Uint8Array) => parseU64Vector(bytes).map(price => round(toPrice(price, baseCoin, quoteCoin)));
+  const quantities = (bytes: Uint8Array) => parseU64Vector(bytes).map(quantity => round(quantity / baseCoin.scalar));
+
+  return {
+    add: tx => tx.add(client.deepBook.getLevel2TicksFromMid(poolKey, ticks)),
+    decode: ([bidPrices, bidQuantities, askPrices, askQuantities]) => ({
+      bid_prices: prices(bidPrices),
+      bid_quantities: quantities(bidQuantities),
+      ask_prices: prices(askPrices),
+      ask_quantities: quantities(askQuantities),
+    }),
+  };
+}
+
+/**
+ * Read a balance manager's balance of one coin
+ */
+export function managerBalanceRead(
+  client: DeepBookClient,
+  managerKey: string,
+  coinKey: string,
+  coin: RegistryCoin
+): BatchedRead<{ coinType: string; balance: number }> {
+  return {
+    add: tx => tx.add(client.balanceManager.checkManagerBalance(managerKey, coinKey)),
+    decode: ([balance]) => ({ coinType: coin.type, balance: round(parseU64(balance) / coin.scalar) }),
+  };
+}
+
+function parseU64(bytes: Uint8Array): number {
+  return Number(bcs.U64.parse(bytes));
+}
+
+function parseU64Vector(bytes: Uint8Array): number[] {
+  return bcs.vector(bcs.U64).parse(bytes).map(Number);
+}
+
+function toPrice(raw: number, baseCoin: RegistryCoin, quoteCoin: RegistryCoin): number {
+  return (raw / FLOAT_SCALAR / quoteCoin.scalar) * baseCoin.scalar;
+}
+
+// The SDK rounds amounts to 9 decimals
+function round(value: number): number {
+  return Number(value.toFixed(9));
+}
@@ -0,0 +1,115 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Trade aggregation
+ * Builds OHLCV candles and volume summaries from normalized trades
+ */
+
+import type { Candle, CandleInterval, Trade, TradeSummary } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { MAX_CANDLE_INTERVAL_MS } from './config.js';
+
+const INTERVAL_UNITS_MS = { m: 60_000, h: 3_600_000, d: 86_400_000 } as const;
+const MIN_CANDLE_INTERVAL_MS = INTERVAL_UNITS_MS.m;
+
+/**
+ * Convert a candle interval to milliseconds
+ * @param interval Milliseconds, or a duration such as 1m, 15m, 4h or 1d
+ * @returns Interval in milliseconds
+ * @throws ValidationError when the interval is malformed or outside 1 minute to 1 day
+ */
+export function parseCandleInterval(interval: CandleInterval): number {
+  let intervalMs = typeof interval === 'number' ? interval : NaN;
+  if (typeof interval === 'string') {
+    const match = /^(\d+)([mhd])$/.exec(interval);
+    if (match) {
+      intervalMs = Number(match[1]) * INTERVAL_UNITS_MS[match[2] as keyof typeof INTERVAL_UNITS_MS];
+    }
+  }
+
+  if (!Number.isInteger(intervalMs) || intervalMs < MIN_CANDLE_INTERVAL_MS || intervalMs > MAX_CANDLE_INTERVAL_MS) {
+    throw new ValidationError(`Candle interval ${interval} must be between 1m and 1d`, { operation: 'buildCandles' });
+  }
+  return intervalMs;
+}
+
+/**
+ * Aggregate trades into OHLCV candles
+ * Candles are aligned to the Unix epoch, so daily candles open at UTC midnight.
+ * Intervals without trades produce no candle.
+ * @param trades Trades in any order
+ * @param interval Candle interval
+ * @returns Candles oldest first
+ */
+export function buildCandles(trades: Trade[], interval: CandleInterval): Candle[] {
+  const intervalMs = parseCandleInterval(interval);
+  const candles: Candle[] = [];
+
+  for (const trade of sortTrades(trades)) {
+    const openTime = Math.floor(trade.timestampMs / intervalMs) * intervalMs;
+    let candle = candles[candles.length - 1];
+
+    if (!candle || candle.openTime !== openTime) {
+      candle = {
+        openTime,
+        closeTime: openTime + intervalMs - 1,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: 0,
+        quoteVolume: 0,
+        vwap: 0,
+        trades: 0,
+      };
+      candles.push(candle);
+    }
+
+    candle.high = Math.max(candle.high, trade.price);
+    candle.low = Math.min(candle.low, trade.price);
+    candle.close = trade.price;
+    candle.volume += trade.baseQuantity;
+    candle.quoteVolume += trade.quoteQuantity;
+    candle.vwap = candle.quoteVolume / candle.volume;
+    candle.trades++;
+  }
+
+  return candles;
+}
+
+/**
+ * Summarize the trades in a time window
+ * @param trades Trades in any order; those outside the window are ignored
+ * @param from Window start, Unix ms (inclusive)
+ * @param to Window end, Unix ms (inclusive)
+ * @returns Trade count, base and quote volume, VWAP and open/high/low/close
+ */
+export function summarizeTrades(trades: Trade[], from: number, to: number): TradeSummary {
+  const window = sortTrades(trades.filter(trade => trade.timestampMs >= from && trade.timestampMs <= to));
+  const volume = window.reduce((sum, trade) => sum + trade.baseQuantity, 0);
+  const quoteVolume = window.reduce((sum, trade) => sum + trade.quoteQuantity, 0);
+  const prices = window.map(trade => trade.price);
+
+  return {
+    from,
+    to,
+    trades: window.length,
+    volume,
+    quoteVolume,
+    vwap: volume > 0 ? quoteVolume / volume : null,
+    open: prices[0] ?? null,
+    high: prices.length > 0 ? prices.reduce((high, price) => Math.max(high, price)) : null,
+    low: prices.length > 0 ? prices.reduce((low, price) => Math.min(low, price)) : null,
+    close: prices[prices.length - 1] ?? null,
+  };
+}
+
+/**
+ * Sort trades oldest first, keeping fills of one transaction in emission order
+ */
+function sortTrades(trades: Trade[]): Trade[] {
+  return [...trades].sort((a, b) =>
+    a.timestampMs - b.timestampMs || a.txDigest.localeCompare(b.txDigest) || Number(a.eventSeq) - Number(b.eventSeq)
+  );
+}
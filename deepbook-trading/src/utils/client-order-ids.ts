@@ -0,0 +1,172 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Client order ID allocation
+ * DeepBook client order IDs are u64 values chosen by the trader. IDs are
+ * allocated per balance manager from a counter that is persisted before any
+ * ID is handed out, so a restart never reuses an ID.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { ClientOrderIdAllocatorOptions, ClientOrderIdStore } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { MAX_U64 } from './config.js';
+import { isErrnoException } from './errors.js';
+
+const DEFAULT_RESERVE_SIZE = 100;
+
+interface CounterState {
+  next: bigint; // Next ID to hand out
+  reserved: bigint; // Highest ID covered by the last store write
+}
+
+/**
+ * Allocates monotonic u64 client order IDs per balance manager
+ * IDs are reserved in blocks: the store records the top of the current block,
+ * and after a restart allocation resumes above it. Unused IDs in a block are skipped.
+ */
+export class ClientOrderIdAllocator {
+  private counters = new Map<string, CounterState>();
+  private pending = new Map<string, Promise<unknown>>();
+  private initialValue: bigint;
+  private reserveSize: bigint;
+
+  constructor(
+    private store: ClientOrderIdStore = new MemoryClientOrderIdStore(),
+    options: ClientOrderIdAllocatorOptions = {}
+  ) {
+    this.initialValue = options.initialValue ?? 1n;
+    this.reserveSize = BigInt(options.reserveSize ?? DEFAULT_RESERVE_SIZE);
+  }
+
+  /**
+   * Allocate the next client order ID for a balance manager
+   * @param balanceManagerKey Balance manager key
+   * @returns u64 client order ID as a decimal string
+   */
+  async next(balanceManagerKey: string): Promise<string> {
+    const [id] = await this.nextBatch(balanceManagerKey, 1);
+    return id;
+  }
+
+  /**
+   * Allocate consecutive client order IDs for a balance manager
+   * @param balanceManagerKey Balance manager key
+   * @param count Number of IDs
+   * @returns u64 client order IDs as decimal strings, in ascending order
+   */
+  async nextBatch(balanceManagerKey: string, count: number): Promise<string[]> {
+    // Serialize allocations per balance manager so concurrent callers never share an ID
+    const previous = this.pending.get(balanceManagerKey) ?? Promise.resolve();
+    const allocation = previous.catch(() => undefined).then(() => this.allocate(balanceManagerKey, count));
+    this.pending.set(balanceManagerKey, allocation);
+    return allocation;
+  }
+
+  private async allocate(balanceManagerKey: string, count: number): Promise<string[]> {
+    let state = this.counters.get(balanceManagerKey);
+    if (!state) {
+      const stored = await this.store.load(balanceManagerKey);
+      const next = stored !== undefined ? stored + 1n : this.initialValue;
+      state = { next, reserved: next - 1n };
+      this.counters.set(balanceManagerKey, state);
+    }
+
+    const last = state.next + BigInt(count) - 1n;
+    if (last > MAX_U64) {
+      throw new ValidationError(`Client order IDs exhausted for ${balanceManagerKey}`, {
+        operation: 'allocateClientOrderId',
+        balanceManagerKey,
+      });
+    }
+
+    if (last > state.reserved) {
+      const reserved = last + this.reserveSize - 1n;
+      await this.store.save(balanceManagerKey, reserved > MAX_U64 ? MAX_U64 : reserved);
+      state.reserved = reserved > MAX_U64 ? MAX_U64 : reserved;
+    }
+
+    const ids: string[] = [];
+    for (let id = state.next; id <= last; id++) {
+      ids.push(id.toString());
+    }
+    state.next = last + 1n;
+
+    return ids;
+  }
+}
+
+/**
+ * Counter store that lives only as long as the process
+ */
+export class MemoryClientOrderIdStore implements ClientOrderIdStore {
+  private values = new Map<string, bigint>();
+
+  async load(balanceManagerKey: string): Promise<bigint | undefined> {
+    return this.values.get(balanceManagerKey);
+  }
+
+  async save(balanceManagerKey: string, value: bigint): Promise<void> {
+    this.values.set(balanceManagerKey, value);
+  }
+}
+
+/**
+ * Counter store backed by a JSON file mapping balance manager keys to counters
+ * Writes go to a temporary file that is renamed over the original, so a crash
+ * mid-write leaves the previous counters intact.
+ */
+export class FileClientOrderIdStore implements ClientOrderIdStore {
+  // Saves for different balance managers share the file, so they run one at a time
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async load(balanceManagerKey: string): Promise<bigint | undefined> {
+    const value = (await this.read())[balanceManagerKey];
+    return value !== undefined ? BigInt(value) : undefined;
+  }
+
+  async save(balanceManagerKey: string, value: bigint): Promise<void> {
+    const write = this.writes.catch(() => undefined).then(async () => {
+      const values = await this.read();
+      values[balanceManagerKey] = value.toString();
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(values, null, 2)}\n`);
+      await rename(tmpPath, this.path);
+    });
+    this.writes = write;
+    return write;
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if (isErrnoException(error) && error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+    return JSON.parse(raw);
+  }
+}
+
+/**
+ * Normalize a caller-supplied client order ID
+ * @param clientOrderId Decimal string or bigint
+ * @returns u64 decimal string
+ * @throws ValidationError when the ID is not a u64
+ */
+export function toClientOrderId(clientOrderId: string | bigint): string {
+  const text = clientOrderId.toString();
+  if (!/^\d+$/.test(text) || BigInt(text) > MAX_U64) {
+    throw new ValidationError(`Client order ID ${text} must be a u64`);
+  }
+  return BigInt(text).toString();
+}
@@ -0,0 +1,79 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Coin handling helpers for transaction building
+ */
+
+import type { DeepBookConfig } from '@mysten/deepbook-v3';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { SwapSettlementOptions } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+
+/**
+ * Transfer coins produced in a transaction back to its sender
+ * DeepBook swaps return the output, the unfilled input and the unused DEEP as
+ * coins that must be consumed before the transaction ends.
+ * @param tx Transaction with a sender set (the SDK builders set the client address)
+ * @param coins Coin results to transfer
+ * @throws ValidationError when the transaction has no sender
+ */
+export function returnToSender(tx: Transaction, coins: readonly TransactionObjectArgument[]): void {
+  const sender = tx.getData().sender;
+  if (!sender) {
+    throw new ValidationError('Transaction has no sender to return coins to');
+  }
+  tx.transferObjects([...coins], sender);
+}
+
+/**
+ * Deposit coins produced in a transaction into a balance manager
+ * The transaction sender must own the balance manager.
+ * @param tx Transaction
+ * @param config DeepBook config with the package, balance manager and coin entries
+ * @param balanceManagerKey Balance manager key
+ * @param coins Coin results with their coin keys
+ */
+export function depositCoins(
+  tx: Transaction,
+  config: DeepBookConfig,
+  balanceManagerKey: string,
+  coins: Array<{ coinKey: string; coin: TransactionObjectArgument }>
+): void {
+  const manager = config.getBalanceManager(balanceManagerKey);
+  for (const { coinKey, coin } of coins) {
+    tx.moveCall({
+      target: `${config.DEEPBOOK_PACKAGE_ID}::balance_manager::deposit`,
+      arguments: [tx.object(manager.address), coin],
+      typeArguments: [config.getCoin(coinKey).type],
+    });
+  }
+}
+
+/**
+ * Send swap outputs to the recipient, the sender, or into a balance manager
+ * @param tx Transaction
+ * @param coins Coin results with their coin keys
+ * @param options Recipient or balance manager to deposit into
+ * @param config DeepBook config, required when depositing
+ * @throws ValidationError when depositing without a config
+ */
+export function settleSwapOutputs(
+  tx: Transaction,
+  coins: Array<{ coinKey: string; coin: TransactionObjectArgument }>,
+  options: SwapSettlementOptions,
+  config?: DeepBookConfig
+): void {
+  if (options.depositInto) {
+    if (!config) {
+      throw new ValidationError(`Depositing into ${options.depositInto} needs a DeepBook config`, {
+        balanceManagerKey: options.depositInto,
+      });
+    }
+    depositCoins(tx, config, options.depositInto, coins);
+  } else if (options.recipient) {
+    tx.transferObjects(coins.map(({ coin }) => coin), options.recipient);
+  } else {
+    returnToSender(tx, coins.map(({ coin }) => coin));
+  }
+}
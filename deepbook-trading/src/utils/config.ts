@@ -5,13 +5,48 @@
  * Configuration constants for DeepBook trading
  */
 
+import { OrderType, SelfMatchingOptions } from '@mysten/deepbook-v3';
+import type { EnvironmentConfig } from '../types/index.js';
+
 // Scalar values for token amounts
-export const DEEP_SCALAR = 1_000_000_000; // 9 decimals
+export const DEEP_SCALAR = 1_000_000; // DEEP has 6 decimals
 export const FLOAT_SCALAR = 1_000_000_000; // 9 decimal precision for floats
 
 // Transaction constants
 export const GAS_BUDGET = 50_000_000; // 50 million MIST
-export const MAX_TIMESTAMP = 18_446_744_073_709_551_615; // Max u64 timestamp
+export const MAX_TIMESTAMP = 1_844_674_407_370_955_161n; // Expiration for good-till-cancelled orders (ms), as used on-chain
+export const MAX_U64 = 18_446_744_073_709_551_615n;
+export const DEFAULT_ORDER_DURATION_MS = 24 * 60 * 60 * 1000; // Resting orders expire after 24 hours by default
+export const MAX_PTB_COMMANDS = 1024; // Protocol limit on commands in one programmable transaction
+export const MAX_CANCEL_BATCH_SIZE = 100; // Order IDs per cancel_orders call, well under the pure argument size limit
+
+// Fee constants
+export const FEE_PENALTY_MULTIPLIER = 1.25; // Fees paid in the input token cost 25% more than in DEEP
+export const SWAP_DEEP_BUFFER = 0.1; // Extra DEEP sent with swaps to absorb price movement; the rest is returned
+export const FEE_ESTIMATE_BOOK_DEPTH = 20; // Book levels read to estimate how much of a limit order crosses
+export const DEFAULT_MAX_HOPS = 3; // Pools a routed swap may pass through
+
+// Order book analytics constants
+export const ORDER_BOOK_IMBALANCE_LEVELS = 5; // Top levels per side compared in the book imbalance
+
+// Trade history constants
+export const TRADE_PAGE_SIZE = 100; // Trades per getTrades page
+export const TRADE_QUERY_MAX_EVENT_PAGES = 10; // Event pages scanned per getTrades call, since other pools' fills are skipped
+export const TRADE_SYNC_MAX_PAGES = 20; // getTrades pages fetched per trade history sync call
+export const MAX_CANDLE_INTERVAL_MS = 24 * 60 * 60 * 1000; // Candles range from 1 minute to 1 day
+export const TRADE_SUMMARY_WINDOW_MS = 24 * 60 * 60 * 1000; // Window of trade summaries, and of the first trade sync
+export const ACCOUNT_HISTORY_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000; // Default range of getAccountHistory
+export const ACCOUNT_HISTORY_MAX_EVENT_PAGES = 100; // OrderFilled and OrderExpired pages getAccountHistory scans per event type
+export const EVENT_POLL_INTERVAL_MS = 2_000; // Wait between event stream polls once caught up
+export const EVENT_PAGE_SIZE = 50; // Events per event stream query
+export const POOL_PARAMS_CACHE_TTL_MS = 5 * 60 * 1000; // Lifetime of cached tick size, lot size and whitelist status
+
+// Order book replica constants
+export const REPLICA_SNAPSHOT_DEPTH = 100; // Levels per side read in a replica snapshot
+export const REPLICA_MAX_CATCH_UP_CHECKPOINTS = 20; // Beyond this, a new snapshot is cheaper than replaying checkpoints
+export const REPLICA_MAX_CATCH_UP_PAGES = 10; // Event pages per type a replica sync reads before taking a new snapshot instead
+export const REPLICA_RESYNC_INTERVAL_MS = 60_000; // Re-snapshot periodically to drop silently expired orders
+export const REPLICA_SNAPSHOT_ATTEMPTS = 3; // Snapshots taken while the pool's events move before keeping the last
 
 // Pool creation constants
 export const POOL_CREATION_FEE = 100_000_000; // 100 SUI for pool creation
@@ -20,36 +55,24 @@ export const POOL_CREATION_FEE = 100_000_000; // 100 SUI for pool creation
 export const PRICE_INFO_OBJECT_MAX_AGE = 5 * 60 * 1000; // 5 minutes in milliseconds
 
 // Default environment configurations
-export const DEFAULT_ENVIRONMENTS = {
+// Pyth/Wormhole state objects are only deployed on mainnet and testnet
+export const DEFAULT_ENVIRONMENTS: Record<string, EnvironmentConfig> = {
   mainnet: {
     rpcUrl: 'https://fullnode.mainnet.sui.io:443',
-    wormholeStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
-    pythStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
+    wormholeStateId: '0xaeab97f96cf9877fee2883315d459552b2b921edc16d7ceac6eab944dd88919c',
+    pythStateId: '0x1f9310238ee9298fb703c3419030b35b22bb1cc37113e3bb5007c99aec79e5b8',
   },
   testnet: {
     rpcUrl: 'https://fullnode.testnet.sui.io:443',
-    wormholeStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
-    pythStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
+    wormholeStateId: '0x31358d198147da50db32eda2562951d53973a0c0ad5ed738e9b17d88b213d790',
+    pythStateId: '0x243759059f4c3111179da5878c12f68d612c21a8d54d85edc86164bb18be1c7c',
   },
   devnet: {
     rpcUrl: 'https://fullnode.devnet.sui.io:443',
-    wormholeStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
-    pythStateId: '0xceabff0f4e2f3bc6f5d5c27b6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b5c6b',
   },
 };
 
-// Order types
-export const ORDER_TYPES = {
-  LIMIT: 'limit',
-  MARKET: 'market',
-  IOC: 'ioc', // Immediate or Cancel
-  FOK: 'fok', // Fill or Kill
-} as const;
-
-// Self-matching options
-export const SELF_MATCHING_OPTIONS = {
-  CANCEL_MAKER: 'cancel_maker',
-  CANCEL_TAKER: 'cancel_taker',
-  BOTH: 'both',
-  NONE: 'none',
-} as const;
\ No newline at end of file
+// Order defaults, matching the on-chain defaults (see the SDK OrderType and SelfMatchingOptions enums)
+export const DEFAULT_ORDER_TYPE = OrderType.NO_RESTRICTION;
+export const DEFAULT_SELF_MATCHING_OPTION = SelfMatchingOptions.SELF_MATCHING_ALLOWED;
+export const DEFAULT_PAY_WITH_DEEP = true;
\ No newline at end of file
@@ -0,0 +1,57 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Error wrapping helpers
+ * Converts errors thrown by the SDK and RPC into the DeepBookTradingError family
+ */
+
+import type { ErrorDetails } from '../types/index.js';
+import { DeepBookTradingError, QueryError, TransactionError } from '../types/index.js';
+import { decodeMoveAbort } from './move-abort.js';
+
+/**
+ * Wrap a failed query
+ * Errors already in the DeepBookTradingError family keep their class and code and
+ * only gain missing context; Move aborts are decoded into their typed error.
+ * @param error Original error
+ * @param message Description of what failed
+ * @param details Operation name and pool/manager/coin keys
+ * @returns Error to throw
+ */
+export function toQueryError(error: unknown, message: string, details: ErrorDetails): DeepBookTradingError {
+  return wrapError(error, details) ?? new QueryError(`${message}: ${errorMessage(error)}`, { ...details, cause: error });
+}
+
+/**
+ * Wrap a failure while building a transaction
+ * @param error Original error
+ * @param message Description of what failed
+ * @param details Operation name and pool/manager/coin keys
+ * @returns Error to throw
+ */
+export function toTransactionError(error: unknown, message: string, details: ErrorDetails): DeepBookTradingError {
+  return wrapError(error, details) ??
+    new TransactionError(`${message}: ${errorMessage(error)}`, undefined, { ...details, cause: error });
+}
+
+/**
+ * Check whether a thrown value is a Node.js system error, such as a failed file read
+ */
+export function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && 'code' in error;
+}
+
+/**
+ * Get the message of an unknown thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function wrapError(error: unknown, details: ErrorDetails): DeepBookTradingError | null {
+  if (error instanceof DeepBookTradingError) {
+    return error.addDetails(details);
+  }
+  return decodeMoveAbort(error, undefined, details);
+}
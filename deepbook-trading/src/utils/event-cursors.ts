@@ -0,0 +1,73 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Event cursor storage
+ * Event streams save the ID of each event once it has been handled, so a restarted
+ * stream resumes with the next event.
+ */
+
+import type { EventId } from '@mysten/sui/client';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { EventCursorStore } from '../types/index.js';
+import { isErrnoException } from './errors.js';
+
+/**
+ * Cursor store that lives only as long as the process
+ */
+export class MemoryEventCursorStore implements EventCursorStore {
+  private cursors = new Map<string, EventId>();
+
+  async load(key: string): Promise<EventId | undefined> {
+    return this.cursors.get(key);
+  }
+
+  async save(key: string, cursor: EventId): Promise<void> {
+    this.cursors.set(key, cursor);
+  }
+}
+
+/**
+ * Cursor store backed by a JSON file mapping cursor keys to event IDs
+ * Writes go to a temporary file that is renamed over the original, so a crash
+ * mid-write leaves the previous cursors intact.
+ */
+export class FileEventCursorStore implements EventCursorStore {
+  private cursors?: Promise<Record<string, EventId>>;
+  // Saves for different streams share the file, so they run one at a time
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async load(key: string): Promise<EventId | undefined> {
+    return (await this.read())[key];
+  }
+
+  async save(key: string, cursor: EventId): Promise<void> {
+    const write = this.writes.catch(() => undefined).then(async () => {
+      const cursors = await this.read();
+      cursors[key] = cursor;
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(cursors, null, 2)}\n`);
+      await rename(tmpPath, this.path);
+    });
+    this.writes = write;
+    return write;
+  }
+
+  private read(): Promise<Record<string, EventId>> {
+    this.cursors ??= readFile(this.path, 'utf8').then(
+      raw => JSON.parse(raw),
+      (error: unknown) => {
+        if (isErrnoException(error) && error.code === 'ENOENT') {
+          return {};
+        }
+        throw error;
+      }
+    );
+    return this.cursors;
+  }
+}
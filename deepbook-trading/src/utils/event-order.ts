@@ -0,0 +1,81 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * On-chain execution order of events
+ * Event IDs carry no checkpoint or transaction index, and all transactions of a checkpoint share
+ * its timestamp, so events queried type by type are merged by looking up where transactions that
+ * share a timestamp sit in their checkpoint.
+ */
+
+import type { SuiEvent } from '@mysten/sui/client';
+import type { EventOrderRpc } from '../types/index.js';
+
+// multiGetTransactionBlocks accepts at most 50 digests per request
+const MULTI_GET_BATCH_SIZE = 50;
+
+interface TransactionPosition {
+  checkpoint: number;
+  index: number; // Position of the transaction within its checkpoint
+}
+
+/**
+ * Sort events into execution order: checkpoint, transaction within the checkpoint, then event sequence
+ * Timestamps already order checkpoints, so only transactions sharing a timestamp with another
+ * transaction are looked up, with one getCheckpoint call per checkpoint involved.
+ * @param rpc Client to look up transactions and checkpoints
+ * @param events Events in any order; the array is sorted in place
+ * @returns The events, oldest first
+ */
+export async function sortByExecution(rpc: EventOrderRpc, events: SuiEvent[]): Promise<SuiEvent[]> {
+  const digestsByTime = new Map<number, Set<string>>();
+  for (const event of events) {
+    const digests = digestsByTime.get(timestampOf(event)) ?? new Set<string>();
+    digests.add(event.id.txDigest);
+    digestsByTime.set(timestampOf(event), digests);
+  }
+  const shared = [...digestsByTime.values()].filter(digests => digests.size > 1).flatMap(digests => [...digests]);
+  const positions = await transactionPositions(rpc, shared);
+
+  return events.sort((a, b) => {
+    const [x, y] = [positions.get(a.id.txDigest), positions.get(b.id.txDigest)];
+    return (
+      timestampOf(a) - timestampOf(b) ||
+      (x && y ? x.checkpoint - y.checkpoint || x.index - y.index : 0) ||
+      a.id.txDigest.localeCompare(b.id.txDigest) ||
+      Number(a.id.eventSeq) - Number(b.id.eventSeq)
+    );
+  });
+}
+
+/**
+ * Helper to find the checkpoint and position of each transaction
+ */
+async function transactionPositions(rpc: EventOrderRpc, digests: string[]): Promise<Map<string, TransactionPosition>> {
+  const checkpoints = new Map<string, string>();
+  for (let i = 0; i < digests.length; i += MULTI_GET_BATCH_SIZE) {
+    const responses = await rpc.multiGetTransactionBlocks({ digests: digests.slice(i, i + MULTI_GET_BATCH_SIZE) });
+    for (const response of responses) {
+      if (response.checkpoint) {
+        checkpoints.set(response.digest, response.checkpoint);
+      }
+    }
+  }
+
+  const positions = new Map<string, TransactionPosition>();
+  await Promise.all(
+    [...new Set(checkpoints.values())].map(async checkpoint => {
+      const { transactions } = await rpc.getCheckpoint({ id: checkpoint });
+      transactions.forEach((digest, index) => {
+        if (checkpoints.get(digest) === checkpoint) {
+          positions.set(digest, { checkpoint: Number(checkpoint), index });
+        }
+      });
+    })
+  );
+  return positions;
+}
+
+function timestampOf(event: SuiEvent): number {
+  return Number(event.timestampMs ?? 0);
+}
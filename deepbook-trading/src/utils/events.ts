@@ -0,0 +1,102 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * DeepBook event parsing helpers
+ */
+
+import type { SuiEvent } from '@mysten/sui/client';
+import { parseStructTag } from '@mysten/sui/utils';
+import type { DeepBookEvent, OrderFilledEventData, RegistryCoin, Trade } from '../types/index.js';
+import { FLOAT_SCALAR } from './config.js';
+
+// Modules of the DeepBook V3 package that emit events
+export const DEEPBOOK_EVENT_MODULES = [
+  'pool',
+  'order_info',
+  'order',
+  'balance_manager',
+  'vault',
+  'state',
+  'history',
+  'governance',
+  'registry',
+] as const;
+
+// Events that change orders and the book, as module::name
+export const ORDER_EVENTS = [
+  'order_info::OrderPlaced',
+  'order_info::OrderFilled',
+  'order::OrderModified',
+  'order::OrderCanceled',
+  'order_info::OrderExpired',
+];
+
+/**
+ * Parse the DeepBook events out of a transaction's event list
+ * @param events Raw Sui events
+ * @param packageIds Optional DeepBook package IDs to match; defaults to matching by module name only
+ * @returns Parsed DeepBook events in emission order
+ */
+export function parseDeepBookEvents(events: SuiEvent[] = [], packageIds?: string[]): DeepBookEvent[] {
+  const parsed: DeepBookEvent[] = [];
+
+  for (const event of events) {
+    const tag = parseStructTag(event.type);
+    if (!(DEEPBOOK_EVENT_MODULES as readonly string[]).includes(tag.module)) {
+      continue;
+    }
+    if (packageIds && !packageIds.includes(tag.address)) {
+      continue;
+    }
+
+    parsed.push({
+      type: event.type,
+      module: tag.module,
+      name: tag.name,
+      sender: event.sender,
+      txDigest: event.id.txDigest,
+      eventSeq: event.id.eventSeq,
+      timestampMs: event.timestampMs ? Number(event.timestampMs) : undefined,
+      data: (event.parsedJson || {}) as Record<string, unknown>,
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Filter parsed events by name
+ * @param events Parsed DeepBook events
+ * @param names Event names to keep (e.g. OrderPlaced, OrderFilled)
+ */
+export function filterEvents(events: DeepBookEvent[], ...names: string[]): DeepBookEvent[] {
+  return events.filter(event => names.includes(event.name));
+}
+
+/**
+ * Normalize an OrderFilled event by the pool's scalars
+ * @param poolKey Pool the fill belongs to
+ * @param event Raw OrderFilled event
+ * @param baseCoin Pool's base coin
+ * @param quoteCoin Pool's quote coin
+ * @returns Trade with price and quantities in whole coins
+ */
+export function toTrade(poolKey: string, event: SuiEvent, baseCoin: RegistryCoin, quoteCoin: RegistryCoin): Trade {
+  const data = event.parsedJson as OrderFilledEventData;
+
+  return {
+    poolKey,
+    txDigest: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+    timestampMs: Number(event.timestampMs ?? data.timestamp),
+    price: (Number(data.price) / FLOAT_SCALAR / quoteCoin.scalar) * baseCoin.scalar,
+    baseQuantity: Number(data.base_quantity) / baseCoin.scalar,
+    quoteQuantity: Number(data.quote_quantity) / quoteCoin.scalar,
+    takerSide: data.taker_is_bid ? 'buy' : 'sell',
+    makerOrderId: String(data.maker_order_id),
+    takerOrderId: String(data.taker_order_id),
+    makerBalanceManagerId: data.maker_balance_manager_id,
+    takerBalanceManagerId: data.taker_balance_manager_id,
+  };
+}
@@ -0,0 +1,60 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Order expiration helpers
+ * DeepBook expirations are Unix timestamps in milliseconds; MAX_TIMESTAMP means
+ * the order never expires
+ */
+
+import type { OrderExpiration } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { MAX_TIMESTAMP } from './config.js';
+
+// Timestamps below this (Sep 2001 in ms) are almost certainly seconds
+const MIN_MILLISECOND_TIMESTAMP = 1_000_000_000_000;
+
+/**
+ * Convert an expiration into the on-chain millisecond timestamp
+ * @param expiration 'GTC', absolute ms timestamp or Date, or { durationMs } from now
+ * @param now Current time in milliseconds
+ * @returns Expiration timestamp in milliseconds
+ * @throws ValidationError for expirations in the past, non-integer or second-based timestamps
+ */
+export function resolveExpiration(expiration: OrderExpiration, now: number = Date.now()): bigint {
+  if (expiration === 'GTC') {
+    return MAX_TIMESTAMP;
+  }
+
+  let timestamp: number;
+  if (expiration instanceof Date) {
+    timestamp = expiration.getTime();
+  } else if (typeof expiration === 'number') {
+    if (expiration < MIN_MILLISECOND_TIMESTAMP) {
+      throw new ValidationError(`Expiration ${expiration} looks like seconds; pass a millisecond timestamp`);
+    }
+    timestamp = expiration;
+  } else {
+    if (!Number.isFinite(expiration.durationMs) || expiration.durationMs <= 0) {
+      throw new ValidationError(`Expiration duration ${expiration.durationMs}ms must be positive`);
+    }
+    timestamp = now + expiration.durationMs;
+  }
+
+  if (!Number.isSafeInteger(timestamp)) {
+    throw new ValidationError(`Expiration ${timestamp} is not a valid millisecond timestamp`);
+  }
+  if (timestamp <= now) {
+    throw new ValidationError(`Expiration ${new Date(timestamp).toISOString()} is in the past`);
+  }
+
+  return BigInt(timestamp);
+}
+
+/**
+ * Check whether an on-chain expiration means good-till-cancelled
+ * @param timestamp Expiration timestamp in milliseconds
+ */
+export function isGoodTillCancelled(timestamp: bigint | number | string): boolean {
+  return BigInt(timestamp) >= MAX_TIMESTAMP;
+}
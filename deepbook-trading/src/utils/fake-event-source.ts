@@ -0,0 +1,149 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * In-memory event source for testing event streams without a network
+ */
+
+import type {
+  Checkpoint,
+  EventId,
+  GetCheckpointParams,
+  GetObjectParams,
+  MultiGetTransactionBlocksParams,
+  PaginatedEvents,
+  QueryEventsParams,
+  SuiEvent,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+} from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { EventStreamRpc } from '../types/index.js';
+import { QueryError } from '../types/index.js';
+
+export interface FakeEventInput {
+  name: string; // e.g. OrderFilled
+  module?: string; // Defaults to order_info
+  data: Record<string, unknown>; // parsedJson of the event
+  timestampMs?: number; // Defaults to now
+}
+
+/**
+ * Event source that serves events emitted by the test
+ * Every object it is asked about is reported as a DeepBook pool of packageId, so
+ * streams resolve their event types against it. Transactions emitted with the same
+ * timestamp share a checkpoint, numbered by that timestamp, in the order they were emitted.
+ */
+export class FakeEventSource implements EventStreamRpc {
+  private events: SuiEvent[] = [];
+  private transactions = 0;
+  private checkpoints = new Map<string, string[]>(); // Checkpoint to its transaction digests
+
+  constructor(readonly packageId: string = normalizeSuiAddress('0xdeeb')) {}
+
+  /**
+   * Append events as if emitted by one transaction
+   * @param inputs Events in emission order
+   * @returns The stored Sui events
+   */
+  emit(...inputs: FakeEventInput[]): SuiEvent[] {
+    return this.emitTransaction(`fake-tx-${++this.transactions}`, ...inputs);
+  }
+
+  /**
+   * Append events as if emitted by one transaction with a chosen digest
+   * @param txDigest Transaction digest, e.g. to make digest order differ from execution order
+   * @param inputs Events in emission order; the first one's timestamp places the transaction in a checkpoint
+   * @returns The stored Sui events
+   */
+  emitTransaction(txDigest: string, ...inputs: FakeEventInput[]): SuiEvent[] {
+    const events = inputs.map((input, index): SuiEvent => ({
+      id: { txDigest, eventSeq: String(index) },
+      packageId: this.packageId,
+      transactionModule: input.module ?? 'order_info',
+      sender: normalizeSuiAddress('0x0'),
+      type: `${this.packageId}::${input.module ?? 'order_info'}::${input.name}`,
+      parsedJson: input.data,
+      bcs: '',
+      bcsEncoding: 'base64',
+      timestampMs: String(input.timestampMs ?? Date.now()),
+    }));
+    this.events.push(...events);
+
+    const checkpoint = events[0]?.timestampMs ?? String(Date.now());
+    this.checkpoints.set(checkpoint, [...(this.checkpoints.get(checkpoint) ?? []), txDigest]);
+    return events;
+  }
+
+  async queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    const { query, cursor, limit = 50, order = 'ascending' } = input;
+    const eventType = 'MoveEventType' in query ? query.MoveEventType : undefined;
+
+    let matching = this.events.filter(event => eventType === undefined || event.type === eventType);
+    if (order === 'descending') {
+      matching = matching.reverse();
+    }
+
+    let start = 0;
+    if (cursor) {
+      const index = matching.findIndex(event => sameEvent(event.id, cursor));
+      if (index === -1) {
+        throw new QueryError(`Unknown event cursor ${cursor.txDigest}:${cursor.eventSeq}`);
+      }
+      start = index + 1;
+    }
+
+    const data = matching.slice(start, start + (limit ?? 50));
+    return {
+      data,
+      nextCursor: data.length > 0 ? data[data.length - 1].id : (cursor ?? null),
+      hasNextPage: start + data.length < matching.length,
+    };
+  }
+
+  async multiGetTransactionBlocks(input: MultiGetTransactionBlocksParams): Promise<SuiTransactionBlockResponse[]> {
+    return input.digests.map(digest => ({
+      digest,
+      checkpoint: [...this.checkpoints].find(([, digests]) => digests.includes(digest))?.[0] ?? null,
+    }));
+  }
+
+  async getCheckpoint(input: GetCheckpointParams): Promise<Checkpoint> {
+    const transactions = this.checkpoints.get(input.id);
+    if (!transactions) {
+      throw new QueryError(`Unknown checkpoint ${input.id}`);
+    }
+
+    return {
+      checkpointCommitments: [],
+      digest: `fake-checkpoint-${input.id}`,
+      epoch: '0',
+      epochRollingGasCostSummary: {
+        computationCost: '0',
+        storageCost: '0',
+        storageRebate: '0',
+        nonRefundableStorageFee: '0',
+      },
+      networkTotalTransactions: String(this.transactions),
+      sequenceNumber: input.id,
+      timestampMs: input.id,
+      transactions,
+      validatorSignature: '',
+    };
+  }
+
+  async getObject(input: GetObjectParams): Promise<SuiObjectResponse> {
+    return {
+      data: {
+        objectId: input.id,
+        version: '1',
+        digest: 'fake',
+        type: `${this.packageId}::pool::Pool<0x2::sui::SUI, 0x2::sui::SUI>`,
+      },
+    };
+  }
+}
+
+function sameEvent(a: EventId, b: EventId): boolean {
+  return a.txDigest === b.txDigest && a.eventSeq === b.eventSeq;
+}
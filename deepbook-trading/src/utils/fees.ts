@@ -0,0 +1,98 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Trading fee estimation
+ * Mirrors DeepBook's fee rules: taker fees on the quantity that fills immediately,
+ * maker fees on the quantity left resting (charged at placement), no fees in
+ * whitelisted pools, the taker fee halved for staked accounts and a penalty for
+ * paying in the input token instead of DEEP
+ */
+
+import type { BookLevel, FeeAmounts, FeeEstimate, FeeEstimateInput, FeeMarketData } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { FEE_PENALTY_MULTIPLIER } from './config.js';
+
+/**
+ * Estimate the fees of an order
+ * @param order Price, base quantity, side and the part expected to fill as taker
+ * @param market Pool fee parameters, whitelisting, account stake and DEEP price
+ * @returns Taker, maker and total fees in DEEP and in the input token
+ * @throws ValidationError when the pool has no DEEP price
+ */
+export function estimateFees(order: FeeEstimateInput, market: FeeMarketData): FeeEstimate {
+  const { price, quantity, isBid } = order;
+  const takerQuantity = Math.min(Math.max(order.takerQuantity, 0), quantity);
+  const makerQuantity = quantity - takerQuantity;
+
+  const stakeDiscount = !market.whitelisted && market.activeStake >= market.stakeRequired;
+  const takerFeeRate = market.whitelisted ? 0 : market.takerFee * (stakeDiscount ? 0.5 : 1);
+  const makerFeeRate = market.whitelisted ? 0 : market.makerFee;
+
+  const taker = feeAmounts(takerQuantity, price, isBid, takerFeeRate, market);
+  const maker = feeAmounts(makerQuantity, price, isBid, makerFeeRate, market);
+
+  return {
+    inputAsset: isBid ? 'quote' : 'base',
+    whitelisted: market.whitelisted,
+    stakeDiscount,
+    takerFeeRate,
+    makerFeeRate,
+    takerQuantity,
+    makerQuantity,
+    taker,
+    maker,
+    total: { deep: taker.deep + maker.deep, inputToken: taker.inputToken + maker.inputToken },
+  };
+}
+
+/**
+ * Base quantity of an order that would cross the opposite side of the book
+ * @param order Limit price, base quantity and side
+ * @param levels Opposite side levels, best price first (asks for a bid, bids for an ask)
+ * @returns Quantity expected to fill immediately, capped at the order quantity
+ */
+export function crossingQuantity(
+  order: { price: number; quantity: number; isBid: boolean },
+  levels: BookLevel[]
+): number {
+  let filled = 0;
+  for (const level of levels) {
+    const crosses = order.isBid ? level.price <= order.price : level.price >= order.price;
+    if (!crosses || filled >= order.quantity) {
+      break;
+    }
+    filled += Math.min(level.quantity, order.quantity - filled);
+  }
+  return filled;
+}
+
+/**
+ * Fee on a base quantity in DEEP and in the input token
+ */
+function feeAmounts(
+  quantity: number,
+  price: number,
+  isBid: boolean,
+  rate: number,
+  market: FeeMarketData
+): FeeAmounts {
+  if (quantity === 0 || rate === 0) {
+    return { deep: 0, inputToken: 0 };
+  }
+
+  const quoteQuantity = quantity * price;
+  let deepQuantity: number;
+  if (market.deepPerBase !== undefined) {
+    deepQuantity = quantity * market.deepPerBase;
+  } else if (market.deepPerQuote !== undefined) {
+    deepQuantity = quoteQuantity * market.deepPerQuote;
+  } else {
+    throw new ValidationError('Pool has no DEEP price to convert fees');
+  }
+
+  return {
+    deep: deepQuantity * rate,
+    inputToken: (isBid ? quoteQuantity : quantity) * rate * FEE_PENALTY_MULTIPLIER,
+  };
+}
@@ -0,0 +1,68 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Move abort parsing helpers
+ */
+
+import type { ErrorDetails, MoveAbortInfo } from '../types/index.js';
+import { MoveAbortError } from '../types/index.js';
+import { lookupAbortCode } from './abort-codes.js';
+
+// Matches the MoveAbort status strings returned by execution, dry run and devInspect
+const MOVE_ABORT_PATTERN =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (0x)?([0-9a-fA-F]+), name: Identifier\("([^"]+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("([^"]+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/;
+
+/**
+ * Parse a Move abort out of an execution error string
+ * @param error Error string from effects.status.error or devInspect error
+ * @returns Abort location and code, or null when the error is not a Move abort
+ */
+export function parseMoveAbort(error: string | null | undefined): MoveAbortInfo | null {
+  if (!error) {
+    return null;
+  }
+
+  const match = MOVE_ABORT_PATTERN.exec(error);
+  if (!match) {
+    return null;
+  }
+
+  const [, , address, module, functionName, code, command] = match;
+  const location = functionName ? `${module}::${functionName}` : module;
+  const entry = lookupAbortCode(module, Number(code));
+
+  return {
+    packageId: `0x${address}`,
+    module,
+    functionName,
+    code: Number(code),
+    command: command !== undefined ? Number(command) : undefined,
+    abortName: entry?.name,
+    reason: entry
+      ? `${entry.description} (${location} ${entry.name})`
+      : `${location} aborted with code ${code}`,
+  };
+}
+
+/**
+ * Convert an execution error into the matching typed Move abort error
+ * @param error Error string or thrown error containing a MoveAbort status
+ * @param txDigest Digest of the failed transaction, when it reached the chain
+ * @param details Optional operation and pool/manager context
+ * @returns Catalogued error subclass (MoveAbortError for unknown codes), or null when the error is not a Move abort
+ */
+export function decodeMoveAbort(
+  error: unknown,
+  txDigest?: string,
+  details: ErrorDetails = {}
+): MoveAbortError | null {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const abort = parseMoveAbort(message);
+  if (!abort) {
+    return null;
+  }
+
+  const ErrorClass = lookupAbortCode(abort.module, abort.code)?.error ?? MoveAbortError;
+  return new ErrorClass(abort.reason, abort, txDigest, { ...details, cause: error });
+}
@@ -0,0 +1,167 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Order book analytics
+ * Pure functions over Level-2 levels sorted best price first, so they apply equally to
+ * getOrderBook results, order book replica state and fixture books
+ */
+
+import type {
+  BookLevel,
+  MoveCost,
+  OrderBookLevel,
+  OrderBookSides,
+  OrderBookSpread,
+  PriceImpact,
+  Side,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { ORDER_BOOK_IMBALANCE_LEVELS } from './config.js';
+
+/**
+ * Build one side of the book with running base and quote totals
+ * @param prices Level prices, best first
+ * @param quantities Base quantity at each price
+ * @returns Levels with cumulative base quantity and quote notional
+ */
+export function toBookLevels(prices: number[], quantities: number[]): OrderBookLevel[] {
+  let cumulativeQuantity = 0;
+  let cumulativeQuote = 0;
+
+  return prices.map((price, index) => {
+    const quantity = quantities[index];
+    cumulativeQuantity += quantity;
+    cumulativeQuote += quantity * price;
+    return { price, quantity, cumulativeQuantity, cumulativeQuote };
+  });
+}
+
+/**
+ * Mid price between the best bid and ask
+ * @returns Mid price, or null when either side is empty
+ */
+export function bookMidPrice(book: OrderBookSides): number | null {
+  const [bid, ask] = [book.bids[0], book.asks[0]];
+  return bid && ask ? (bid.price + ask.price) / 2 : null;
+}
+
+/**
+ * Spread between the best bid and ask
+ * @returns Absolute spread and spread in basis points of the mid, or null when either side is empty
+ */
+export function bookSpread(book: OrderBookSides): OrderBookSpread | null {
+  const mid = bookMidPrice(book);
+  if (mid === null) {
+    return null;
+  }
+
+  const absolute = book.asks[0].price - book.bids[0].price;
+  return { absolute, bps: (absolute / mid) * 10_000 };
+}
+
+/**
+ * Imbalance of base quantity between the top levels of each side
+ * @param book Bids and asks
+ * @param levels Levels per side to compare
+ * @returns (bid - ask) / (bid + ask), from -1 (all asks) to 1 (all bids); null when both sides are empty
+ */
+export function bookImbalance(book: OrderBookSides, levels: number = ORDER_BOOK_IMBALANCE_LEVELS): number | null {
+  const bidQuantity = sumQuantity(book.bids.slice(0, levels));
+  const askQuantity = sumQuantity(book.asks.slice(0, levels));
+  const total = bidQuantity + askQuantity;
+  return total > 0 ? (bidQuantity - askQuantity) / total : null;
+}
+
+/**
+ * Mid price weighted toward the side with less quantity at the top of the book
+ * The best bid is weighted by the best ask quantity and vice versa, so a thin ask pulls the price up.
+ * @returns Microprice, or null when either side is empty
+ */
+export function microprice(book: OrderBookSides): number | null {
+  const [bid, ask] = [book.bids[0], book.asks[0]];
+  if (!bid || !ask) {
+    return null;
+  }
+  return (bid.price * ask.quantity + ask.price * bid.quantity) / (bid.quantity + ask.quantity);
+}
+
+/**
+ * Quantity that must trade to move the best price by a percentage of the mid
+ * Buying lifts every ask below the target; selling hits every bid above it. Without a
+ * two-sided book the target is taken from the walked side's best price.
+ * @param book Bids and asks
+ * @param side buy moves the price up, sell moves it down
+ * @param pricePercent Move in percent, e.g. 1 for 1%
+ * @returns Target price and the base and quote quantity traded to reach it
+ * @throws ValidationError when pricePercent is not positive
+ */
+export function costToMove(book: OrderBookSides, side: Side, pricePercent: number): MoveCost {
+  if (!Number.isFinite(pricePercent) || pricePercent <= 0) {
+    throw new ValidationError(`pricePercent ${pricePercent} must be a positive number`, { operation: 'costToMove' });
+  }
+
+  const levels = side === 'buy' ? book.asks : book.bids;
+  const reference = bookMidPrice(book) ?? levels[0]?.price;
+  if (reference === undefined) {
+    return { side, pricePercent, targetPrice: null, baseQuantity: 0, quoteQuantity: 0, exhausted: true };
+  }
+
+  const targetPrice = reference * (side === 'buy' ? 1 + pricePercent / 100 : 1 - pricePercent / 100);
+  const crossed = levels.filter(level => (side === 'buy' ? level.price < targetPrice : level.price > targetPrice));
+
+  return {
+    side,
+    pricePercent,
+    targetPrice,
+    baseQuantity: sumQuantity(crossed),
+    quoteQuantity: crossed.reduce((sum, level) => sum + level.quantity * level.price, 0),
+    exhausted: crossed.length === levels.length,
+  };
+}
+
+/**
+ * Average price and impact of filling a quantity against the book
+ * @param book Bids and asks
+ * @param side buy walks the asks, sell walks the bids
+ * @param quantity Base quantity to fill
+ * @returns Quantity the visible depth fills, average and worst price, and impact against the mid
+ * @throws ValidationError when the quantity is not positive
+ */
+export function impactForSize(book: OrderBookSides, side: Side, quantity: number): PriceImpact {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new ValidationError(`Quantity ${quantity} must be a positive number`, { operation: 'impactForSize' });
+  }
+
+  let filledQuantity = 0;
+  let quoteQuantity = 0;
+  let worstPrice = 0;
+  for (const level of side === 'buy' ? book.asks : book.bids) {
+    if (filledQuantity >= quantity) {
+      break;
+    }
+    const fill = Math.min(level.quantity, quantity - filledQuantity);
+    filledQuantity += fill;
+    quoteQuantity += fill * level.price;
+    worstPrice = level.price;
+  }
+
+  const averagePrice = filledQuantity > 0 ? quoteQuantity / filledQuantity : 0;
+  const mid = bookMidPrice(book);
+
+  return {
+    side,
+    requestedQuantity: quantity,
+    filledQuantity,
+    quoteQuantity,
+    averagePrice,
+    worstPrice,
+    impactBps: mid !== null && filledQuantity > 0
+      ? ((side === 'buy' ? averagePrice - mid : mid - averagePrice) / mid) * 10_000
+      : null,
+  };
+}
+
+function sumQuantity(levels: BookLevel[]): number {
+  return levels.reduce((sum, level) => sum + level.quantity, 0);
+}
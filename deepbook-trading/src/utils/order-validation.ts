@@ -0,0 +1,120 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Order pre-flight validation
+ * Checks prices and quantities against a pool's tick size, lot size and
+ * minimum size before an order transaction is built
+ */
+
+import type {
+  OrderValidationInput,
+  OrderValidationOptions,
+  OrderValidationResult,
+  PoolBookParams,
+} from '../types/index.js';
+
+// Relative tolerance for float division when checking grid alignment
+const GRID_EPSILON = 1e-9;
+
+/**
+ * Validate an order against a pool's book parameters
+ * In auto-round mode bid prices are rounded down and ask prices up (toward the
+ * passive side, so rounding never makes an order more aggressive) and quantities
+ * are floored to the lot size. Quantities are never rounded up to the minimum size.
+ * @param bookParams Pool tick size, lot size and minimum size (from poolBookParams)
+ * @param order Price (omitted for market orders), quantity and side
+ * @param options Enable auto-rounding
+ * @returns Adjusted values, warnings for adjustments made and errors that remain
+ */
+export function validateOrder(
+  bookParams: PoolBookParams,
+  order: OrderValidationInput,
+  options: OrderValidationOptions = {}
+): OrderValidationResult {
+  const { tickSize, lotSize, minSize } = bookParams;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  let price = order.price;
+  if (price !== undefined) {
+    if (!Number.isFinite(price) || price <= 0) {
+      errors.push(`Price ${price} must be a positive number`);
+    } else {
+      if (!isOnGrid(price, tickSize)) {
+        if (options.autoRound) {
+          const rounded = roundToStep(price, tickSize, order.isBid ? 'down' : 'up');
+          warnings.push(`Price ${price} rounded ${order.isBid ? 'down' : 'up'} to ${rounded} (tick size ${tickSize})`);
+          price = rounded;
+        } else {
+          errors.push(`Price ${price} is not a multiple of the tick size ${tickSize}`);
+        }
+      }
+
+      // Checked after rounding, since a bid below one tick rounds down to 0
+      if (price < tickSize) {
+        errors.push(`Price ${price} is below the tick size ${tickSize}`);
+      }
+    }
+  }
+
+  let quantity = order.quantity;
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    errors.push(`Quantity ${quantity} must be a positive number`);
+  } else {
+    if (!isOnGrid(quantity, lotSize)) {
+      if (options.autoRound) {
+        const rounded = roundToStep(quantity, lotSize, 'down');
+        warnings.push(`Quantity ${quantity} floored to ${rounded} (lot size ${lotSize})`);
+        quantity = rounded;
+      } else {
+        errors.push(`Quantity ${quantity} is not a multiple of the lot size ${lotSize}`);
+      }
+    }
+
+    if (quantity < minSize) {
+      errors.push(`Quantity ${quantity} is below the minimum size ${minSize}`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    price,
+    quantity,
+    adjusted: price !== order.price || quantity !== order.quantity,
+    warnings,
+    errors,
+    bookParams,
+  };
+}
+
+/**
+ * Round a value to a multiple of a step
+ * @param value Value to round
+ * @param step Grid step (tick or lot size)
+ * @param direction Round down (floor) or up (ceil)
+ * @returns Rounded value without float noise
+ */
+export function roundToStep(value: number, step: number, direction: 'down' | 'up'): number {
+  const steps = value / step;
+  const tolerance = GRID_EPSILON * Math.max(1, Math.abs(steps));
+  const count = direction === 'down' ? Math.floor(steps + tolerance) : Math.ceil(steps - tolerance);
+  return Number((count * step).toFixed(stepDecimals(step)));
+}
+
+/**
+ * Check whether a value is a multiple of a step, allowing for float error
+ */
+function isOnGrid(value: number, step: number): boolean {
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) <= GRID_EPSILON * Math.max(1, Math.abs(steps));
+}
+
+/**
+ * Number of decimal places needed to represent a step
+ */
+function stepDecimals(step: number): number {
+  const [mantissa, exponent] = Number(step.toPrecision(12)).toExponential().split('e');
+  const fractionDigits = mantissa.split('.')[1]?.length ?? 0;
+  return Math.min(100, Math.max(0, fractionDigits - Number(exponent)));
+}
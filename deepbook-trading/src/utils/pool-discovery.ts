@@ -0,0 +1,257 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * On-chain pool discovery
+ * Enumerates DeepBook V3 pools from the registry object and resolves their
+ * coin types and decimals into a ready-to-use PoolMap/CoinMap
+ */
+
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import type { PoolMap } from '@mysten/deepbook-v3';
+import type {
+  DiscoveredPool,
+  PoolDiscoveryResult,
+  PoolDiscoveryRpc,
+  RegistryCoinMap,
+  RpcFixture,
+} from '../types/index.js';
+import { QueryError } from '../types/index.js';
+
+// multiGetObjects accepts at most 50 IDs per request
+const MULTI_GET_BATCH_SIZE = 50;
+
+// Move object fields read during discovery, as returned with showContent
+interface RegistryFields {
+  inner?: { fields?: { id?: { id?: string }; version?: string | number } };
+}
+
+interface RegistryInnerFields {
+  value?: { fields?: { pools?: { fields?: { id?: { id?: string } } } } };
+}
+
+interface PoolBagEntryFields {
+  value?: unknown; // ID of the pool
+}
+
+// Name of a pool bag entry: PoolKey { base: TypeName, quote: TypeName }
+interface PoolKeyName {
+  base: { name: string };
+  quote: { name: string };
+}
+
+/**
+ * Discover all pools registered in a DeepBook V3 registry
+ * @param rpc Sui RPC client (or a fixture replay client)
+ * @param registryId DeepBook registry object ID
+ * @param knownCoins Existing coins whose keys should be reused
+ * @returns Coin and pool maps plus the raw discovered pool list
+ */
+export async function discoverRegistryPools(
+  rpc: PoolDiscoveryRpc,
+  registryId: string,
+  knownCoins: RegistryCoinMap = {}
+): Promise<PoolDiscoveryResult> {
+  const bagId = await getPoolBagId(rpc, registryId);
+
+  // 1. Page through the pool bag: each entry maps PoolKey { base, quote } to a pool ID
+  const entries: Array<{ fieldId: string; baseType: string; quoteType: string }> = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await rpc.getDynamicFields({ parentId: bagId, cursor });
+    for (const field of page.data) {
+      const key = field.name.value;
+      if (!isPoolKeyName(key)) {
+        continue;
+      }
+      entries.push({
+        fieldId: field.objectId,
+        baseType: typeNameToStructTag(key.base.name),
+        quoteType: typeNameToStructTag(key.quote.name),
+      });
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  // 2. Read the dynamic field objects to get the pool IDs
+  const poolIds = new Map<string, string>();
+  for (let i = 0; i < entries.length; i += MULTI_GET_BATCH_SIZE) {
+    const batch = entries.slice(i, i + MULTI_GET_BATCH_SIZE);
+    const objects = await rpc.multiGetObjects({
+      ids: batch.map(entry => entry.fieldId),
+      options: { showContent: true },
+    });
+    objects.forEach((object, index) => {
+      const value = getFields<PoolBagEntryFields>(object)?.value;
+      if (typeof value === 'string') {
+        poolIds.set(batch[index].fieldId, value);
+      }
+    });
+  }
+
+  // 3. Resolve coin keys and decimals from coin metadata
+  const coins: RegistryCoinMap = {};
+  const keysByType = new Map<string, string>();
+  for (const [coinKey, coin] of Object.entries(knownCoins)) {
+    keysByType.set(normalizeStructTag(coin.type), coinKey);
+  }
+
+  const coinTypes = new Set(entries.flatMap(entry => [entry.baseType, entry.quoteType]));
+  for (const coinType of coinTypes) {
+    const known = keysByType.get(coinType);
+    if (known) {
+      coins[known] = knownCoins[known];
+      continue;
+    }
+
+    const metadata = await rpc.getCoinMetadata({ coinType });
+    if (!metadata) {
+      throw new QueryError(`No coin metadata found for ${coinType}`);
+    }
+
+    const coinKey = uniqueCoinKey(metadata.symbol, coinType, coins, knownCoins);
+    keysByType.set(coinType, coinKey);
+    coins[coinKey] = {
+      address: parseStructTag(coinType).address,
+      type: coinType,
+      scalar: 10 ** metadata.decimals,
+      decimals: metadata.decimals,
+    };
+  }
+
+  // 4. Assemble the pool map
+  const pools: PoolMap = {};
+  const discovered: DiscoveredPool[] = [];
+  for (const entry of entries) {
+    const poolId = poolIds.get(entry.fieldId);
+    if (!poolId) {
+      continue;
+    }
+
+    const baseCoin = keysByType.get(entry.baseType) as string;
+    const quoteCoin = keysByType.get(entry.quoteType) as string;
+    const poolKey = `${baseCoin}_${quoteCoin}`;
+
+    pools[poolKey] = { address: poolId, baseCoin, quoteCoin };
+    discovered.push({ poolKey, poolId, baseType: entry.baseType, quoteType: entry.quoteType });
+  }
+
+  return { coins, pools, discovered };
+}
+
+/**
+ * Create an RPC client that replays recorded responses
+ * @param fixture Recorded responses (see recordRpc)
+ * @returns RPC client usable by discoverRegistryPools without network access
+ */
+export function createFixtureRpc(fixture: RpcFixture): PoolDiscoveryRpc {
+  const replay = (method: keyof PoolDiscoveryRpc) => async (params: object): Promise<unknown> => {
+    const key = fixtureKey(params);
+    const responses = fixture[method] || {};
+    if (!(key in responses)) {
+      throw new QueryError(`No recorded ${method} response for ${key}`);
+    }
+    return responses[key];
+  };
+
+  // Responses are replayed as recorded, so they have the shapes the live client returned
+  return {
+    getObject: replay('getObject'),
+    getDynamicFields: replay('getDynamicFields'),
+    getDynamicFieldObject: replay('getDynamicFieldObject'),
+    multiGetObjects: replay('multiGetObjects'),
+    getCoinMetadata: replay('getCoinMetadata'),
+  } as PoolDiscoveryRpc;
+}
+
+/**
+ * Wrap an RPC client so every response is recorded into a fixture
+ * @param rpc Live RPC client
+ * @returns Recording client and the fixture it fills in
+ */
+export function recordRpc(rpc: PoolDiscoveryRpc): { rpc: PoolDiscoveryRpc; fixture: RpcFixture } {
+  const fixture: RpcFixture = {};
+
+  const record = (method: keyof PoolDiscoveryRpc) => async (params: object): Promise<unknown> => {
+    const response = await (rpc[method] as (params: object) => Promise<unknown>).call(rpc, params);
+    fixture[method] = fixture[method] || {};
+    fixture[method][fixtureKey(params)] = response;
+    return response;
+  };
+
+  return {
+    rpc: {
+      getObject: record('getObject'),
+      getDynamicFields: record('getDynamicFields'),
+      getDynamicFieldObject: record('getDynamicFieldObject'),
+      multiGetObjects: record('multiGetObjects'),
+      getCoinMetadata: record('getCoinMetadata'),
+    } as PoolDiscoveryRpc,
+    fixture,
+  };
+}
+
+/**
+ * Resolve the Bag holding registered pools
+ * Registry { inner: Versioned } -> RegistryInner (dynamic field keyed by version) -> pools: Bag
+ */
+async function getPoolBagId(rpc: PoolDiscoveryRpc, registryId: string): Promise<string> {
+  const registry = await rpc.getObject({ id: registryId, options: { showContent: true } });
+  const inner = getFields<RegistryFields>(registry)?.inner?.fields;
+  if (!inner?.id?.id) {
+    throw new QueryError(`Object ${registryId} is not a DeepBook registry`);
+  }
+
+  const versioned = await rpc.getDynamicFieldObject({
+    parentId: inner.id.id,
+    name: { type: 'u64', value: String(inner.version) },
+  });
+  const bagId = getFields<RegistryInnerFields>(versioned)?.value?.fields?.pools?.fields?.id?.id;
+  if (!bagId) {
+    throw new QueryError(`Registry ${registryId} has no pool bag`);
+  }
+
+  return bagId;
+}
+
+function getFields<T>(object: SuiObjectResponse): T | undefined {
+  const content = object.data?.content;
+  if (!content || content.dataType !== 'moveObject') {
+    return undefined;
+  }
+  return content.fields as T;
+}
+
+function isPoolKeyName(value: unknown): value is PoolKeyName {
+  const key = value as Partial<PoolKeyName> | null;
+  return typeof key?.base?.name === 'string' && typeof key?.quote?.name === 'string';
+}
+
+/**
+ * Convert a Move TypeName string (address without 0x) into a normalized struct tag
+ */
+function typeNameToStructTag(name: string): string {
+  return normalizeStructTag(name.startsWith('0x') ? name : `0x${name}`);
+}
+
+/**
+ * Pick a coin key from the coin symbol that does not collide with existing keys
+ */
+function uniqueCoinKey(
+  symbol: string,
+  coinType: string,
+  coins: RegistryCoinMap,
+  knownCoins: RegistryCoinMap
+): string {
+  const base = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '') || 'COIN';
+  if (!coins[base] && !knownCoins[base]) {
+    return base;
+  }
+  return `${base}_${parseStructTag(coinType).address.slice(2, 8).toUpperCase()}`;
+}
+
+function fixtureKey(params: object = {}): string {
+  const { signal, ...rest } = params as { signal?: unknown };
+  return JSON.stringify(rest);
+}
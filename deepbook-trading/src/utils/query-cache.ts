@@ -0,0 +1,153 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Query caching
+ * Coalesces identical reads while they are in flight, keeps slow-changing values
+ * for a TTL, and counts hits, misses and batched reads per operation
+ */
+
+import type { QueryCacheMetrics, QueryCacheOptions, QueryOperationMetrics } from '../types/index.js';
+import { POOL_PARAMS_CACHE_TTL_MS } from './config.js';
+
+/**
+ * Read cache shared by the query and balance manager wrappers
+ */
+export class QueryCache {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private values = new Map<string, { value: unknown; expiresAt: number }>();
+  private operations: Record<string, QueryOperationMetrics> = {};
+  private simulations = 0;
+  private batchedReads = 0;
+  private failedBatches = 0;
+  private lastBatchError: string | null = null;
+
+  constructor(private options: QueryCacheOptions = {}) {}
+
+  /**
+   * Run a read, or join an identical read that is still in flight
+   * @param operation Operation name, used for metrics
+   * @param key Identifies the read within the operation, e.g. the pool key
+   * @param read Performs the read
+   * @returns Result of the read, shared by every caller that joined it
+   */
+  coalesce<T>(operation: string, key: string, read: () => Promise<T>): Promise<T> {
+    const id = `${operation}:${key}`;
+    const pending = this.inFlight.get(id);
+    if (pending) {
+      this.metrics(operation).coalesced++;
+      return pending as Promise<T>;
+    }
+
+    this.metrics(operation).misses++;
+    const result = read().finally(() => this.inFlight.delete(id));
+    this.inFlight.set(id, result);
+    return result;
+  }
+
+  /**
+   * Return a cached value while it is fresh, otherwise read and cache it
+   * Failed reads are not cached. Expired values are dropped when read and whenever a value is cached.
+   * @param operation Operation name, used for metrics
+   * @param key Identifies the value within the operation, e.g. the pool key
+   * @param read Performs the read
+   * @returns Cached or freshly read value
+   */
+  async cached<T>(operation: string, key: string, read: () => Promise<T>): Promise<T> {
+    const id = `${operation}:${key}`;
+    const entry = this.values.get(id);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.metrics(operation).hits++;
+      return entry.value as T;
+    }
+    if (entry) {
+      this.values.delete(id);
+    }
+
+    const value = await this.coalesce(operation, key, read);
+    this.evictExpired();
+    this.values.set(id, { value, expiresAt: Date.now() + (this.options.ttlMs ?? POOL_PARAMS_CACHE_TTL_MS) });
+    return value;
+  }
+
+  /**
+   * Count a devInspect simulation that carried several reads
+   * @param reads Reads in the simulation
+   */
+  recordBatch(reads: number): void {
+    this.simulations++;
+    this.batchedReads += reads;
+  }
+
+  /**
+   * Count a batched simulation that failed, so its reads were retried one at a time
+   * @param error Why the simulation failed
+   */
+  recordBatchFailure(error: unknown): void {
+    this.failedBatches++;
+    this.lastBatchError = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Get hit, miss and coalescing counts per operation and in total
+   */
+  getMetrics(): QueryCacheMetrics {
+    const operations = Object.fromEntries(
+      Object.entries(this.operations).map(([operation, metrics]) => [operation, { ...metrics }])
+    );
+    const total = Object.values(operations).reduce(
+      (sum, metrics) => ({
+        hits: sum.hits + metrics.hits,
+        misses: sum.misses + metrics.misses,
+        coalesced: sum.coalesced + metrics.coalesced,
+      }),
+      { hits: 0, misses: 0, coalesced: 0 }
+    );
+
+    return {
+      operations,
+      total,
+      simulations: this.simulations,
+      batchedReads: this.batchedReads,
+      failedBatches: this.failedBatches,
+      lastBatchError: this.lastBatchError,
+    };
+  }
+
+  /**
+   * Drop cached values so the next reads go to the chain
+   * @param operation Only drop values of this operation
+   */
+  clear(operation?: string): void {
+    for (const id of this.values.keys()) {
+      if (operation === undefined || id.startsWith(`${operation}:`)) {
+        this.values.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Reset all counts to zero
+   */
+  resetMetrics(): void {
+    this.operations = {};
+    this.simulations = 0;
+    this.batchedReads = 0;
+    this.failedBatches = 0;
+    this.lastBatchError = null;
+  }
+
+  private metrics(operation: string): QueryOperationMetrics {
+    this.operations[operation] ??= { hits: 0, misses: 0, coalesced: 0 };
+    return this.operations[operation];
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.values) {
+      if (entry.expiresAt <= now) {
+        this.values.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,287 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Registry validation
+ * Checks the raw coin/pool registry files and oracle configuration for an
+ * environment and reports malformed, placeholder and inconsistent entries
+ */
+
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+import type {
+  CoinConfigEntry,
+  EnvironmentConfig,
+  PoolConfigEntry,
+  RegistryIssue,
+  RegistryIssueCode,
+  RegistryIssueSeverity,
+  RegistryValidationOptions,
+  RegistryValidationReport,
+} from '../types/index.js';
+import { DEFAULT_ENVIRONMENTS } from './config.js';
+import { readRegistryFiles } from './registry.js';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const OBJECT_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+// A hex ID ending in a run this long of a 1-4 character pattern is not random
+const PLACEHOLDER_RUN_LENGTH = 24;
+
+/**
+ * Validate the coin and pool registry for an environment
+ * @param environment Environment (mainnet, testnet, devnet)
+ * @param options Optional config directory and environment oracle configuration
+ * @returns Structured report; `valid` is false when any error was found
+ */
+export function validateRegistry(
+  environment: string,
+  options: RegistryValidationOptions = {}
+): RegistryValidationReport {
+  const files = readRegistryFiles(options.configDir);
+  const environments = options.environments || DEFAULT_ENVIRONMENTS;
+
+  const coins = files.coins[environment] || {};
+  const pools = files.pools[environment] || {};
+  const issues: RegistryIssue[] = [];
+
+  validateCoins(coins, issues);
+  validatePools(pools, coins, issues);
+  validateOracle(environment, environments, coins, issues);
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    environment,
+    valid: errors === 0,
+    issues,
+    summary: {
+      coins: Object.keys(coins).length,
+      pools: Object.keys(pools).length,
+      errors,
+      warnings: issues.length - errors,
+    },
+  };
+}
+
+/**
+ * Check whether a hex ID looks like a hand-written placeholder
+ * @param id Hex ID with 0x prefix
+ * @returns True when the ID ends in a long repeated pattern
+ */
+export function isPlaceholderId(id: string): boolean {
+  const hex = id.toLowerCase().replace(/^0x/, '');
+  if (hex.replace(/^0+/, '').length <= 4) {
+    // Framework addresses such as 0x2 (short or zero-padded) are legitimate
+    return false;
+  }
+
+  for (let period = 1; period <= 4; period++) {
+    let run = period;
+    for (let i = hex.length - 1 - period; i >= 0 && hex[i] === hex[i + period]; i--) {
+      run++;
+    }
+    if (run >= PLACEHOLDER_RUN_LENGTH) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a hex ID is all zeroes
+ * @param id Hex ID with 0x prefix
+ */
+export function isZeroId(id: string): boolean {
+  return /^0x0+$/i.test(id);
+}
+
+function validateCoins(coins: Record<string, CoinConfigEntry>, issues: RegistryIssue[]): void {
+  const typeOwners = new Map<string, string>();
+
+  for (const [coinKey, coin] of Object.entries(coins)) {
+    const path = `coins.${coinKey}`;
+
+    if (typeof coin?.type !== 'string') {
+      addIssue(issues, 'error', 'MISSING_FIELD', `${path}.type`, `Coin ${coinKey} has no type`);
+      continue;
+    }
+
+    let normalizedType: string | undefined;
+    try {
+      normalizedType = normalizeStructTag(coin.type);
+    } catch {
+      addIssue(issues, 'error', 'INVALID_COIN_TYPE', `${path}.type`,
+        `Coin ${coinKey} type ${coin.type} is not a Move struct type`);
+    }
+
+    if (normalizedType) {
+      const rawAddress = coin.type.split('::')[0];
+      if (!ADDRESS_PATTERN.test(rawAddress)) {
+        addIssue(issues, 'error', 'MALFORMED_ADDRESS', `${path}.type`,
+          `Coin ${coinKey} package address ${rawAddress} is not a valid Sui address`);
+      } else if (isPlaceholderId(parseStructTag(normalizedType).address)) {
+        addIssue(issues, 'error', 'PLACEHOLDER_ADDRESS', `${path}.type`,
+          `Coin ${coinKey} package address ${rawAddress} looks like a placeholder`);
+      }
+
+      const owner = typeOwners.get(normalizedType);
+      if (owner) {
+        addIssue(issues, 'warning', 'DUPLICATE_COIN_TYPE', `${path}.type`,
+          `Coin ${coinKey} has the same type as ${owner}`);
+      } else {
+        typeOwners.set(normalizedType, coinKey);
+      }
+    }
+
+    if (coin.decimals === undefined && coin.scalar === undefined) {
+      addIssue(issues, 'error', 'MISSING_FIELD', `${path}.decimals`,
+        `Coin ${coinKey} needs either decimals or scalar`);
+    } else if (coin.decimals !== undefined && coin.scalar !== undefined && coin.scalar !== 10 ** coin.decimals) {
+      addIssue(issues, 'error', 'DECIMALS_SCALAR_MISMATCH', `${path}.scalar`,
+        `Coin ${coinKey} scalar ${coin.scalar} does not match ${coin.decimals} decimals`);
+    }
+
+    if (coin.feed !== undefined) {
+      validateId(coin.feed, `${path}.feed`, `Coin ${coinKey} price feed`, issues, 'ZERO_PRICE_FEED');
+    }
+  }
+}
+
+function validatePools(
+  pools: Record<string, PoolConfigEntry>,
+  coins: Record<string, CoinConfigEntry>,
+  issues: RegistryIssue[]
+): void {
+  const idOwners = new Map<string, string>();
+  const coinTypes = new Set(
+    Object.values(coins)
+      .map(coin => safeNormalizeType(coin?.type))
+      .filter((type): type is string => type !== undefined)
+  );
+
+  for (const [poolKey, pool] of Object.entries(pools)) {
+    const path = `pools.${poolKey}`;
+    const addressField = pool?.address !== undefined ? 'address' : 'poolId';
+    const address = pool?.address ?? pool?.poolId;
+
+    if (typeof address !== 'string') {
+      addIssue(issues, 'error', 'MISSING_FIELD', `${path}.${addressField}`, `Pool ${poolKey} has no address`);
+    } else if (validateId(address, `${path}.${addressField}`, `Pool ${poolKey} ID`, issues, 'MALFORMED_ADDRESS')) {
+      const normalized = address.toLowerCase();
+      const owner = idOwners.get(normalized);
+      if (owner) {
+        addIssue(issues, 'error', 'DUPLICATE_POOL_ID', `${path}.${addressField}`,
+          `Pool ${poolKey} has the same ID as ${owner}`);
+      } else {
+        idOwners.set(normalized, poolKey);
+      }
+    }
+
+    for (const side of ['base', 'quote'] as const) {
+      const field = pool?.[`${side}Coin`] !== undefined ? `${side}Coin` : `${side}Type`;
+      const reference = pool?.[`${side}Coin`] ?? pool?.[`${side}Type`];
+
+      if (typeof reference !== 'string') {
+        addIssue(issues, 'error', 'MISSING_FIELD', `${path}.${field}`, `Pool ${poolKey} has no ${side} coin`);
+      } else if (!coins[reference] && !coinTypes.has(safeNormalizeType(reference) ?? '')) {
+        addIssue(issues, 'error', 'UNKNOWN_COIN', `${path}.${field}`,
+          `Pool ${poolKey} references unknown ${side} coin ${reference}`);
+      }
+    }
+  }
+}
+
+function validateOracle(
+  environment: string,
+  environments: Record<string, EnvironmentConfig>,
+  coins: Record<string, CoinConfigEntry>,
+  issues: RegistryIssue[]
+): void {
+  const config = environments[environment];
+  const { wormholeStateId, pythStateId } = config || {};
+
+  if (!wormholeStateId || !pythStateId) {
+    const coinsWithFeeds = Object.keys(coins).filter(coinKey => coins[coinKey]?.feed);
+    if (coinsWithFeeds.length > 0) {
+      addIssue(issues, 'warning', 'MISSING_ORACLE', 'oracle',
+        `Coins ${coinsWithFeeds.join(', ')} declare price feeds but ${environment} has no Pyth/Wormhole state`);
+    }
+  }
+
+  const ids: Array<[string, string | undefined]> = [
+    ['wormholeStateId', wormholeStateId],
+    ['pythStateId', pythStateId],
+  ];
+
+  for (const [field, id] of ids) {
+    if (id === undefined) continue;
+    validateId(id, `oracle.${field}`, `${environment} ${field}`, issues, 'MALFORMED_ADDRESS');
+  }
+
+  if (wormholeStateId && pythStateId && wormholeStateId.toLowerCase() === pythStateId.toLowerCase()) {
+    addIssue(issues, 'error', 'DUPLICATE_ORACLE_ID', 'oracle',
+      `${environment} uses the same object for wormholeStateId and pythStateId`);
+  }
+
+  for (const [otherEnvironment, other] of Object.entries(environments)) {
+    if (otherEnvironment === environment || !other) continue;
+    for (const [field, id] of ids) {
+      if (id && (id.toLowerCase() === other.wormholeStateId?.toLowerCase() ||
+                 id.toLowerCase() === other.pythStateId?.toLowerCase())) {
+        addIssue(issues, 'error', 'DUPLICATE_ORACLE_ID', `oracle.${field}`,
+          `${environment} ${field} is also configured for ${otherEnvironment}`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a 32-byte object ID
+ * @returns True when the ID is well formed and not a placeholder
+ */
+function validateId(
+  id: unknown,
+  path: string,
+  label: string,
+  issues: RegistryIssue[],
+  zeroCode: RegistryIssueCode
+): boolean {
+  if (typeof id !== 'string' || !OBJECT_ID_PATTERN.test(id)) {
+    addIssue(issues, 'error', 'MALFORMED_ADDRESS', path, `${label} ${id} is not a 32-byte hex ID`);
+    return false;
+  }
+
+  if (isZeroId(id)) {
+    addIssue(issues, 'error', zeroCode, path, `${label} is the zero ID`);
+    return false;
+  }
+
+  if (isPlaceholderId(id)) {
+    addIssue(issues, 'error', 'PLACEHOLDER_ADDRESS', path, `${label} ${id} looks like a placeholder`);
+    return false;
+  }
+
+  return true;
+}
+
+function safeNormalizeType(type: unknown): string | undefined {
+  if (typeof type !== 'string' || !type.includes('::')) {
+    return undefined;
+  }
+  try {
+    return normalizeStructTag(type);
+  } catch {
+    return undefined;
+  }
+}
+
+function addIssue(
+  issues: RegistryIssue[],
+  severity: RegistryIssueSeverity,
+  code: RegistryIssueCode,
+  path: string,
+  message: string
+): void {
+  issues.push({ severity, code, path, message });
+}
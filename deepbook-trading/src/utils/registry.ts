@@ -0,0 +1,250 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Coin and pool registry loader
+ * Reads config/coins.json and config/pools.json, applies user overrides and
+ * normalizes both files into the CoinMap/PoolMap shapes DeepBookClient expects
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+import type { PoolMap } from '@mysten/deepbook-v3';
+import type {
+  CoinConfigEntry,
+  Environment,
+  PoolConfigEntry,
+  PoolDiscoveryResult,
+  Registry,
+  RegistryCoin,
+  RegistryCoinMap,
+  RegistryOverrides,
+} from '../types/index.js';
+import { RegistryError } from '../types/index.js';
+
+// Default location of the bundled registry files
+export const DEFAULT_CONFIG_DIR = resolve(__dirname, '../../config');
+
+export type EnvironmentFile<T> = Partial<Record<string, Record<string, T>>>;
+
+export interface RegistryFiles {
+  coins: EnvironmentFile<CoinConfigEntry>;
+  pools: EnvironmentFile<PoolConfigEntry>;
+}
+
+/**
+ * Load the coin and pool registry for an environment
+ * @param environment Environment (mainnet, testnet, devnet)
+ * @param overrides Optional coin/pool entries merged over the JSON files
+ * @returns Validated coin and pool maps
+ */
+export function loadRegistry(environment: Environment, overrides: RegistryOverrides = {}): Registry {
+  const files = readRegistryFiles(overrides.configDir);
+
+  const coinEntries = { ...(files.coins[environment] || {}), ...(overrides.coins || {}) };
+  const poolEntries = { ...(files.pools[environment] || {}), ...(overrides.pools || {}) };
+
+  const coins = normalizeCoins(coinEntries);
+  const pools = normalizePools(poolEntries, coins);
+
+  return { environment, coins, pools };
+}
+
+/**
+ * Read the raw registry files without normalizing them
+ * @param configDir Directory holding coins.json and pools.json
+ * @returns Raw coin and pool entries keyed by environment
+ */
+export function readRegistryFiles(configDir: string = DEFAULT_CONFIG_DIR): RegistryFiles {
+  return {
+    coins: readConfigFile<CoinConfigEntry>(join(configDir, 'coins.json')),
+    pools: readConfigFile<PoolConfigEntry>(join(configDir, 'pools.json')),
+  };
+}
+
+/**
+ * Merge coins and pools for an environment into the registry files
+ * Entries are updated in place: coin fields the given registry does not carry (e.g. a price
+ * feed) are kept, and entries it does not mention stay. Other environments are left untouched.
+ * @param environment Environment whose section is updated
+ * @param registry Coins and pools to write (e.g. the result of discoverPools)
+ * @param configDir Directory holding coins.json and pools.json
+ */
+export function saveRegistry(
+  environment: Environment,
+  registry: Pick<PoolDiscoveryResult, 'coins' | 'pools'>,
+  configDir: string = DEFAULT_CONFIG_DIR
+): void {
+  const files = readRegistryFiles(configDir);
+
+  const coins: Record<string, CoinConfigEntry> = { ...files.coins[environment] };
+  for (const [coinKey, coin] of Object.entries(registry.coins)) {
+    const entry: CoinConfigEntry = { ...coins[coinKey], type: coin.type, decimals: coin.decimals };
+    delete entry.scalar; // Derived from decimals
+    for (const field of ['feed', 'currencyId', 'priceInfoObjectId'] as const) {
+      if (coin[field]) entry[field] = coin[field];
+    }
+    coins[coinKey] = entry;
+  }
+
+  const pools: Record<string, PoolConfigEntry> = { ...files.pools[environment] };
+  for (const [poolKey, pool] of Object.entries(registry.pools)) {
+    pools[poolKey] = { baseType: pool.baseCoin, quoteType: pool.quoteCoin, poolId: pool.address };
+  }
+
+  files.coins[environment] = coins;
+  files.pools[environment] = pools;
+
+  writeFileSync(join(configDir, 'coins.json'), `${JSON.stringify(files.coins, null, 2)}\n`);
+  writeFileSync(join(configDir, 'pools.json'), `${JSON.stringify(files.pools, null, 2)}\n`);
+}
+
+/**
+ * Normalize raw coin entries into registry coins
+ * @param entries Coin entries keyed by coin key
+ * @returns Coin map with address, scalar and decimals resolved
+ */
+export function normalizeCoins(entries: Record<string, CoinConfigEntry>): RegistryCoinMap {
+  const coins: RegistryCoinMap = {};
+
+  for (const [coinKey, entry] of Object.entries(entries)) {
+    coins[coinKey] = normalizeCoin(coinKey, entry);
+  }
+
+  return coins;
+}
+
+/**
+ * Normalize raw pool entries into a PoolMap
+ * Accepts both the baseType/quoteType/poolId and baseCoin/quoteCoin/address schemas.
+ * baseType/quoteType may be either a coin key or a full coin type.
+ * @param entries Pool entries keyed by pool key
+ * @param coins Coin map used to resolve coin references
+ * @returns Pool map in DeepBook SDK format
+ */
+export function normalizePools(
+  entries: Record<string, PoolConfigEntry>,
+  coins: RegistryCoinMap
+): PoolMap {
+  const pools: PoolMap = {};
+
+  for (const [poolKey, entry] of Object.entries(entries)) {
+    if (!isObject(entry)) {
+      throw new RegistryError(`Pool ${poolKey} must be an object`, poolKey);
+    }
+
+    const address = entry.address ?? entry.poolId;
+    if (typeof address !== 'string' || address.length === 0) {
+      throw new RegistryError(`Pool ${poolKey} is missing an address`, poolKey);
+    }
+
+    pools[poolKey] = {
+      address,
+      baseCoin: resolveCoinKey(poolKey, entry.baseCoin ?? entry.baseType, coins),
+      quoteCoin: resolveCoinKey(poolKey, entry.quoteCoin ?? entry.quoteType, coins),
+    };
+  }
+
+  return pools;
+}
+
+/**
+ * Read one of the registry JSON files
+ * @param path File path
+ * @returns Parsed file keyed by environment
+ */
+function readConfigFile<T>(path: string): EnvironmentFile<T> {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new RegistryError(`Failed to read registry file ${path}: ${error}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new RegistryError(`Invalid JSON in registry file ${path}: ${error}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new RegistryError(`Registry file ${path} must contain an object keyed by environment`);
+  }
+
+  return parsed as EnvironmentFile<T>;
+}
+
+/**
+ * Normalize a single coin entry
+ * @param coinKey Coin key
+ * @param entry Raw coin entry
+ * @returns Registry coin
+ */
+function normalizeCoin(coinKey: string, entry: CoinConfigEntry): RegistryCoin {
+  if (!isObject(entry) || typeof entry.type !== 'string') {
+    throw new RegistryError(`Coin ${coinKey} is missing a type`, coinKey);
+  }
+
+  let type: string;
+  let address: string;
+  try {
+    type = normalizeStructTag(entry.type);
+    address = parseStructTag(type).address;
+  } catch (error) {
+    throw new RegistryError(`Coin ${coinKey} has an invalid type ${entry.type}: ${error}`, coinKey);
+  }
+
+  if (entry.decimals === undefined && entry.scalar === undefined) {
+    throw new RegistryError(`Coin ${coinKey} needs either decimals or scalar`, coinKey);
+  }
+
+  const decimals = entry.decimals ?? Math.round(Math.log10(entry.scalar as number));
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new RegistryError(`Coin ${coinKey} has invalid decimals ${decimals}`, coinKey);
+  }
+
+  const scalar = entry.scalar ?? 10 ** decimals;
+  if (!Number.isFinite(scalar) || scalar <= 0) {
+    throw new RegistryError(`Coin ${coinKey} has invalid scalar ${scalar}`, coinKey);
+  }
+
+  const coin: RegistryCoin = { address, type, scalar, decimals };
+  if (entry.feed) coin.feed = entry.feed;
+  if (entry.currencyId) coin.currencyId = entry.currencyId;
+  if (entry.priceInfoObjectId) coin.priceInfoObjectId = entry.priceInfoObjectId;
+
+  return coin;
+}
+
+/**
+ * Resolve a pool's coin reference to a coin key
+ * @param poolKey Pool key (for error messages)
+ * @param reference Coin key or full coin type
+ * @param coins Coin map
+ * @returns Coin key present in the coin map
+ */
+function resolveCoinKey(poolKey: string, reference: unknown, coins: RegistryCoinMap): string {
+  if (typeof reference !== 'string' || reference.length === 0) {
+    throw new RegistryError(`Pool ${poolKey} is missing a base or quote coin`, poolKey);
+  }
+
+  if (coins[reference]) {
+    return reference;
+  }
+
+  if (reference.includes('::')) {
+    const normalized = normalizeStructTag(reference);
+    const match = Object.entries(coins).find(([, coin]) => coin.type === normalized);
+    if (match) {
+      return match[0];
+    }
+  }
+
+  throw new RegistryError(`Pool ${poolKey} references unknown coin ${reference}`, poolKey);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,51 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Swap path discovery
+ * Treats pools as edges between coins: selling base for quote or buying base with quote
+ */
+
+import type { PoolMap, RouteHop } from '../types/index.js';
+
+/**
+ * Find every path from one coin to another through at most maxHops pools
+ * Paths never revisit a coin, so they contain no cycles.
+ * @param pools Pool map (coin keys per pool)
+ * @param fromCoin Input coin key
+ * @param toCoin Output coin key
+ * @param maxHops Maximum number of pools in a path
+ * @returns Paths as hop lists, shortest first
+ */
+export function findSwapPaths(pools: PoolMap, fromCoin: string, toCoin: string, maxHops: number): RouteHop[][] {
+  const edges = new Map<string, RouteHop[]>();
+  for (const [poolKey, pool] of Object.entries(pools)) {
+    addEdge(edges, { poolKey, side: 'sell', fromCoin: pool.baseCoin, toCoin: pool.quoteCoin });
+    addEdge(edges, { poolKey, side: 'buy', fromCoin: pool.quoteCoin, toCoin: pool.baseCoin });
+  }
+
+  const paths: RouteHop[][] = [];
+  const visit = (coin: string, path: RouteHop[], visited: Set<string>) => {
+    if (coin === toCoin && path.length > 0) {
+      paths.push(path);
+      return;
+    }
+    if (path.length === maxHops) {
+      return;
+    }
+    for (const hop of edges.get(coin) ?? []) {
+      if (!visited.has(hop.toCoin)) {
+        visit(hop.toCoin, [...path, hop], new Set(visited).add(hop.toCoin));
+      }
+    }
+  };
+  visit(fromCoin, [], new Set([fromCoin]));
+
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+function addEdge(edges: Map<string, RouteHop[]>, hop: RouteHop): void {
+  const hops = edges.get(hop.fromCoin) ?? [];
+  hops.push(hop);
+  edges.set(hop.fromCoin, hops);
+}
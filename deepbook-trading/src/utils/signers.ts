@@ -0,0 +1,92 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Transaction signer adapters
+ * Wrap keypairs, remote signing services and multisig collectors behind
+ * the TransactionSigner interface used by DeepBookTradingClient.execute
+ */
+
+import type { PublicKey, Signer } from '@mysten/sui/cryptography';
+import type { MultiSigPublicKey } from '@mysten/sui/multisig';
+import type { TransactionSigner } from '../types/index.js';
+import { TransactionError } from '../types/index.js';
+
+/**
+ * A party that contributes one partial signature to a multisig
+ */
+export interface MultisigParticipant {
+  publicKey: PublicKey;
+  sign(bytes: Uint8Array): Promise<string>;
+}
+
+/**
+ * Sign with a local keypair
+ * @param keypair Ed25519, Secp256k1 or Secp256r1 keypair
+ * @returns Transaction signer
+ */
+export function keypairSigner(keypair: Signer): TransactionSigner {
+  return {
+    getAddress: () => keypair.toSuiAddress(),
+    signTransaction: async (bytes: Uint8Array) => (await keypair.signTransaction(bytes)).signature,
+  };
+}
+
+/**
+ * Sign through a callback, e.g. a remote signing service or hardware wallet bridge
+ * @param address Sender address the callback signs for
+ * @param sign Callback returning a serialized Sui signature for the transaction bytes
+ * @returns Transaction signer
+ */
+export function callbackSigner(
+  address: string,
+  sign: (bytes: Uint8Array) => Promise<string>
+): TransactionSigner {
+  return {
+    getAddress: () => address,
+    signTransaction: sign,
+  };
+}
+
+/**
+ * Collect partial signatures from multisig participants until the threshold is met
+ * Participants are asked in order; a participant that throws is skipped.
+ * @param multisigPublicKey Multisig public key (defines weights and threshold)
+ * @param participants Participants able to sign
+ * @returns Transaction signer producing the combined multisig signature
+ */
+export function multisigSigner(
+  multisigPublicKey: MultiSigPublicKey,
+  participants: MultisigParticipant[]
+): TransactionSigner {
+  const members = multisigPublicKey.getPublicKeys();
+  const threshold = multisigPublicKey.getThreshold();
+
+  return {
+    getAddress: () => multisigPublicKey.toSuiAddress(),
+    signTransaction: async (bytes: Uint8Array) => {
+      const signatures: string[] = [];
+      let weight = 0;
+
+      for (const participant of participants) {
+        const member = members.find(m => m.publicKey.equals(participant.publicKey));
+        if (!member) {
+          continue;
+        }
+
+        try {
+          signatures.push(await participant.sign(bytes));
+          weight += member.weight;
+        } catch {
+          continue;
+        }
+
+        if (weight >= threshold) {
+          return multisigPublicKey.combinePartialSignatures(signatures);
+        }
+      }
+
+      throw new TransactionError(`Multisig threshold not reached: collected weight ${weight} of ${threshold}`);
+    },
+  };
+}
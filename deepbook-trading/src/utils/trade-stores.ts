@@ -0,0 +1,187 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Trade storage adapters
+ * Stores keep normalized trades keyed by transaction digest and event sequence,
+ * so appending a trade that is already stored has no effect.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { SqliteDatabase, Trade, TradeStore } from '../types/index.js';
+import { isErrnoException } from './errors.js';
+
+/**
+ * Trade store that lives only as long as the process
+ */
+export class MemoryTradeStore implements TradeStore {
+  private trades = new Map<string, Trade[]>();
+  private keys = new Set<string>();
+
+  async append(trades: Trade[]): Promise<void> {
+    for (const trade of trades) {
+      if (this.keys.has(tradeKey(trade))) {
+        continue;
+      }
+      this.keys.add(tradeKey(trade));
+
+      const poolTrades = this.trades.get(trade.poolKey) ?? [];
+      poolTrades.push(trade);
+      this.trades.set(trade.poolKey, poolTrades);
+    }
+  }
+
+  async query(poolKey: string, from: number, to: number): Promise<Trade[]> {
+    return inRange(this.trades.get(poolKey) ?? [], from, to);
+  }
+
+  async latestTimestamp(poolKey: string): Promise<number | undefined> {
+    return latest(this.trades.get(poolKey) ?? []);
+  }
+}
+
+/**
+ * Trade store backed by a JSON-lines file holding one trade per line
+ * The file is read once and then appended to. A line cut short by a crash is skipped.
+ */
+export class JsonLinesTradeStore implements TradeStore {
+  private cache = new MemoryTradeStore();
+  private keys = new Set<string>();
+  private loaded?: Promise<void>;
+  // Appends share the file, so they run one at a time
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async append(trades: Trade[]): Promise<void> {
+    const write = this.writes.catch(() => undefined).then(async () => {
+      await this.load();
+      const added = [...new Map(trades.map(trade => [tradeKey(trade), trade])).values()]
+        .filter(trade => !this.keys.has(tradeKey(trade)));
+      if (added.length === 0) {
+        return;
+      }
+
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, added.map(trade => `${JSON.stringify(trade)}\n`).join(''));
+      await this.remember(added);
+    });
+    this.writes = write;
+    return write;
+  }
+
+  async query(poolKey: string, from: number, to: number): Promise<Trade[]> {
+    await this.load();
+    return this.cache.query(poolKey, from, to);
+  }
+
+  async latestTimestamp(poolKey: string): Promise<number | undefined> {
+    await this.load();
+    return this.cache.latestTimestamp(poolKey);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.read();
+    return this.loaded;
+  }
+
+  private async read(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if (isErrnoException(error) && error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const trades: Trade[] = [];
+    for (const line of raw.split('\n')) {
+      try {
+        if (line.trim()) {
+          trades.push(JSON.parse(line));
+        }
+      } catch {
+        // Partial line from an interrupted append
+      }
+    }
+    await this.remember(trades);
+  }
+
+  private async remember(trades: Trade[]): Promise<void> {
+    trades.forEach(trade => this.keys.add(tradeKey(trade)));
+    await this.cache.append(trades);
+  }
+}
+
+/**
+ * Trade store backed by a SQLite database
+ * Takes an open better-sqlite3 or node:sqlite handle and creates its table if needed.
+ */
+export class SqliteTradeStore implements TradeStore {
+  constructor(private db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS deepbook_trades (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        pool_key TEXT NOT NULL,
+        timestamp_ms INTEGER NOT NULL,
+        trade TEXT NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+      );
+      CREATE INDEX IF NOT EXISTS deepbook_trades_pool_time ON deepbook_trades (pool_key, timestamp_ms);
+    `);
+  }
+
+  async append(trades: Trade[]): Promise<void> {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO deepbook_trades (tx_digest, event_seq, pool_key, timestamp_ms, trade) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    this.db.exec('BEGIN');
+    try {
+      for (const trade of trades) {
+        insert.run(trade.txDigest, trade.eventSeq, trade.poolKey, trade.timestampMs, JSON.stringify(trade));
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async query(poolKey: string, from: number, to: number): Promise<Trade[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT trade FROM deepbook_trades WHERE pool_key = ? AND timestamp_ms BETWEEN ? AND ? ORDER BY timestamp_ms'
+      )
+      .all(poolKey, from, Number.isFinite(to) ? to : Number.MAX_SAFE_INTEGER) as Array<{ trade: string }>;
+    return rows.map(row => JSON.parse(row.trade));
+  }
+
+  async latestTimestamp(poolKey: string): Promise<number | undefined> {
+    const row = this.db
+      .prepare('SELECT MAX(timestamp_ms) AS latest FROM deepbook_trades WHERE pool_key = ?')
+      .get(poolKey) as { latest: number | null } | undefined;
+    return row?.latest ?? undefined;
+  }
+}
+
+function tradeKey(trade: Trade): string {
+  return `${trade.txDigest}:${trade.eventSeq}`;
+}
+
+function inRange(trades: Trade[], from: number, to: number): Trade[] {
+  return trades
+    .filter(trade => trade.timestampMs >= from && trade.timestampMs <= to)
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+function latest(trades: Trade[]): number | undefined {
+  return trades.reduce<number | undefined>(
+    (max, trade) => (max === undefined || trade.timestampMs > max ? trade.timestampMs : max),
+    undefined
+  );
+}
@@ -272,13 +272,10 @@ export class ArbitrageBot {
         isBaseAsset,
       });
 
-      // In a real implementation, you would:
-      // 1. Sign the transaction
-      // 2. Execute it
-      // 3. Wait for confirmation
-      // 4. Check results
+      // Sign, execute and wait for confirmation; throws TransactionError on failure
+      const result = await this.tradingClient.execute(tx, { gasBudget: 'estimate' });
 
-      console.log('✅ Arbitrage transaction created successfully');
+      console.log(`✅ Arbitrage transaction executed: ${result.digest}`);
 
       // Update state
       this.state.tradesExecuted++;
@@ -362,7 +359,7 @@ export async function runArbitrageBotExample(): Promise<void> {
   console.log(`   Slippage tolerance: ${(config.slippageTolerance * 100).toFixed(2)}%\n`);
 
   console.log('💡 This is a template. To run:');
-  console.log('   1. Initialize DeepBookTradingClient with your credentials');
+  console.log('   1. Initialize DeepBookTradingClient with your credentials and a signer');
   console.log('   2. Create an ArbitrageBot instance with the client and config');
   console.log('   3. Call bot.start() to begin scanning for opportunities');
   console.log('   4. Monitor performance and adjust parameters as needed\n');
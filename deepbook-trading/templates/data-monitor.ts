@@ -6,7 +6,7 @@
  * This template provides a foundation for building data monitoring systems
  */
 
-import { DeepBookTradingClient } from '../src/index.js';
+import { DeepBookTradingClient, TradeHistory } from '../src/index.js';
 import type { SuiClient } from '@mysten/sui/client';
 
 export interface MonitorConfig {
@@ -62,10 +62,15 @@ export class DataMonitor {
     totalChecks: 0,
   };
 
+  // Fills since the monitor started (and the 24 hours before), for 24h volume
+  private trades: TradeHistory;
+
   constructor(
     private tradingClient: DeepBookTradingClient,
     private config: MonitorConfig
   ) {
+    this.trades = tradingClient.createTradeHistory();
+
     // Initialize history for each pool
     for (const pool of config.pools) {
       this.state.history[pool.key] = [];
@@ -139,14 +144,16 @@ export class DataMonitor {
       // Get pool statistics
       const poolStats = await this.tradingClient.queries.getPoolStats(poolKey);
 
-      // Calculate spread percent
-      const spreadPercent = orderBook.bids[0] && orderBook.asks[0]
-        ? ((orderBook.asks[0].price - orderBook.bids[0].price) / orderBook.midPrice) * 100
-        : 0;
+      // Fetch new fills and total the last 24 hours
+      await this.trades.sync(poolKey);
+      const { volume: volume24h } = await this.trades.getSummary(poolKey);
+
+      // Spread in percent (bps / 100)
+      const spreadPercent = orderBook.spread ? orderBook.spread.bps / 100 : 0;
 
-      // Calculate depth (sum of top 10 levels)
-      const bidDepth = orderBook.bids.slice(0, 10).reduce((sum, bid) => sum + bid.quantity, 0);
-      const askDepth = orderBook.asks.slice(0, 10).reduce((sum, ask) => sum + ask.quantity, 0);
+      // Depth across the top 10 levels
+      const bidDepth = orderBook.bids[Math.min(orderBook.bids.length, 10) - 1]?.cumulativeQuantity ?? 0;
+      const askDepth = orderBook.asks[Math.min(orderBook.asks.length, 10) - 1]?.cumulativeQuantity ?? 0;
 
       const dataPoint: MarketDataPoint = {
         timestamp: Date.now(),
@@ -155,6 +162,7 @@ export class DataMonitor {
         spreadPercent,
         bidDepth,
         askDepth,
+        volume24h,
         totalValueLocked: poolStats.vaultBalances.base * orderBook.midPrice + poolStats.vaultBalances.quote,
       };
 
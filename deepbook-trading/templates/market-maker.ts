@@ -6,7 +6,8 @@
  * This template provides a foundation for building market making bots
  */
 
-import { DeepBookTradingClient } from '../src/index.js';
+import { DeepBookTradingClient, OrderBookReplica, OrderType } from '../src/index.js';
+import type { DeepBookEventStream, OrderUpdate } from '../src/index.js';
 import type { SuiClient } from '@mysten/sui/client';
 import type { Transaction } from '@mysten/sui/transactions';
 
@@ -48,10 +49,20 @@ export class MarketMakerBot {
     lastUpdate: 0,
   };
 
+  // Local order book, kept current from pool events instead of re-querying each cycle
+  private book: OrderBookReplica;
+  // PnL counts the fills since the bot started
+  private startedAt = Date.now();
+  // Our order events, so quotes that expire or get cancelled leave activeOrders without polling
+  private orderUpdates: DeepBookEventStream<OrderUpdate>;
+
   constructor(
     private tradingClient: DeepBookTradingClient,
     private config: MarketMakingConfig
-  ) {}
+  ) {
+    this.book = tradingClient.createOrderBookReplica(config.poolKey);
+    this.orderUpdates = tradingClient.events.orderUpdates(config.balanceManagerKey);
+  }
 
   /**
    * Start the market making bot
@@ -82,11 +93,13 @@ export class MarketMakerBot {
    */
   private async initialize(): Promise<void> {
     try {
-      // Get current market data
-      const orderBook = await this.tradingClient.queries.getOrderBook({
-        poolKey: this.config.poolKey,
-        depth: this.config.maxOrdersPerSide * 2,
-      });
+      // Take the first order book snapshot
+      await this.book.sync();
+
+      this.orderUpdates
+        .on('data', (update: OrderUpdate) => this.handleOrderUpdate(update))
+        .on('error', error => console.error('❌ Order update stream error:', error))
+        .start();
 
       // Get current account position
       const accountInfo = await this.tradingClient.queries.getAccountInfo({
@@ -103,7 +116,7 @@ export class MarketMakerBot {
 
       console.log('✅ Market maker initialized');
       console.log(`   Current position: ${this.state.currentPosition.baseBalance} base, ${this.state.currentPosition.quoteBalance} quote`);
-      console.log(`   Mid price: ${orderBook.midPrice}`);
+      console.log(`   Mid price: ${this.book.midPrice()}`);
 
     } catch (error) {
       console.error('❌ Failed to initialize market maker:', error);
@@ -115,13 +128,14 @@ export class MarketMakerBot {
    * Update market making orders based on current market conditions
    */
   private async updateMarketMaking(): Promise<void> {
-    // 1. Get current market data
-    const orderBook = await this.tradingClient.queries.getOrderBook({
-      poolKey: this.config.poolKey,
-      depth: this.config.maxOrdersPerSide * 2,
-    });
+    // 1. Catch the local order book up with the latest checkpoints
+    await this.book.sync();
 
-    const midPrice = orderBook.midPrice;
+    const midPrice = this.book.midPrice();
+    if (midPrice === null) {
+      console.log('⚠️ One side of the book is empty, skipping this cycle');
+      return;
+    }
     const spreadAmount = midPrice * (this.config.spreadPercent / 100);
 
     // 2. Calculate bid and ask prices
@@ -132,6 +146,7 @@ export class MarketMakerBot {
 
     // 3. Cancel old orders
     await this.cancelOldOrders();
+    this.state.currentPosition.pnl = await this.calculatePnL(midPrice);
 
     // 4. Check risk limits
     if (!this.checkRiskLimits()) {
@@ -150,27 +165,44 @@ export class MarketMakerBot {
   /**
    * Place bid (buy) order
    */
-  private async placeBidOrder(price: number): Promise<void> {
+  private async placeBidOrder(targetPrice: number): Promise<void> {
     try {
-      const tx = await this.tradingClient.trading.placeLimitOrder({
+      const order = {
         poolKey: this.config.poolKey,
         balanceManagerKey: this.config.balanceManagerKey,
-        price,
+        price: targetPrice,
         quantity: this.config.orderSize,
         isBid: true,
-        clientOrderId: `mm_bid_${Date.now()}`,
-        orderType: 'limit',
-        expiration: Math.floor(Date.now() / 1000) + 300, // 5 minutes
+        autoRound: true,
+      };
+
+      // Snap price and size onto the pool's tick/lot grid before paying gas
+      const validation = await this.tradingClient.trading.validateOrder(order);
+      validation.warnings.forEach(warning => console.log(`⚠️  Bid order adjusted: ${warning}`));
+      if (!validation.valid) {
+        console.log(`⚠️  Skipping bid order: ${validation.errors.join('; ')}`);
+        return;
+      }
+      const price = validation.price as number;
+      const quantity = validation.quantity;
+
+      const tx = await this.tradingClient.trading.placeLimitOrder({
+        ...order,
+        price,
+        quantity,
+        orderType: OrderType.POST_ONLY, // Quotes should only ever add liquidity
+        expiration: { durationMs: 5 * 60 * 1000 }, // 5 minutes
       });
 
-      // In a real implementation, you would sign and execute the transaction
-      console.log(`📈 Placed bid order at ${price.toFixed(6)} for ${this.config.orderSize} base asset`);
+      const result = await this.tradingClient.execute(tx);
+      console.log(`📈 Placed bid order at ${price.toFixed(6)} for ${quantity} base asset (tx: ${result.digest})`);
 
-      // Record order in state
+      // Record the on-chain order ID so the order can be cancelled later
+      const placed = result.events.find(event => event.name === 'OrderPlaced');
       this.state.activeOrders.push({
-        orderId: `mm_bid_${Date.now()}`,
+        orderId: String(placed?.data.order_id ?? ''),
         price,
-        quantity: this.config.orderSize,
+        quantity,
         isBid: true,
         timestamp: Date.now(),
       });
@@ -183,26 +215,44 @@ export class MarketMakerBot {
   /**
    * Place ask (sell) order
    */
-  private async placeAskOrder(price: number): Promise<void> {
+  private async placeAskOrder(targetPrice: number): Promise<void> {
     try {
-      const tx = await this.tradingClient.trading.placeLimitOrder({
+      const order = {
         poolKey: this.config.poolKey,
         balanceManagerKey: this.config.balanceManagerKey,
-        price,
+        price: targetPrice,
         quantity: this.config.orderSize,
         isBid: false,
-        clientOrderId: `mm_ask_${Date.now()}`,
-        orderType: 'limit',
-        expiration: Math.floor(Date.now() / 1000) + 300, // 5 minutes
+        autoRound: true,
+      };
+
+      // Snap price and size onto the pool's tick/lot grid before paying gas
+      const validation = await this.tradingClient.trading.validateOrder(order);
+      validation.warnings.forEach(warning => console.log(`⚠️  Ask order adjusted: ${warning}`));
+      if (!validation.valid) {
+        console.log(`⚠️  Skipping ask order: ${validation.errors.join('; ')}`);
+        return;
+      }
+      const price = validation.price as number;
+      const quantity = validation.quantity;
+
+      const tx = await this.tradingClient.trading.placeLimitOrder({
+        ...order,
+        price,
+        quantity,
+        orderType: OrderType.POST_ONLY, // Quotes should only ever add liquidity
+        expiration: { durationMs: 5 * 60 * 1000 }, // 5 minutes
       });
 
-      console.log(`📉 Placed ask order at ${price.toFixed(6)} for ${this.config.orderSize} base asset`);
+      const result = await this.tradingClient.execute(tx);
+      console.log(`📉 Placed ask order at ${price.toFixed(6)} for ${quantity} base asset (tx: ${result.digest})`);
 
-      // Record order in state
+      // Record the on-chain order ID so the order can be cancelled later
+      const placed = result.events.find(event => event.name === 'OrderPlaced');
       this.state.activeOrders.push({
-        orderId: `mm_ask_${Date.now()}`,
+        orderId: String(placed?.data.order_id ?? ''),
         price,
-        quantity: this.config.orderSize,
+        quantity,
         isBid: false,
         timestamp: Date.now(),
       });
@@ -223,8 +273,13 @@ export class MarketMakerBot {
 
     for (const order of ordersToCancel) {
       try {
-        // In a real implementation, you would execute cancel transaction
         console.log(`🗑️  Canceling old order: ${order.orderId}`);
+        const tx = await this.tradingClient.trading.cancelOrder(
+          this.config.poolKey,
+          this.config.balanceManagerKey,
+          order.orderId
+        );
+        await this.tradingClient.execute(tx);
 
         // Remove from active orders
         this.state.activeOrders = this.state.activeOrders.filter(
@@ -236,6 +291,16 @@ export class MarketMakerBot {
     }
   }
 
+  /**
+   * Forget orders that left the book
+   */
+  private handleOrderUpdate(update: OrderUpdate): void {
+    if (update.poolKey !== this.config.poolKey || (update.type !== 'cancelled' && update.type !== 'expired')) {
+      return;
+    }
+    this.state.activeOrders = this.state.activeOrders.filter(order => order.orderId !== update.orderId);
+  }
+
   /**
    * Check risk limits
    */
@@ -256,27 +321,27 @@ export class MarketMakerBot {
   }
 
   /**
-   * Calculate current PnL
+   * Calculate PnL of the fills since start, marking the net base position at the mid price
+   * Fees paid in DEEP are not valued in the quote asset and are left out.
    */
-  private async calculatePnL(): Promise<number> {
+  private async calculatePnL(midPrice: number): Promise<number> {
     try {
-      // Get current market price
-      const orderBook = await this.tradingClient.queries.getOrderBook({
-        poolKey: this.config.poolKey,
-        depth: 1,
-      });
-
-      const currentPrice = orderBook.midPrice;
-      const positionValue = this.state.currentPosition.baseBalance * currentPrice;
-      const totalValue = positionValue + this.state.currentPosition.quoteBalance;
+      const { totals, complete, scannedFrom } = await this.tradingClient.queries.getAccountHistory(
+        this.config.balanceManagerKey,
+        this.config.poolKey,
+        { from: this.startedAt }
+      );
+      if (!complete) {
+        console.log(`⚠️  PnL misses maker fills before ${new Date(scannedFrom).toISOString()}`);
+      }
 
-      // Simple PnL calculation
-      // In a real implementation, you would track entry prices and calculate realized/unrealized PnL
-      return totalValue;
+      const netBase = totals.baseBought - totals.baseSold - totals.fees.base;
+      const netQuote = totals.quoteReceived - totals.quoteSpent - totals.fees.quote;
+      return netQuote + netBase * midPrice;
 
     } catch (error) {
       console.error('❌ Failed to calculate PnL:', error);
-      return 0;
+      return this.state.currentPosition.pnl;
     }
   }
 
@@ -285,15 +350,18 @@ export class MarketMakerBot {
    */
   async stop(): Promise<void> {
     console.log('🛑 Stopping market maker...');
+    this.orderUpdates.stop();
 
     // Cancel all active orders
-    for (const order of this.state.activeOrders) {
-      try {
-        console.log(`🗑️  Canceling order: ${order.orderId}`);
-        // Cancel order implementation would go here
-      } catch (error) {
-        console.error(`❌ Failed to cancel order ${order.orderId}:`, error);
-      }
+    try {
+      console.log(`🗑️  Canceling ${this.state.activeOrders.length} orders`);
+      const tx = await this.tradingClient.trading.cancelAllOrders(
+        this.config.poolKey,
+        this.config.balanceManagerKey
+      );
+      await this.tradingClient.execute(tx);
+    } catch (error) {
+      console.error('❌ Failed to cancel orders:', error);
     }
 
     // Clear state
@@ -344,7 +412,7 @@ export async function runMarketMakerExample(): Promise<void> {
   console.log(`   Max position size: ${config.maxPositionSize} SUI\n`);
 
   console.log('💡 This is a template. To run:');
-  console.log('   1. Initialize DeepBookTradingClient with your credentials');
+  console.log('   1. Initialize DeepBookTradingClient with your credentials and a signer');
   console.log('   2. Create a MarketMakerBot instance with the client and config');
   console.log('   3. Call bot.start() to begin market making');
   console.log('   4. Monitor performance and adjust parameters as needed\n');
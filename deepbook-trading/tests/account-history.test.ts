@@ -0,0 +1,170 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import type { DeepBookEvent } from '../src/types/index.js';
+import type { AccountHistoryContext } from '../src/utils/account-history.js';
+import { buildAccountHistory } from '../src/utils/account-history.js';
+
+const MANAGER = '0x' + 'a'.repeat(64);
+const OTHER_MANAGER = '0x' + 'b'.repeat(64);
+const POOL = '0x' + 'c'.repeat(64);
+const OTHER_POOL = '0x' + 'd'.repeat(64);
+
+const context: AccountHistoryContext = {
+  balanceManagerId: MANAGER,
+  poolKey: 'SUI_USDC',
+  poolId: POOL,
+  from: 0,
+  to: 1_000,
+  scalars: { base: 1e9, quote: 1e6, deep: 1e6 },
+};
+
+// On-chain price for a USDC price per SUI, and one SUI in its smallest units
+const rawPrice = (price: number) => String(price * 1e6);
+const SUI = 1e9;
+
+function event(name: string, timestampMs: number, data: Record<string, unknown>): DeepBookEvent {
+  return {
+    type: `0xdeeb::order_info::${name}`,
+    module: 'order_info',
+    name,
+    sender: MANAGER,
+    txDigest: `tx${timestampMs}`,
+    eventSeq: '0',
+    timestampMs,
+    data: { pool_id: POOL, ...data },
+  };
+}
+
+function placed(
+  timestampMs: number,
+  orderId: string,
+  isBid: boolean,
+  price: number,
+  quantity: number,
+  overrides: Record<string, unknown> = {}
+): DeepBookEvent {
+  return event('OrderPlaced', timestampMs, {
+    balance_manager_id: MANAGER,
+    order_id: orderId,
+    client_order_id: '7',
+    is_bid: isBid,
+    price: rawPrice(price),
+    placed_quantity: String(quantity * SUI),
+    ...overrides,
+  });
+}
+
+function filled(
+  timestampMs: number,
+  maker: { manager: string; orderId: string },
+  taker: { manager: string; orderId: string; isBid: boolean },
+  price: number,
+  quantity: number
+): DeepBookEvent {
+  return event('OrderFilled', timestampMs, {
+    maker_balance_manager_id: maker.manager,
+    maker_order_id: maker.orderId,
+    maker_client_order_id: '7',
+    maker_fee: '0',
+    maker_fee_is_deep: true,
+    taker_balance_manager_id: taker.manager,
+    taker_order_id: taker.orderId,
+    taker_client_order_id: '8',
+    taker_fee: String(0.01 * 1e6),
+    taker_fee_is_deep: true,
+    taker_is_bid: taker.isBid,
+    price: rawPrice(price),
+    base_quantity: String(quantity * SUI),
+    quote_quantity: String(quantity * price * 1e6),
+  });
+}
+
+describe('buildAccountHistory', () => {
+  it('records both sides of a self-matching fill', () => {
+    const history = buildAccountHistory(
+      [
+        placed(1, '1', true, 1.5, 10),
+        filled(2, { manager: MANAGER, orderId: '1' }, { manager: MANAGER, orderId: '2', isBid: false }, 1.5, 4),
+      ],
+      context
+    );
+
+    expect(history.fills.map(fill => [fill.orderId, fill.role, fill.isBid])).toEqual([
+      ['1', 'maker', true],
+      ['2', 'taker', false],
+    ]);
+    expect(history.orders.map(order => [order.orderId, order.status, order.restingQuantity])).toEqual([
+      ['1', 'partially_filled', 6],
+      ['2', 'filled', 0],
+    ]);
+    expect(history.totals).toMatchObject({ baseBought: 4, baseSold: 4, quoteSpent: 6, quoteReceived: 6 });
+    expect(history.totals.fees.deep).toBeCloseTo(0.01);
+  });
+
+  it('follows an order through a modification, a fill and a cancel', () => {
+    const history = buildAccountHistory(
+      [
+        event('OrderCanceled', 4, {
+          balance_manager_id: MANAGER,
+          order_id: '3',
+          is_bid: false,
+          price: rawPrice(2),
+          base_asset_quantity_canceled: String(5 * SUI),
+        }),
+        placed(1, '3', false, 2, 10),
+        event('OrderModified', 2, {
+          balance_manager_id: MANAGER,
+          order_id: '3',
+          is_bid: false,
+          price: rawPrice(2),
+          previous_quantity: String(10 * SUI),
+          new_quantity: String(7 * SUI),
+          filled_quantity: '0',
+        }),
+        filled(3, { manager: MANAGER, orderId: '3' }, { manager: OTHER_MANAGER, orderId: '9', isBid: true }, 2, 2),
+      ],
+      context
+    );
+
+    const [order] = history.orders;
+    expect(history.orders).toHaveLength(1);
+    expect(order.events.map(({ type, quantity }) => [type, quantity])).toEqual([
+      ['placed', 10],
+      ['modified', 3],
+      ['filled', 2],
+      ['cancelled', 5],
+    ]);
+    expect(order).toMatchObject({ status: 'cancelled', price: 2, restingQuantity: 0, filledQuantity: 2 });
+    expect(order.averagePrice).toBe(2);
+    expect(history.totals).toMatchObject({ baseSold: 2, quoteReceived: 4, baseBought: 0 });
+  });
+
+  it('counts an event seen twice once and skips other pools and managers', () => {
+    const maker = { manager: MANAGER, orderId: '1' };
+    const fill = filled(2, maker, { manager: OTHER_MANAGER, orderId: '9', isBid: false }, 1.5, 10);
+    const history = buildAccountHistory(
+      [
+        placed(1, '1', true, 1.5, 10),
+        fill,
+        { ...fill, data: { ...fill.data } },
+        placed(3, '4', true, 1.4, 1, { pool_id: OTHER_POOL }),
+        placed(4, '5', true, 1.4, 1, { balance_manager_id: OTHER_MANAGER }),
+      ],
+      context
+    );
+
+    expect(history.fills).toHaveLength(1);
+    expect(history.orders.map(order => [order.orderId, order.status])).toEqual([['1', 'filled']]);
+    expect(history.totals.baseBought).toBe(10);
+  });
+
+  it('reports how far back a cut-short scan reached', () => {
+    expect(buildAccountHistory([], context)).toMatchObject({ complete: true, scannedFrom: 0 });
+    expect(buildAccountHistory([], { ...context, scannedFrom: 500 })).toMatchObject({
+      complete: false,
+      scannedFrom: 500,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/types/index.js';
+import {
+  ClientOrderIdAllocator,
+  FileClientOrderIdStore,
+  MemoryClientOrderIdStore,
+  toClientOrderId,
+} from '../src/utils/client-order-ids.js';
+import { MAX_U64 } from '../src/utils/config.js';
+
+describe('ClientOrderIdAllocator', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'deepbook-order-ids-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('hands out distinct IDs per balance manager to concurrent callers', async () => {
+    const allocator = new ClientOrderIdAllocator();
+    const ids = await Promise.all([allocator.next('MAIN'), allocator.nextBatch('MAIN', 2), allocator.next('MAIN')]);
+
+    expect(ids).toEqual(['1', ['2', '3'], '4']);
+    expect(await allocator.next('OTHER')).toBe('1');
+  });
+
+  it('resumes above the reserved block after a restart', async () => {
+    const path = join(dir, 'state', 'order-ids.json');
+    const first = new ClientOrderIdAllocator(new FileClientOrderIdStore(path), { reserveSize: 10 });
+    expect(await first.nextBatch('MAIN', 3)).toEqual(['1', '2', '3']);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ MAIN: '12' });
+
+    const restarted = new ClientOrderIdAllocator(new FileClientOrderIdStore(path), { reserveSize: 10 });
+    expect(await restarted.next('MAIN')).toBe('13');
+  });
+
+  it('refuses to go past the largest u64', async () => {
+    const store = new MemoryClientOrderIdStore();
+    await store.save('MAIN', MAX_U64 - 1n);
+    const allocator = new ClientOrderIdAllocator(store);
+
+    expect(await allocator.next('MAIN')).toBe(MAX_U64.toString());
+    await expect(allocator.next('MAIN')).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('toClientOrderId', () => {
+  it('normalizes u64 values and rejects anything else', () => {
+    expect(toClientOrderId('007')).toBe('7');
+    expect(toClientOrderId(42n)).toBe('42');
+    expect(() => toClientOrderId('-1')).toThrow(ValidationError);
+    expect(() => toClientOrderId((MAX_U64 + 1n).toString())).toThrow('must be a u64');
+  });
+});
@@ -0,0 +1,92 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookConfig } from '@mysten/deepbook-v3';
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/types/index.js';
+import { returnToSender, settleSwapOutputs } from '../src/utils/coins.js';
+
+const SENDER = '0x' + 'b'.repeat(64);
+const RECIPIENT = '0x' + 'c'.repeat(64);
+
+const config = {
+  DEEPBOOK_PACKAGE_ID: '0xdee9',
+  getBalanceManager: (key: string) => ({ address: key === 'main' ? '0x' + 'd'.repeat(64) : '0x0' }),
+  getCoin: (key: string) => ({ type: `0x2::${key.toLowerCase()}::${key}` }),
+} as unknown as DeepBookConfig;
+
+/**
+ * Transaction holding three coin results, as a swap leaves them
+ */
+function swapOutputs() {
+  const tx = new Transaction();
+  const [base, quote, deep] = tx.moveCall({ target: '0x1::pool::swap' });
+  return {
+    tx,
+    coins: [
+      { coinKey: 'SUI', coin: base },
+      { coinKey: 'USDC', coin: quote },
+      { coinKey: 'DEEP', coin: deep },
+    ],
+  };
+}
+
+/**
+ * Address a transfer command sends its coins to
+ */
+function transferTarget(tx: Transaction, index: number) {
+  const { commands, inputs } = tx.getData();
+  const address = commands[index].TransferObjects!.address;
+  const bytes = address.$kind === 'Input' ? inputs[address.Input].Pure?.bytes : undefined;
+  return bytes && bcs.Address.fromBase64(bytes);
+}
+
+describe('settleSwapOutputs', () => {
+  it('transfers all outputs to the recipient', () => {
+    const { tx, coins } = swapOutputs();
+    tx.setSender(SENDER);
+    settleSwapOutputs(tx, coins, { recipient: RECIPIENT });
+
+    const { commands } = tx.getData();
+    expect(commands).toHaveLength(2);
+    expect(commands[1].TransferObjects?.objects).toHaveLength(3);
+    expect(transferTarget(tx, 1)).toBe(RECIPIENT);
+  });
+
+  it('returns outputs to the sender without a recipient', () => {
+    const { tx, coins } = swapOutputs();
+    tx.setSender(SENDER);
+    settleSwapOutputs(tx, coins, {});
+    expect(transferTarget(tx, 1)).toBe(SENDER);
+
+    const unsigned = swapOutputs();
+    expect(() => settleSwapOutputs(unsigned.tx, unsigned.coins, {})).toThrow(
+      'Transaction has no sender to return coins to'
+    );
+    expect(() => returnToSender(unsigned.tx, [])).toThrow(ValidationError);
+  });
+
+  it('deposits each output into the balance manager with its coin type', () => {
+    const { tx, coins } = swapOutputs();
+    settleSwapOutputs(tx, coins, { depositInto: 'main', recipient: RECIPIENT }, config);
+
+    const deposits = tx.getData().commands.slice(1).map(command => command.MoveCall);
+    expect(deposits.map(call => `${call?.module}::${call?.function}`)).toEqual(
+      Array(3).fill('balance_manager::deposit')
+    );
+    expect(deposits.map(call => call?.typeArguments[0])).toEqual([
+      '0x2::sui::SUI',
+      '0x2::usdc::USDC',
+      '0x2::deep::DEEP',
+    ]);
+  });
+
+  it('rejects depositing without a DeepBook config', () => {
+    const { tx, coins } = swapOutputs();
+    expect(() => settleSwapOutputs(tx, coins, { depositInto: 'main' })).toThrow(
+      new ValidationError('Depositing into main needs a DeepBook config')
+    );
+  });
+});
@@ -0,0 +1,29 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import { DEEP_SCALAR } from '../src/utils/config.js';
+import { COMMON_PAIRS, DEFAULT_POOL, getDefaultCoins, getDefaultPools } from '../src/utils/constants.js';
+import { loadRegistry } from '../src/utils/registry.js';
+
+describe('constants', () => {
+  it('names only pools in the registry', () => {
+    for (const [environment, pairs] of Object.entries(COMMON_PAIRS)) {
+      const pools = getDefaultPools(environment);
+      for (const poolKey of [...pairs, DEFAULT_POOL[environment]].filter(Boolean)) {
+        expect(pools, `${environment} ${poolKey}`).toHaveProperty(poolKey);
+      }
+    }
+  });
+
+  it('scales DEEP by its registry decimals', () => {
+    for (const environment of ['mainnet', 'testnet'] as const) {
+      expect(loadRegistry(environment).coins.DEEP.scalar).toBe(DEEP_SCALAR);
+    }
+  });
+
+  it('returns empty maps for an environment missing from the registry files', () => {
+    expect(getDefaultCoins('localnet')).toEqual({});
+    expect(getDefaultPools('localnet')).toEqual({});
+  });
+});
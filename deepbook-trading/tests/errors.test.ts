@@ -0,0 +1,92 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { describe, expect, it } from 'vitest';
+import { DeepBookQueryWrapper } from '../src/query-wrapper.js';
+import {
+  OrderNotFoundError,
+  QueryError,
+  RegistryError,
+  TransactionError,
+  ValidationError,
+} from '../src/types/index.js';
+import { toQueryError, toTransactionError } from '../src/utils/errors.js';
+
+const NOT_FOUND =
+  'MoveAbort(MoveLocation { module: ModuleId { address: 2c8d, name: Identifier("big_vector") }, ' +
+  'function: 4, instruction: 12, function_name: Some("borrow") }, 3) in command 0';
+
+describe('toQueryError', () => {
+  it('wraps foreign errors with the message, context and cause', () => {
+    const cause = new Error('fetch failed');
+    const error = toQueryError(cause, 'Failed to get pool stats for SUI_USDC', {
+      operation: 'getPoolStats',
+      poolKey: 'SUI_USDC',
+    });
+
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error).toMatchObject({
+      message: 'Failed to get pool stats for SUI_USDC: fetch failed',
+      code: 'QUERY_ERROR',
+      operation: 'getPoolStats',
+      poolKey: 'SUI_USDC',
+    });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('keeps errors of the family and only fills in missing context', () => {
+    const original = new ValidationError('Quantity must be positive', { operation: 'placeLimitOrder' });
+    const error = toQueryError(original, 'Failed', { operation: 'batch', poolKey: 'SUI_USDC' });
+
+    expect(error).toBe(original);
+    expect(error).toMatchObject({ code: 'VALIDATION_ERROR', operation: 'placeLimitOrder', poolKey: 'SUI_USDC' });
+  });
+
+  it('decodes Move aborts into their typed error', () => {
+    const error = toQueryError(new Error(NOT_FOUND), 'Failed', { operation: 'getOrderNormalized' });
+
+    expect(error).toBeInstanceOf(OrderNotFoundError);
+    expect(error.operation).toBe('getOrderNormalized');
+  });
+});
+
+describe('toTransactionError', () => {
+  it('wraps build failures without a digest', () => {
+    const error = toTransactionError('no gas coins', 'Failed to build swap', { operation: 'swap' });
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error).toMatchObject({ message: 'Failed to build swap: no gas coins', cause: 'no gas coins' });
+    expect((error as TransactionError).txDigest).toBeUndefined();
+  });
+});
+
+describe('DeepBookQueryWrapper errors', () => {
+  const failing = (error: unknown) =>
+    new DeepBookQueryWrapper({
+      getOrderNormalized: async () => {
+        throw error;
+      },
+    } as unknown as DeepBookClient);
+
+  it('reports the operation and pool of a failed read', async () => {
+    const error = await failing(new Error('timeout')).getOrderNormalized('SUI_USDC', '1').catch(error => error);
+
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error).toMatchObject({
+      message: 'Failed to get order 1 from pool SUI_USDC: timeout',
+      operation: 'getOrderNormalized',
+      poolKey: 'SUI_USDC',
+    });
+  });
+
+  it('passes typed errors through with the read context', async () => {
+    const error = await failing(new Error(NOT_FOUND)).getOrderNormalized('SUI_USDC', '1').catch(error => error);
+    expect(error).toBeInstanceOf(OrderNotFoundError);
+    expect(error).toMatchObject({ operation: 'getOrderNormalized', poolKey: 'SUI_USDC' });
+
+    const unknownPool = await failing(null).getPoolStats('SUI_USDC').catch(error => error);
+    expect(unknownPool).toBeInstanceOf(RegistryError);
+    expect(unknownPool).toMatchObject({ code: 'REGISTRY_ERROR', operation: 'getPoolStats', entryKey: 'SUI_USDC' });
+  });
+});
@@ -0,0 +1,151 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import { DeepBookEvents } from '../src/event-streams.js';
+import type { DeepBookEventStream } from '../src/event-streams.js';
+import type { Registry } from '../src/types/index.js';
+import { MemoryEventCursorStore } from '../src/utils/event-cursors.js';
+import { FakeEventSource } from '../src/utils/fake-event-source.js';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+
+const registry: Registry = {
+  environment: 'mainnet',
+  coins: {
+    SUI: { address: '0x2', type: '0x2::sui::SUI', scalar: 1e9, decimals: 9 },
+    USDC: { address: '0x3', type: '0x3::usdc::USDC', scalar: 1e6, decimals: 6 },
+  },
+  pools: { SUI_USDC: { address: POOL_ID, baseCoin: 'SUI', quoteCoin: 'USDC' } },
+};
+
+function fill(source: FakeEventSource, timestampMs: number, orderId = '1') {
+  return source.emit({
+    name: 'OrderFilled',
+    timestampMs,
+    data: {
+      pool_id: POOL_ID,
+      maker_order_id: orderId,
+      taker_order_id: '2',
+      maker_balance_manager_id: '0xa',
+      taker_balance_manager_id: '0xb',
+      taker_is_bid: true,
+      price: '1500000',
+      base_quantity: '1000000000',
+      quote_quantity: '1500000',
+    },
+  })[0];
+}
+
+function place(source: FakeEventSource, timestampMs: number, orderId: string) {
+  return source.emit({
+    name: 'OrderPlaced',
+    timestampMs,
+    data: { pool_id: POOL_ID, order_id: orderId, is_bid: true, price: '1500000', placed_quantity: '1000000000' },
+  })[0];
+}
+
+/**
+ * Read items until count have arrived, leaving the loop like a consumer would
+ */
+async function take<T>(stream: DeepBookEventStream<T>, count: number): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+    if (items.length === count) {
+      break;
+    }
+  }
+  return items;
+}
+
+describe('DeepBookEventStream', () => {
+  it('merges event types oldest first across pages', async () => {
+    const source = new FakeEventSource();
+    for (const [timestampMs, orderId] of [[10, 'p1'], [20, 'p2'], [30, 'p3'], [40, 'p4']] as const) {
+      place(source, timestampMs, orderId);
+    }
+    fill(source, 15, 'f1');
+    fill(source, 35, 'f2');
+
+    // With two events per page, the second OrderPlaced page is still unread when the fill at 35 arrives
+    const stream = new DeepBookEvents(source, registry).bookChanges('SUI_USDC', { startAt: 'earliest', pageSize: 2 });
+    const changes = await take(stream, 6);
+
+    expect(changes.map(change => [change.timestampMs, change.type, change.orderId])).toEqual([
+      [10, 'placed', 'p1'],
+      [15, 'filled', 'f1'],
+      [20, 'placed', 'p2'],
+      [30, 'placed', 'p3'],
+      [35, 'filled', 'f2'],
+      [40, 'placed', 'p4'],
+    ]);
+    expect(changes.map(change => change.quantityDelta)).toEqual([1, -1, 1, 1, -1, 1]);
+  });
+
+  it('merges events of one checkpoint in execution order rather than digest order', async () => {
+    const source = new FakeEventSource();
+    const cancel = (orderId: string) => ({
+      name: 'OrderCanceled',
+      module: 'order',
+      timestampMs: 10,
+      data: { pool_id: POOL_ID, order_id: orderId, is_bid: true, price: '1500000', base_asset_quantity_canceled: '1' },
+    });
+    const placement = (orderId: string) => ({
+      name: 'OrderPlaced',
+      timestampMs: 10,
+      data: { pool_id: POOL_ID, order_id: orderId, is_bid: true, price: '1500000', placed_quantity: '1000000000' },
+    });
+    // Digests sort in reverse of execution, and the placements fill more than one page
+    source.emitTransaction('tx-d', placement('1'));
+    source.emitTransaction('tx-c', placement('2'));
+    source.emitTransaction('tx-b', cancel('2'));
+    source.emitTransaction('tx-a', placement('3'));
+
+    const stream = new DeepBookEvents(source, registry).bookChanges('SUI_USDC', { startAt: 'earliest', pageSize: 2 });
+    const changes = await take(stream, 4);
+
+    expect(changes.map(change => [change.txDigest, change.type, change.orderId])).toEqual([
+      ['tx-d', 'placed', '1'],
+      ['tx-c', 'placed', '2'],
+      ['tx-b', 'cancelled', '2'],
+      ['tx-a', 'placed', '3'],
+    ]);
+  });
+
+  it('saves the cursor when the consumer leaves the loop and resumes after it', async () => {
+    const source = new FakeEventSource();
+    const cursors = new MemoryEventCursorStore();
+    const first = fill(source, 10, '1');
+    fill(source, 20, '2');
+    const events = new DeepBookEvents(source, registry, cursors);
+
+    const [trade] = await take(events.fills('SUI_USDC', { startAt: 'earliest' }), 1);
+    expect(trade.makerOrderId).toBe('1');
+    expect(await cursors.load('fills:SUI_USDC:OrderFilled')).toEqual(first.id);
+
+    // The saved cursor wins over startAt
+    const resumed = await take(events.fills('SUI_USDC', { startAt: 'earliest' }), 1);
+    expect(resumed.map(item => item.makerOrderId)).toEqual(['2']);
+  });
+
+  it('starts after the latest existing event unless asked for the earliest', async () => {
+    const source = new FakeEventSource();
+    fill(source, 10, '1');
+    fill(source, 20, '2');
+    const events = new DeepBookEvents(source, registry);
+
+    const latest = events.fills('SUI_USDC', { cursorKey: 'latest', pollIntervalMs: 1 });
+    const iterator = latest[Symbol.asyncIterator]();
+    const next = iterator.next();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    fill(source, 30, '3');
+
+    expect((await next).value).toMatchObject({ makerOrderId: '3', timestampMs: 30 });
+    await iterator.return(undefined);
+    latest.stop();
+
+    const earliest = await take(events.fills('SUI_USDC', { cursorKey: 'earliest', startAt: 'earliest' }), 3);
+    expect(earliest.map(trade => trade.makerOrderId)).toEqual(['1', '2', '3']);
+  });
+});
@@ -0,0 +1,30 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/types/index.js';
+import { MAX_TIMESTAMP } from '../src/utils/config.js';
+import { isGoodTillCancelled, resolveExpiration } from '../src/utils/expiration.js';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('resolveExpiration', () => {
+  it('converts every form into a millisecond timestamp', () => {
+    expect(resolveExpiration('GTC', NOW)).toBe(MAX_TIMESTAMP);
+    expect(resolveExpiration({ durationMs: 60_000 }, NOW)).toBe(BigInt(NOW + 60_000));
+    expect(resolveExpiration(NOW + 1, NOW)).toBe(BigInt(NOW + 1));
+    expect(resolveExpiration(new Date(NOW + 5_000), NOW)).toBe(BigInt(NOW + 5_000));
+  });
+
+  it('rejects second-based, past and non-positive expirations', () => {
+    expect(() => resolveExpiration(Math.floor(NOW / 1000) + 60, NOW)).toThrow('looks like seconds');
+    expect(() => resolveExpiration(NOW, NOW)).toThrow('is in the past');
+    expect(() => resolveExpiration({ durationMs: 0 }, NOW)).toThrow(ValidationError);
+    expect(() => resolveExpiration(NOW + 0.5, NOW)).toThrow('is not a valid millisecond timestamp');
+  });
+
+  it('reads MAX_TIMESTAMP and above as good-till-cancelled', () => {
+    expect(isGoodTillCancelled(MAX_TIMESTAMP.toString())).toBe(true);
+    expect(isGoodTillCancelled(NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { describe, expect, it } from 'vitest';
+import { DeepBookTradingWrapper } from '../src/transaction-wrapper.js';
+import type { FeeMarketData } from '../src/types/index.js';
+import { OrderType, QueryError } from '../src/types/index.js';
+import { crossingQuantity, estimateFees } from '../src/utils/fees.js';
+
+const market: FeeMarketData = {
+  takerFee: 0.001,
+  makerFee: 0.0005,
+  stakeRequired: 100,
+  whitelisted: false,
+  activeStake: 0,
+  deepPerQuote: 10,
+};
+
+describe('estimateFees', () => {
+  it('charges taker fees on the crossing part and maker fees on the rest', () => {
+    const fees = estimateFees({ price: 2, quantity: 10, isBid: true, takerQuantity: 4 }, market);
+
+    expect(fees).toMatchObject({ inputAsset: 'quote', stakeDiscount: false, takerQuantity: 4, makerQuantity: 6 });
+    // 8 quote taken at 10 DEEP per quote, and 12 quote resting
+    expect(fees.taker.deep).toBeCloseTo(0.08);
+    expect(fees.maker.deep).toBeCloseTo(0.06);
+    // Paying in the quote token costs the fee plus the 25% penalty
+    expect(fees.taker.inputToken).toBeCloseTo(8 * 0.001 * 1.25);
+    expect(fees.total.deep).toBeCloseTo(0.14);
+  });
+
+  it('halves the taker fee with enough stake and charges nothing in whitelisted pools', () => {
+    const staked = estimateFees({ price: 2, quantity: 10, isBid: false, takerQuantity: 10 }, {
+      ...market,
+      activeStake: 100,
+      deepPerQuote: undefined,
+      deepPerBase: 3,
+    });
+    expect(staked).toMatchObject({ inputAsset: 'base', stakeDiscount: true, takerFeeRate: 0.0005 });
+    expect(staked.taker.deep).toBeCloseTo(10 * 3 * 0.0005);
+    expect(staked.taker.inputToken).toBeCloseTo(10 * 0.0005 * 1.25);
+
+    const whitelisted = estimateFees({ price: 2, quantity: 10, isBid: true, takerQuantity: 4 }, {
+      ...market,
+      whitelisted: true,
+    });
+    expect(whitelisted.total).toEqual({ deep: 0, inputToken: 0 });
+  });
+
+  it('needs a DEEP price unless no fee is due', () => {
+    const order = { price: 2, quantity: 10, isBid: true, takerQuantity: 4 };
+    const unpriced = { ...market, deepPerQuote: undefined };
+
+    expect(() => estimateFees(order, unpriced)).toThrow('Pool has no DEEP price to convert fees');
+    expect(estimateFees(order, { ...unpriced, whitelisted: true }).total).toEqual({ deep: 0, inputToken: 0 });
+  });
+});
+
+describe('crossingQuantity', () => {
+  const asks = [
+    { price: 1.5, quantity: 3 },
+    { price: 1.6, quantity: 4 },
+    { price: 1.7, quantity: 10 },
+  ];
+
+  it('fills the levels at or better than the limit, up to the order quantity', () => {
+    expect(crossingQuantity({ price: 1.6, quantity: 20, isBid: true }, asks)).toBe(7);
+    expect(crossingQuantity({ price: 1.7, quantity: 5, isBid: true }, asks)).toBe(5);
+    expect(crossingQuantity({ price: 1.4, quantity: 5, isBid: true }, asks)).toBe(0);
+  });
+});
+
+describe('DeepBookTradingWrapper.estimateFees', () => {
+  const client = {
+    poolTradeParams: async () => ({ takerFee: 0.001, makerFee: 0.0005, stakeRequired: 100 }),
+    whitelisted: async () => false,
+    getPoolDeepPrice: async () => ({ asset_is_base: false, deep_per_quote: 10 }),
+    accountExists: async () => true,
+    account: async () => ({ active_stake: 150 }),
+    midPrice: async () => 1.55,
+    getLevel2TicksFromMid: async () => ({
+      bid_prices: [1.5],
+      bid_quantities: [5],
+      ask_prices: [1.6, 1.7],
+      ask_quantities: [3, 10],
+    }),
+  } as unknown as DeepBookClient;
+  const trading = new DeepBookTradingWrapper(client);
+  const order = { poolKey: 'SUI_USDC', balanceManagerKey: 'MAIN', quantity: 10, isBid: true };
+
+  it('splits a limit order by how much of it crosses the book', async () => {
+    const fees = await trading.estimateFees({ ...order, price: 1.6 });
+
+    expect(fees).toMatchObject({ takerQuantity: 3, makerQuantity: 7, stakeDiscount: true, takerFeeRate: 0.0005 });
+  });
+
+  it('treats post-only orders as maker and market orders as taker at the mid price', async () => {
+    expect(await trading.estimateFees({ ...order, price: 1.7, orderType: OrderType.POST_ONLY })).toMatchObject({
+      takerQuantity: 0,
+      makerQuantity: 10,
+    });
+
+    const market = await trading.estimateFees(order);
+    expect(market).toMatchObject({ takerQuantity: 10, makerQuantity: 0 });
+    expect(market.taker.deep).toBeCloseTo(10 * 1.55 * 10 * 0.0005);
+  });
+
+  it('reports a failed read as a query error for the pool', async () => {
+    const failing = new DeepBookTradingWrapper({
+      ...client,
+      whitelisted: async () => Promise.reject(new Error('RPC timeout')),
+    } as unknown as DeepBookClient);
+
+    const error = await failing.estimateFees(order).catch(error => error);
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error).toMatchObject({ operation: 'estimateFees', poolKey: 'SUI_USDC' });
+  });
+});
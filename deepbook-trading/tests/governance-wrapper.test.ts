@@ -0,0 +1,113 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { describe, expect, it } from 'vitest';
+import { DeepBookGovernanceWrapper } from '../src/governance-wrapper.js';
+import type { Registry } from '../src/types/index.js';
+import { QueryError, ValidationError } from '../src/types/index.js';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+const INNER_ID = '0x' + 'b'.repeat(64);
+
+const registry: Registry = {
+  environment: 'mainnet',
+  coins: {
+    SUI: { address: '0x2', type: '0x2::sui::SUI', scalar: 1e9, decimals: 9 },
+    USDC: { address: '0x3', type: '0x3::usdc::USDC', scalar: 1e6, decimals: 6 },
+    DEEP: { address: '0x4', type: '0x4::deep::DEEP', scalar: 1e6, decimals: 6 },
+  },
+  pools: { SUI_USDC: { address: POOL_ID, baseCoin: 'SUI', quoteCoin: 'USDC' } },
+};
+
+const moveObject = (fields: unknown) => ({ data: { content: { dataType: 'moveObject', fields } } });
+
+/**
+ * Stub client serving a pool whose governance state was last touched in the given epoch
+ */
+function stubClient(governanceEpoch: number, account?: Record<string, unknown>) {
+  const proposal = { taker_fee: '1000000', maker_fee: '500000', stake_required: '100000000', votes: '250000000' };
+  const governance = {
+    epoch: String(governanceEpoch),
+    quorum: '500000000',
+    voting_power: '1000000000',
+    proposals: { fields: { contents: [{ fields: { key: '0xabc', value: { fields: proposal } } }] } },
+  };
+  const tradeParams = { takerFee: 0.001, makerFee: 0.0005, stakeRequired: 100 };
+
+  return {
+    poolTradeParams: async () => tradeParams,
+    poolTradeParamsNext: async () => ({ ...tradeParams, takerFee: 0.0008 }),
+    accountExists: async () => account !== undefined,
+    account: async () => account,
+    client: {
+      getLatestSuiSystemState: async () => ({ epoch: '700' }),
+      getObject: async ({ id }: { id: string }) =>
+        id === POOL_ID ? moveObject({ inner: { fields: { id: { id: INNER_ID }, version: '1' } } }) : { data: null },
+      getDynamicFieldObject: async () =>
+        moveObject({ value: { fields: { state: { fields: { governance: { fields: governance } } } } } }),
+    },
+  } as unknown as DeepBookClient;
+}
+
+describe('DeepBookGovernanceWrapper.getProposals', () => {
+  it('reads the current epoch proposals in fee rates and DEEP', async () => {
+    const governance = new DeepBookGovernanceWrapper(stubClient(700), registry);
+
+    expect(await governance.getProposals('SUI_USDC')).toEqual({
+      poolKey: 'SUI_USDC',
+      epoch: 700,
+      currentEpoch: 700,
+      quorum: 500,
+      votingPower: 1000,
+      proposals: [{ proposalId: '0xabc', takerFee: 0.001, makerFee: 0.0005, stakeRequired: 100, votes: 250 }],
+    });
+  });
+
+  it('drops proposals left over from an earlier epoch', async () => {
+    const governance = new DeepBookGovernanceWrapper(stubClient(699), registry);
+
+    expect(await governance.getProposals('SUI_USDC')).toMatchObject({ epoch: 699, currentEpoch: 700, proposals: [] });
+  });
+
+  it('fails with a query error when the pool state cannot be read', async () => {
+    const unknownPool = { ...registry, pools: { SUI_USDC: { ...registry.pools.SUI_USDC, address: '0x1' } } };
+    const governance = new DeepBookGovernanceWrapper(stubClient(700), unknownPool);
+
+    await expect(governance.getProposals('SUI_USDC')).rejects.toThrow(QueryError);
+  });
+});
+
+describe('DeepBookGovernanceWrapper.getFeeTier', () => {
+  it('compares the active stake with the stake required for the discount', async () => {
+    const account = { active_stake: 120, inactive_stake: 30, voted_proposal: '0xabc' };
+    const tier = await new DeepBookGovernanceWrapper(stubClient(700, account), registry).getFeeTier('SUI_USDC', 'MAIN');
+
+    expect(tier).toMatchObject({
+      takerFee: 0.001,
+      discountedTakerFee: 0.0005,
+      activeStake: 120,
+      inactiveStake: 30,
+      stakeQualified: true,
+      votedProposal: '0xabc',
+      next: { takerFee: 0.0008 },
+    });
+  });
+
+  it('reports no stake for a balance manager without a pool account', async () => {
+    const tier = await new DeepBookGovernanceWrapper(stubClient(700), registry).getFeeTier('SUI_USDC', 'MAIN');
+
+    expect(tier).toMatchObject({ activeStake: 0, inactiveStake: 0, stakeQualified: false, votedProposal: null });
+  });
+});
+
+describe('DeepBookGovernanceWrapper validation', () => {
+  it('rejects non-positive stakes and negative proposal values', async () => {
+    const governance = new DeepBookGovernanceWrapper(stubClient(700), registry);
+
+    await expect(governance.stake('SUI_USDC', 'MAIN', 0)).rejects.toThrow(ValidationError);
+    await expect(governance.submitProposal('SUI_USDC', 'MAIN', 0.001, -0.0005, 100)).rejects.toThrow(
+      'Proposal makerFee -0.0005 must be a non-negative number'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { bcs } from '@mysten/sui/bcs';
+import type { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { DeepBookQueryWrapper } from '../src/query-wrapper.js';
+import type { Registry } from '../src/types/index.js';
+
+const registry: Registry = {
+  environment: 'mainnet',
+  coins: {
+    SUI: { address: '0x2', type: '0x2::sui::SUI', scalar: 1e9, decimals: 9 },
+    USDC: { address: '0x3', type: '0x3::usdc::USDC', scalar: 1e6, decimals: 6 },
+    DEEP: { address: '0x4', type: '0x4::deep::DEEP', scalar: 1e6, decimals: 6 },
+  },
+  pools: {
+    SUI_USDC: { address: '0x' + 'a'.repeat(64), baseCoin: 'SUI', quoteCoin: 'USDC' },
+    DEEP_USDC: { address: '0x' + 'b'.repeat(64), baseCoin: 'DEEP', quoteCoin: 'USDC' },
+    DEEP_SUI: { address: '0x' + 'c'.repeat(64), baseCoin: 'DEEP', quoteCoin: 'SUI' },
+  },
+};
+
+const u64 = (value: number) => Array.from(bcs.U64.serialize(value).toBytes());
+const u64s = (values: number[]) => Array.from(bcs.vector(bcs.U64).serialize(values).toBytes());
+
+// Raw on-chain values: SUI_USDC bid 2.00 x 5 SUI, ask 2.02 x 3 SUI
+const returnValues: Record<string, number[][]> = {
+  get_level2_ticks_from_mid: [u64s([2e6]), u64s([5e9]), u64s([2.02e6]), u64s([3e9])],
+  pool_trade_params: [u64(1e6), u64(5e5), u64(100e6)],
+  vault_balances: [u64(10e9), u64(20e6), u64(1e6)],
+};
+
+/**
+ * Stub client simulating reads, whose move calls name their pool as the module
+ * @param options.failing Pools whose reads abort the simulation
+ * @param options.emptyAsks Pools with no asks
+ * @param options.rpcError Error thrown by every simulation
+ */
+function stubClient(options: { failing?: string[]; emptyAsks?: string[]; rpcError?: Error } = {}) {
+  const simulations: string[][] = [];
+  const read = (name: string) => (poolKey: string) => (tx: Transaction) =>
+    tx.moveCall({ target: `0x1::${poolKey.toLowerCase()}::${name}` });
+
+  const client = {
+    client: {
+      devInspectTransactionBlock: async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+        const calls = transactionBlock.getData().commands.map(command => command.MoveCall!);
+        simulations.push([...new Set(calls.map(call => call.module.toUpperCase()))]);
+        if (options.rpcError) {
+          throw options.rpcError;
+        }
+        const failing = calls.find(call => options.failing?.includes(call.module.toUpperCase()));
+        if (failing) {
+          return { error: `MoveAbort in ${failing.module}` };
+        }
+        return {
+          results: calls.map(call => {
+            const values = [...returnValues[call.function]];
+            const emptyAsks = options.emptyAsks?.includes(call.module.toUpperCase());
+            if (call.function === 'get_level2_ticks_from_mid' && emptyAsks) {
+              values.splice(2, 2, u64s([]), u64s([]));
+            }
+            return { returnValues: values.map(bytes => [bytes, 'u64']) };
+          }),
+        };
+      },
+    },
+    deepBook: {
+      getLevel2TicksFromMid: read('get_level2_ticks_from_mid'),
+      poolTradeParams: read('pool_trade_params'),
+      vaultBalances: read('vault_balances'),
+    },
+  } as unknown as DeepBookClient;
+
+  return { query: new DeepBookQueryWrapper(client, 'mainnet', registry), simulations };
+}
+
+describe('DeepBookQueryWrapper.getMarketSnapshot', () => {
+  it('reads the top of book, fees and vault of every registry pool in one simulation', async () => {
+    const { query, simulations } = stubClient();
+    const { pools } = await query.getMarketSnapshot();
+
+    expect(simulations).toEqual([['SUI_USDC', 'DEEP_USDC', 'DEEP_SUI']]);
+    expect(Object.keys(pools)).toEqual(['SUI_USDC', 'DEEP_USDC', 'DEEP_SUI']);
+    expect(pools.SUI_USDC).toEqual({
+      poolKey: 'SUI_USDC',
+      status: 'ok',
+      midPrice: 2.01,
+      bestBid: { price: 2, quantity: 5 },
+      bestAsk: { price: 2.02, quantity: 3 },
+      spread: { absolute: expect.closeTo(0.02), bps: expect.closeTo(99.5, 1) },
+      vaultBalances: { base: 10, quote: 20, deep: 1 },
+      tradeParams: { takerFee: 0.001, makerFee: 0.0005, stakeRequired: 100 },
+    });
+  });
+
+  it('leaves mid price and spread empty when a side of the book is empty', async () => {
+    const { pools } = await stubClient({ emptyAsks: ['DEEP_SUI'] }).query.getMarketSnapshot(['DEEP_SUI']);
+
+    expect(pools.DEEP_SUI).toMatchObject({ status: 'ok', midPrice: null, bestAsk: null, spread: null });
+  });
+
+  it('splits a failing batch until the failing pool is isolated', async () => {
+    const { query, simulations } = stubClient({ failing: ['DEEP_SUI'] });
+    const { pools } = await query.getMarketSnapshot();
+
+    expect(simulations).toEqual([['SUI_USDC', 'DEEP_USDC', 'DEEP_SUI'], ['SUI_USDC', 'DEEP_USDC'], ['DEEP_SUI']]);
+    expect(pools.SUI_USDC.status).toBe('ok');
+    expect(pools.DEEP_USDC.status).toBe('ok');
+    expect(pools.DEEP_SUI).toEqual({
+      poolKey: 'DEEP_SUI',
+      status: 'error',
+      error: 'Batched read failed: MoveAbort in deep_sui',
+    });
+  });
+
+  it('marks every pool errored without splitting when the RPC fails', async () => {
+    const { query, simulations } = stubClient({ rpcError: new Error('connection reset') });
+    const { pools } = await query.getMarketSnapshot(['SUI_USDC', 'DEEP_USDC']);
+
+    expect(simulations).toHaveLength(1);
+    expect(Object.values(pools).map(entry => entry.status)).toEqual(['error', 'error']);
+    expect(pools.SUI_USDC).toMatchObject({ error: expect.stringContaining('connection reset') });
+  });
+
+  it('reports pools missing from the registry without reading them', async () => {
+    const { query, simulations } = stubClient();
+    const { pools } = await query.getMarketSnapshot(['SUI_USDC', 'SUI_USDT', 'SUI_USDC']);
+
+    expect(simulations).toEqual([['SUI_USDC']]);
+    expect(pools.SUI_USDT).toEqual({ poolKey: 'SUI_USDT', status: 'error', error: 'Unknown pool SUI_USDT' });
+  });
+});
@@ -0,0 +1,80 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import {
+  InsufficientBalanceError,
+  InvalidTickSizeError,
+  MoveAbortError,
+  OrderBelowMinSizeError,
+} from '../src/types/index.js';
+import { decodeMoveAbort, parseMoveAbort } from '../src/utils/move-abort.js';
+
+const PACKAGE = '2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809';
+
+// Status string in the form execution and dry runs report it
+function moveAbort(module: string, functionName: string | null, code: number, command?: number): string {
+  const name = functionName ? `Some("${functionName}")` : 'None';
+  const moduleId = `ModuleId { address: ${PACKAGE}, name: Identifier("${module}") }`;
+  const location = `MoveLocation { module: ${moduleId}, function: 8, instruction: 23, function_name: ${name} }`;
+  return `MoveAbort(${location}, ${code})` + (command !== undefined ? ` in command ${command}` : '');
+}
+
+describe('parseMoveAbort', () => {
+  it('reads the location, code and command of an abort', () => {
+    expect(parseMoveAbort(moveAbort('balance_manager', 'withdraw_with_proof', 3, 2))).toEqual({
+      packageId: `0x${PACKAGE}`,
+      module: 'balance_manager',
+      functionName: 'withdraw_with_proof',
+      code: 3,
+      command: 2,
+      abortName: 'EBalanceManagerBalanceTooLow',
+      reason: 'Balance manager balance is too low (balance_manager::withdraw_with_proof EBalanceManagerBalanceTooLow)',
+    });
+  });
+
+  it('returns null for errors that are not Move aborts', () => {
+    expect(parseMoveAbort('InsufficientGas')).toBeNull();
+    expect(parseMoveAbort(undefined)).toBeNull();
+  });
+});
+
+describe('decodeMoveAbort', () => {
+  it('throws the catalogued subclass and keeps the original error as the cause', () => {
+    const cause = new Error(`Dry run failed: ${moveAbort('balance_manager', 'withdraw_with_proof', 3, 1)}`);
+    const error = decodeMoveAbort(cause, 'digest', { operation: 'withdraw', poolKey: 'SUI_USDC' });
+
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error).toMatchObject({
+      code: 'INSUFFICIENT_BALANCE',
+      txDigest: 'digest',
+      operation: 'withdraw',
+      poolKey: 'SUI_USDC',
+      abort: { module: 'balance_manager', code: 3, command: 1 },
+    });
+    expect(error?.cause).toBe(cause);
+  });
+
+  it('decodes order aborts without a function name', () => {
+    const error = decodeMoveAbort(moveAbort('order_info', null, 1));
+
+    expect(error).toBeInstanceOf(OrderBelowMinSizeError);
+    expect(error?.message).toBe('Order quantity is below the pool minimum size (order_info EOrderBelowMinimumSize)');
+    expect(error?.cause).toBe(moveAbort('order_info', null, 1));
+  });
+
+  it('keeps pool creation aborts and unknown codes as plain Move aborts', () => {
+    const creation = decodeMoveAbort(moveAbort('pool', 'create_pool', 3));
+    expect(creation?.constructor).toBe(MoveAbortError);
+    expect(creation).not.toBeInstanceOf(InvalidTickSizeError);
+    expect(creation?.abort.abortName).toBe('EInvalidTickSize');
+
+    const unknown = decodeMoveAbort(moveAbort('custom', 'run', 99));
+    expect(unknown?.constructor).toBe(MoveAbortError);
+    expect(unknown?.message).toBe('custom::run aborted with code 99');
+  });
+
+  it('returns null for errors that are not Move aborts', () => {
+    expect(decodeMoveAbort(new Error('fetch failed'))).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import type {
+  GetCheckpointParams,
+  GetObjectParams,
+  MultiGetTransactionBlocksParams,
+  QueryEventsParams,
+} from '@mysten/sui/client';
+import { describe, expect, it } from 'vitest';
+import { OrderBookReplica } from '../src/order-book-replica.js';
+import type { DeepBookEvent, Registry } from '../src/types/index.js';
+import { FakeEventSource } from '../src/utils/fake-event-source.js';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+const OTHER_POOL_ID = '0x' + 'b'.repeat(64);
+
+const registry: Registry = {
+  environment: 'mainnet',
+  coins: {
+    SUI: { address: '0x2', type: '0x2::sui::SUI', scalar: 1e9, decimals: 9 },
+    USDC: { address: '0x3', type: '0x3::usdc::USDC', scalar: 1e6, decimals: 6 },
+  },
+  pools: { SUI_USDC: { address: POOL_ID, baseCoin: 'SUI', quoteCoin: 'USDC' } },
+};
+
+// On-chain price for a USDC price per SUI, and one SUI in its smallest units
+const rawPrice = (price: number) => String(price * 1e6);
+const SUI = 1e9;
+
+// Snapshot shallower than the default depth, so no side is cut off
+const LEVEL2 = { bid_prices: [1.5], bid_quantities: [10], ask_prices: [1.6], ask_quantities: [5] };
+
+/**
+ * Stub client reading events from a FakeEventSource and counting snapshots
+ * @param onSnapshot Called as each snapshot is read, to emit events that land during it
+ */
+function stubClient(onSnapshot?: (source: FakeEventSource, snapshot: number) => void) {
+  const source = new FakeEventSource();
+  const calls = { snapshots: 0 };
+  let checkpoint = 100;
+
+  const client = {
+    getLevel2TicksFromMid: async () => {
+      calls.snapshots++;
+      onSnapshot?.(source, calls.snapshots);
+      return LEVEL2;
+    },
+    client: {
+      getLatestCheckpointSequenceNumber: async () => String(checkpoint),
+      getObject: (params: GetObjectParams) => source.getObject(params),
+      queryEvents: (params: QueryEventsParams) => source.queryEvents(params),
+      multiGetTransactionBlocks: (params: MultiGetTransactionBlocksParams) => source.multiGetTransactionBlocks(params),
+      getCheckpoint: (params: GetCheckpointParams) => source.getCheckpoint(params),
+    },
+  } as unknown as DeepBookClient;
+
+  return { client, calls, source, advance: (checkpoints: number) => (checkpoint += checkpoints) };
+}
+
+function placed(isBid: boolean, price: number, quantity: number, timestampMs?: number) {
+  return {
+    name: 'OrderPlaced',
+    timestampMs,
+    data: { pool_id: POOL_ID, is_bid: isBid, price: rawPrice(price), placed_quantity: String(quantity * SUI) },
+  };
+}
+
+function canceled(isBid: boolean, price: number, quantity: number, timestampMs?: number) {
+  return {
+    name: 'OrderCanceled',
+    module: 'order',
+    timestampMs,
+    data: {
+      pool_id: POOL_ID,
+      is_bid: isBid,
+      price: rawPrice(price),
+      base_asset_quantity_canceled: String(quantity * SUI),
+    },
+  };
+}
+
+/**
+ * Event as a caller streaming events would pass it to applyUpdate
+ */
+function update(input: ReturnType<typeof placed | typeof canceled>): DeepBookEvent {
+  return {
+    type: `0xdeeb::order_info::${input.name}`,
+    module: 'order_info',
+    name: input.name,
+    sender: '0xa',
+    txDigest: 'tx',
+    eventSeq: '0',
+    timestampMs: 0,
+    data: input.data,
+  };
+}
+
+describe('OrderBookReplica.sync', () => {
+  it('applies only events emitted after the snapshot, skipping other pools', async () => {
+    const { client, source, advance } = stubClient();
+    source.emit({
+      name: 'OrderPlaced',
+      data: { pool_id: POOL_ID, is_bid: true, price: rawPrice(1.5), placed_quantity: String(3 * SUI) },
+    });
+
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+    expect(replica.quantityAt(true, 1.5)).toBe(10);
+
+    source.emit({
+      name: 'OrderPlaced',
+      data: { pool_id: POOL_ID, is_bid: true, price: rawPrice(1.5), placed_quantity: String(2 * SUI) },
+    });
+    source.emit({
+      name: 'OrderFilled',
+      data: { pool_id: POOL_ID, taker_is_bid: true, price: rawPrice(1.6), base_quantity: String(SUI) },
+    });
+    source.emit({
+      name: 'OrderPlaced',
+      data: { pool_id: OTHER_POOL_ID, is_bid: true, price: rawPrice(1.5), placed_quantity: String(SUI) },
+    });
+    advance(2);
+    await replica.sync();
+
+    expect(replica.quantityAt(true, 1.5)).toBe(12);
+    expect(replica.quantityAt(false, 1.6)).toBe(4);
+    expect(replica.getState()).toMatchObject({ checkpoint: 102, snapshotCheckpoint: 100, resyncs: 0 });
+
+    // Nothing new: the cursors keep events from being applied twice
+    await replica.sync();
+    expect(replica.quantityAt(true, 1.5)).toBe(12);
+  });
+
+  it('applies a checkpoint in execution order when digests sort the other way', async () => {
+    const { client, source, advance } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+
+    source.emitTransaction('tx-b', placed(true, 1.55, 2, 10));
+    source.emitTransaction('tx-a', canceled(true, 1.55, 2, 10));
+    advance(1);
+    await replica.sync();
+
+    expect(replica.quantityAt(true, 1.55)).toBe(0);
+    expect(replica.getState().bids).toEqual([{ price: 1.5, quantity: 10 }]);
+  });
+
+  it('takes the snapshot again when pool events land while it is read', async () => {
+    const { client, calls } = stubClient((source, snapshot) => {
+      if (snapshot === 1) {
+        source.emit(placed(true, 1.5, 2));
+      }
+    });
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+    expect(calls.snapshots).toBe(2);
+
+    // The placement counts as part of the snapshot, so it is not applied again
+    await replica.sync();
+    expect(replica.quantityAt(true, 1.5)).toBe(10);
+  });
+
+  it('takes a new snapshot when more event pages are pending than allowed', async () => {
+    const { client, calls, source } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC', { maxCatchUpPages: 1 });
+    await replica.sync();
+
+    for (let i = 0; i < 60; i++) {
+      source.emit({
+        name: 'OrderCanceled',
+        module: 'order',
+        data: { pool_id: POOL_ID, is_bid: true, price: rawPrice(1.5), base_asset_quantity_canceled: '1' },
+      });
+    }
+    await replica.sync();
+
+    expect(calls.snapshots).toBe(2);
+    expect(replica.getState().resyncs).toBe(1);
+    expect(replica.quantityAt(true, 1.5)).toBe(10);
+  });
+
+  it('takes a new snapshot when more checkpoints are pending than allowed', async () => {
+    const { client, calls, advance } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC', { maxCatchUpCheckpoints: 5 });
+    await replica.sync();
+
+    advance(6);
+    await replica.sync();
+
+    expect(calls.snapshots).toBe(2);
+    expect(replica.getState().snapshotCheckpoint).toBe(106);
+  });
+});
+
+describe('OrderBookReplica.applyUpdate', () => {
+  it('ignores checkpoints already covered and resyncs on a gap', async () => {
+    const { client, calls } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+
+    expect(await replica.applyUpdate({ checkpoint: 100, events: [update(placed(true, 1.5, 1))] })).toBe('ignored');
+    expect(replica.quantityAt(true, 1.5)).toBe(10);
+
+    expect(await replica.applyUpdate({ checkpoint: 105, previousCheckpoint: 103, events: [] })).toBe('resynced');
+    expect(calls.snapshots).toBe(2);
+  });
+
+  it('drops a level only once the whole update is applied', async () => {
+    const { client } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+
+    const events = [update(canceled(false, 1.7, 1)), update(placed(false, 1.7, 3))];
+    expect(await replica.applyUpdate({ checkpoint: 101, events })).toBe('applied');
+    expect(replica.quantityAt(false, 1.7)).toBe(2);
+    expect(replica.getState().checkpoint).toBe(101);
+  });
+
+  it('resyncs when a side empties down to where the snapshot stopped', async () => {
+    const { client, calls } = stubClient();
+    // One level per side, so the snapshot may have cut off deeper bids
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC', { depth: 1 });
+    await replica.sync();
+
+    expect(await replica.applyUpdate({ checkpoint: 101, events: [update(canceled(true, 1.5, 10))] })).toBe('resynced');
+    expect(calls.snapshots).toBe(2);
+    expect(replica.quantityAt(true, 1.5)).toBe(10);
+  });
+
+  it('answers depth and VWAP queries from the replicated levels', async () => {
+    const { client } = stubClient();
+    const replica = new OrderBookReplica(client, registry, 'SUI_USDC');
+    await replica.sync();
+    await replica.applyUpdate({ checkpoint: 101, events: [update(placed(false, 1.7, 5))] });
+
+    expect(replica.depthTo(false, 1.6)).toBe(5);
+    expect(replica.depthTo(false, 1.7)).toBe(10);
+    expect(replica.depthTo(true, 1.4)).toBe(10);
+
+    const quote = replica.vwap('buy', 8);
+    expect(quote).toMatchObject({ side: 'buy', requestedQuantity: 8, filledQuantity: 8, worstPrice: 1.7 });
+    expect(quote.averagePrice).toBeCloseTo((5 * 1.6 + 3 * 1.7) / 8);
+    expect(replica.vwap('sell', 20)).toMatchObject({ filledQuantity: 10, averagePrice: 1.5 });
+  });
+});
@@ -0,0 +1,139 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import type { OrderBookSides } from '../src/types/index.js';
+import { ValidationError } from '../src/types/index.js';
+import {
+  bookImbalance,
+  bookMidPrice,
+  bookSpread,
+  costToMove,
+  impactForSize,
+  microprice,
+  toBookLevels,
+} from '../src/utils/order-book.js';
+
+const book: OrderBookSides = {
+  bids: [
+    { price: 1.0, quantity: 10 },
+    { price: 0.9, quantity: 20 },
+  ],
+  asks: [
+    { price: 1.1, quantity: 5 },
+    { price: 1.2, quantity: 15 },
+  ],
+};
+const empty: OrderBookSides = { bids: [], asks: [] };
+const asksOnly: OrderBookSides = { bids: [], asks: book.asks };
+
+describe('toBookLevels', () => {
+  it('keeps running base and quote totals', () => {
+    expect(toBookLevels([1.1, 1.2], [5, 15])).toEqual([
+      { price: 1.1, quantity: 5, cumulativeQuantity: 5, cumulativeQuote: 5 * 1.1 },
+      { price: 1.2, quantity: 15, cumulativeQuantity: 20, cumulativeQuote: 5 * 1.1 + 15 * 1.2 },
+    ]);
+    expect(toBookLevels([], [])).toEqual([]);
+  });
+});
+
+describe('top of book', () => {
+  it('reads mid, spread, imbalance and microprice from a two-sided book', () => {
+    expect(bookMidPrice(book)).toBeCloseTo(1.05);
+    expect(bookSpread(book)?.absolute).toBeCloseTo(0.1);
+    expect(bookSpread(book)?.bps).toBeCloseTo((0.1 / 1.05) * 10_000);
+    expect(bookImbalance(book)).toBeCloseTo((30 - 20) / 50);
+    expect(bookImbalance(book, 1)).toBeCloseTo((10 - 5) / 15);
+    // The thinner ask pulls the microprice above the mid
+    expect(microprice(book)).toBeCloseTo((1.0 * 5 + 1.1 * 10) / 15);
+  });
+
+  it('returns null for an empty book', () => {
+    expect(bookMidPrice(empty)).toBeNull();
+    expect(bookSpread(empty)).toBeNull();
+    expect(bookImbalance(empty)).toBeNull();
+    expect(microprice(empty)).toBeNull();
+  });
+
+  it('returns null for a one-sided book except for imbalance', () => {
+    expect(bookMidPrice(asksOnly)).toBeNull();
+    expect(bookSpread(asksOnly)).toBeNull();
+    expect(microprice(asksOnly)).toBeNull();
+    expect(bookImbalance(asksOnly)).toBe(-1);
+  });
+});
+
+describe('costToMove', () => {
+  it('sums the levels crossed before the target price', () => {
+    const cost = costToMove(book, 'buy', 10);
+
+    expect(cost.targetPrice).toBeCloseTo(1.155);
+    expect(cost).toMatchObject({ side: 'buy', baseQuantity: 5, exhausted: false });
+    expect(cost.quoteQuantity).toBeCloseTo(5.5);
+  });
+
+  it('reports exhausted depth when the target lies beyond the last level', () => {
+    const cost = costToMove(book, 'sell', 50);
+
+    expect(cost).toMatchObject({ baseQuantity: 30, exhausted: true });
+    expect(cost.quoteQuantity).toBeCloseTo(10 + 18);
+  });
+
+  it('takes the target from the best price of a one-sided book', () => {
+    const cost = costToMove(asksOnly, 'buy', 5);
+
+    expect(cost.targetPrice).toBeCloseTo(1.155);
+    expect(cost).toMatchObject({ baseQuantity: 5, exhausted: false });
+  });
+
+  it('has no target on an empty book', () => {
+    expect(costToMove(empty, 'sell', 1)).toEqual({
+      side: 'sell',
+      pricePercent: 1,
+      targetPrice: null,
+      baseQuantity: 0,
+      quoteQuantity: 0,
+      exhausted: true,
+    });
+  });
+
+  it('rejects a move that is not positive', () => {
+    expect(() => costToMove(book, 'buy', 0)).toThrow(ValidationError);
+  });
+});
+
+describe('impactForSize', () => {
+  it('averages over the levels a fill walks', () => {
+    const impact = impactForSize(book, 'buy', 10);
+
+    expect(impact).toMatchObject({ requestedQuantity: 10, filledQuantity: 10, worstPrice: 1.2 });
+    expect(impact.quoteQuantity).toBeCloseTo(5 * 1.1 + 5 * 1.2);
+    expect(impact.averagePrice).toBeCloseTo(1.15);
+    expect(impact.impactBps).toBeCloseTo(((1.15 - 1.05) / 1.05) * 10_000);
+  });
+
+  it('fills only the visible depth when the quantity exceeds it', () => {
+    const impact = impactForSize(book, 'sell', 50);
+
+    expect(impact).toMatchObject({ requestedQuantity: 50, filledQuantity: 30, worstPrice: 0.9 });
+    expect(impact.averagePrice).toBeCloseTo(28 / 30);
+    expect(impact.impactBps).toBeCloseTo(((1.05 - 28 / 30) / 1.05) * 10_000);
+  });
+
+  it('has no impact without a mid on a one-sided book', () => {
+    const buy = impactForSize(asksOnly, 'buy', 5);
+    expect(buy).toMatchObject({ filledQuantity: 5, averagePrice: 1.1, impactBps: null });
+
+    const sell = impactForSize(asksOnly, 'sell', 5);
+    expect(sell).toMatchObject({ filledQuantity: 0, quoteQuantity: 0, averagePrice: 0, worstPrice: 0, impactBps: null });
+  });
+
+  it('fills nothing on an empty book', () => {
+    expect(impactForSize(empty, 'buy', 1)).toMatchObject({ filledQuantity: 0, averagePrice: 0, impactBps: null });
+  });
+
+  it('rejects a quantity that is not positive', () => {
+    expect(() => impactForSize(book, 'buy', -1)).toThrow(ValidationError);
+    expect(() => impactForSize(book, 'buy', NaN)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,40 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import { validateOrder } from '../src/utils/order-validation.js';
+
+const bookParams = { tickSize: 0.001, lotSize: 0.1, minSize: 1 };
+
+describe('validateOrder', () => {
+  it('rounds bids down and asks up onto the tick grid', () => {
+    const bid = validateOrder(bookParams, { price: 1.2345, quantity: 1, isBid: true }, { autoRound: true });
+    const ask = validateOrder(bookParams, { price: 1.2345, quantity: 1, isBid: false }, { autoRound: true });
+
+    expect(bid).toMatchObject({ valid: true, price: 1.234, adjusted: true });
+    expect(ask).toMatchObject({ valid: true, price: 1.235, adjusted: true });
+  });
+
+  it('rejects a bid below one tick that rounds down to 0', () => {
+    const result = validateOrder(bookParams, { price: 0.0004, quantity: 1, isBid: true }, { autoRound: true });
+
+    expect(result.valid).toBe(false);
+    expect(result.price).toBe(0);
+    expect(result.errors).toEqual(['Price 0 is below the tick size 0.001']);
+  });
+
+  it('accepts an ask below one tick once rounded up to it', () => {
+    const result = validateOrder(bookParams, { price: 0.0004, quantity: 1, isBid: false }, { autoRound: true });
+
+    expect(result).toMatchObject({ valid: true, price: 0.001 });
+  });
+
+  it('reports off-grid prices without auto-rounding', () => {
+    const result = validateOrder(bookParams, { price: 0.0004, quantity: 1, isBid: true });
+
+    expect(result.errors).toEqual([
+      'Price 0.0004 is not a multiple of the tick size 0.001',
+      'Price 0.0004 is below the tick size 0.001',
+    ]);
+  });
+});
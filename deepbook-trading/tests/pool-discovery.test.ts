@@ -0,0 +1,97 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mainnetPackageIds } from '@mysten/deepbook-v3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { RpcFixture } from '../src/types/index.js';
+import { QueryError } from '../src/types/index.js';
+import { createFixtureRpc, discoverRegistryPools, recordRpc } from '../src/utils/pool-discovery.js';
+import { loadRegistry, saveRegistry } from '../src/utils/registry.js';
+
+const fixture: RpcFixture = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures/pool-discovery.mainnet.json'), 'utf8')
+);
+const registryId = mainnetPackageIds.REGISTRY_ID;
+
+describe('discoverRegistryPools', () => {
+  it('pages through the pool bag and resolves pool IDs from a recorded fixture', async () => {
+    const { pools, discovered } = await discoverRegistryPools(createFixtureRpc(fixture), registryId);
+
+    expect(discovered).toHaveLength(3);
+    expect(pools.SUI_USDC).toEqual({
+      address: '0xe05dafb5133bcffb8d59f4e12465dc0e9faeaa05e3e342a08fe135800e3e4407',
+      baseCoin: 'SUI',
+      quoteCoin: 'USDC',
+    });
+    expect(pools.DEEP_SUI.address).toBe('0xb663828d6217467c8a1838a03793da896cbe745b150ebd57d82f814ca579fc22');
+  });
+
+  it('keys unknown coins by symbol and disambiguates colliding symbols', async () => {
+    const { coins, pools } = await discoverRegistryPools(createFixtureRpc(fixture), registryId);
+
+    expect(coins.SUI).toMatchObject({ decimals: 9, scalar: 1_000_000_000 });
+    expect(coins.DEEP).toMatchObject({ decimals: 6, scalar: 1_000_000 });
+    // Native USDC and Wormhole USDC share the USDC symbol
+    expect(Object.keys(pools)).toContain('USDC_5D4B30_USDC');
+  });
+
+  it('reuses known coin keys and their price feeds', async () => {
+    const knownCoins = loadRegistry('mainnet').coins;
+    const { coins, pools } = await discoverRegistryPools(createFixtureRpc(fixture), registryId, knownCoins);
+
+    expect(Object.keys(pools).sort()).toEqual(['DEEP_SUI', 'SUI_USDC', 'WUSDC_USDC']);
+    expect(coins.USDC).toBe(knownCoins.USDC);
+    expect(coins.SUI.feed).toBe(knownCoins.SUI.feed);
+  });
+
+  it('fails on a request the fixture did not record', async () => {
+    await expect(discoverRegistryPools(createFixtureRpc(fixture), '0x1')).rejects.toThrow(QueryError);
+  });
+
+  it('records responses that replay to the same result', async () => {
+    const recorder = recordRpc(createFixtureRpc(fixture));
+    const live = await discoverRegistryPools(recorder.rpc, registryId);
+    const replayed = await discoverRegistryPools(createFixtureRpc(recorder.fixture), registryId);
+
+    expect(replayed).toEqual(live);
+  });
+});
+
+describe('saveRegistry', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'deepbook-registry-'));
+    for (const file of ['coins.json', 'pools.json']) {
+      writeFileSync(join(configDir, file), readFileSync(join(__dirname, '../config', file)));
+    }
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('merges discovered pools into the existing environment section', async () => {
+    const before = loadRegistry('mainnet', { configDir });
+    const discovered = await discoverRegistryPools(createFixtureRpc(fixture), registryId, before.coins);
+
+    saveRegistry('mainnet', discovered, configDir);
+    const after = loadRegistry('mainnet', { configDir });
+
+    expect(after.coins).toEqual(before.coins);
+    expect(after.pools).toEqual(before.pools);
+    expect(loadRegistry('testnet', { configDir })).toEqual(loadRegistry('testnet'));
+  });
+
+  it('keeps price fields of existing coins the result does not carry', () => {
+    const { coins } = loadRegistry('mainnet', { configDir });
+    const { feed, ...withoutFeed } = coins.SUI;
+
+    saveRegistry('mainnet', { coins: { SUI: withoutFeed }, pools: {} }, configDir);
+
+    expect(loadRegistry('mainnet', { configDir }).coins.SUI.feed).toBe(feed);
+  });
+});
@@ -0,0 +1,47 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache } from '../src/utils/query-cache.js';
+
+describe('QueryCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves fresh values and rereads expired ones', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = new QueryCache({ ttlMs: 100 });
+    let reads = 0;
+    const read = async () => ++reads;
+
+    expect(await cache.cached('bookParams', 'SUI_USDC', read)).toBe(1);
+    now.mockReturnValue(99);
+    expect(await cache.cached('bookParams', 'SUI_USDC', read)).toBe(1);
+    now.mockReturnValue(100);
+    expect(await cache.cached('bookParams', 'SUI_USDC', read)).toBe(2);
+    expect(cache.getMetrics().operations.bookParams).toEqual({ hits: 1, misses: 2, coalesced: 0 });
+  });
+
+  it('drops expired values of other keys when caching a value', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = new QueryCache({ ttlMs: 100 });
+    await cache.cached('bookParams', 'SUI_USDC', async () => 1);
+    await cache.cached('bookParams', 'DEEP_SUI', async () => 2);
+
+    now.mockReturnValue(150);
+    await cache.cached('poolParams', 'SUI_USDC', async () => 3);
+
+    expect([...cache['values'].keys()]).toEqual(['poolParams:SUI_USDC']);
+  });
+
+  it('records failed batches in the metrics until reset', () => {
+    const cache = new QueryCache();
+    cache.recordBatchFailure(new Error('MoveAbort in command 2'));
+    cache.recordBatchFailure('timeout');
+
+    expect(cache.getMetrics()).toMatchObject({ failedBatches: 2, lastBatchError: 'timeout' });
+    cache.resetMetrics();
+    expect(cache.getMetrics()).toMatchObject({ failedBatches: 0, lastBatchError: null });
+  });
+});
@@ -0,0 +1,112 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { RegistryValidationOptions } from '../src/types/index.js';
+import { isPlaceholderId, isZeroId, validateRegistry } from '../src/utils/registry-validation.js';
+
+const USDC_TYPE = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
+const POOL_ID = '0xe05dafb5133bcffb8d59f4e12465dc0e9faeaa05e3e342a08fe135800e3e4407';
+const ORACLE_ID = '0xaeab97f96cf9877fee2883315d459552b2b921edc16d7ceac6eab944dd88919c';
+
+describe('isPlaceholderId', () => {
+  it('flags IDs ending in a long repeated pattern', () => {
+    expect(isPlaceholderId('0x' + 'a'.repeat(64))).toBe(true);
+    expect(isPlaceholderId('0x1234' + 'abcd'.repeat(15))).toBe(true);
+    expect(isPlaceholderId(POOL_ID)).toBe(false);
+  });
+
+  it('accepts framework addresses, short or zero-padded', () => {
+    expect(isPlaceholderId('0x2')).toBe(false);
+    expect(isPlaceholderId('0x' + '0'.repeat(63) + '2')).toBe(false);
+    expect(isZeroId('0x' + '0'.repeat(64))).toBe(true);
+  });
+});
+
+describe('validateRegistry', () => {
+  let configDir: string;
+
+  const write = (coins: Record<string, unknown>, pools: Record<string, unknown>) => {
+    writeFileSync(join(configDir, 'coins.json'), JSON.stringify({ mainnet: coins }));
+    writeFileSync(join(configDir, 'pools.json'), JSON.stringify({ mainnet: pools }));
+  };
+  const codes = (environments?: RegistryValidationOptions['environments']) =>
+    validateRegistry('mainnet', { configDir, environments }).issues.map(({ code, path }) => [code, path]);
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'deepbook-validation-'));
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('passes the shipped registry', () => {
+    for (const environment of ['mainnet', 'testnet']) {
+      expect(validateRegistry(environment)).toMatchObject({ valid: true, issues: [] });
+    }
+  });
+
+  it('reports placeholder, duplicate and unknown pool entries', () => {
+    write(
+      { SUI: { type: '0x2::sui::SUI', decimals: 9 }, USDC: { type: USDC_TYPE, decimals: 6 } },
+      {
+        SUI_USDC: { baseType: 'SUI', quoteType: 'USDC', poolId: POOL_ID },
+        SUI_USDC_COPY: { baseType: 'SUI', quoteType: 'USDC', poolId: '0x' + POOL_ID.slice(2).toUpperCase() },
+        DEEP_SUI: { baseType: 'DEEP', quoteType: 'SUI', poolId: '0x' + 'b'.repeat(64) },
+        WAL_USDC: { baseCoin: 'WAL', quoteCoin: 'USDC', address: '0x1234' },
+      }
+    );
+
+    expect(codes()).toEqual([
+      ['DUPLICATE_POOL_ID', 'pools.SUI_USDC_COPY.poolId'],
+      ['PLACEHOLDER_ADDRESS', 'pools.DEEP_SUI.poolId'],
+      ['UNKNOWN_COIN', 'pools.DEEP_SUI.baseType'],
+      ['MALFORMED_ADDRESS', 'pools.WAL_USDC.address'],
+      ['UNKNOWN_COIN', 'pools.WAL_USDC.baseCoin'],
+    ]);
+  });
+
+  it('reports coin types, scalars and price feeds that cannot be right', () => {
+    write(
+      {
+        SUI: { type: '0x2::sui::SUI', decimals: 9, scalar: 1e6 },
+        USDC: { type: USDC_TYPE, decimals: 6, feed: '0x' + '0'.repeat(64) },
+        USDC_AGAIN: { type: USDC_TYPE, scalar: 1e6 },
+        FAKE: { type: '0x' + 'c'.repeat(64) + '::fake::FAKE', decimals: 6 },
+        BROKEN: { type: 'not a type' },
+      },
+      {}
+    );
+
+    const report = validateRegistry('mainnet', { configDir });
+    expect(report.issues.map(({ severity, code, path }) => [severity, code, path])).toEqual([
+      ['error', 'DECIMALS_SCALAR_MISMATCH', 'coins.SUI.scalar'],
+      ['error', 'ZERO_PRICE_FEED', 'coins.USDC.feed'],
+      ['warning', 'DUPLICATE_COIN_TYPE', 'coins.USDC_AGAIN.type'],
+      ['error', 'PLACEHOLDER_ADDRESS', 'coins.FAKE.type'],
+      ['error', 'INVALID_COIN_TYPE', 'coins.BROKEN.type'],
+      ['error', 'MISSING_FIELD', 'coins.BROKEN.decimals'],
+    ]);
+    expect(report).toMatchObject({ valid: false, summary: { coins: 5, pools: 0, errors: 5, warnings: 1 } });
+  });
+
+  it('checks oracle objects against the other environments', () => {
+    write({ SUI: { type: '0x2::sui::SUI', decimals: 9, feed: POOL_ID } }, {});
+
+    expect(codes({ mainnet: { rpcUrl: '' } })).toEqual([['MISSING_ORACLE', 'oracle']]);
+    expect(
+      codes({
+        mainnet: { rpcUrl: '', wormholeStateId: ORACLE_ID, pythStateId: ORACLE_ID },
+        testnet: { rpcUrl: '', wormholeStateId: ORACLE_ID },
+      })
+    ).toEqual([
+      ['DUPLICATE_ORACLE_ID', 'oracle'],
+      ['DUPLICATE_ORACLE_ID', 'oracle.wormholeStateId'],
+      ['DUPLICATE_ORACLE_ID', 'oracle.pythStateId'],
+    ]);
+  });
+});
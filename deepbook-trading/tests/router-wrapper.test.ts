@@ -0,0 +1,128 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import type { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { DeepBookRouterWrapper } from '../src/router-wrapper.js';
+import type { PoolMap } from '../src/types/index.js';
+import { QueryError, ValidationError } from '../src/types/index.js';
+
+const pools: PoolMap = {
+  SUI_USDC: { address: '0x1', baseCoin: 'SUI', quoteCoin: 'USDC' },
+  DEEP_SUI: { address: '0x2', baseCoin: 'DEEP', quoteCoin: 'SUI' },
+  DEEP_USDC: { address: '0x3', baseCoin: 'DEEP', quoteCoin: 'USDC' },
+};
+
+// Output per unit of input for each pool, selling base (sell) or buying base with quote (buy)
+const RATES: Record<string, { sell: number; buy: number }> = {
+  SUI_USDC: { sell: 1.5, buy: 1 / 1.5 },
+  DEEP_SUI: { sell: 0.1, buy: 10 },
+  DEEP_USDC: { sell: 0.2, buy: 5 },
+};
+
+/**
+ * Stub client quoting at fixed rates and recording the swaps added to a transaction
+ * @param failing Pools whose quotes are rejected
+ * @param rates Rates overriding RATES
+ */
+function stubClient(failing: string[] = [], rates: Record<string, { sell: number; buy: number }> = RATES) {
+  const swaps: Array<{ method: string; params: Record<string, unknown> }> = [];
+
+  const quantityOut = async (poolKey: string, baseIn: number, quoteIn: number) => {
+    if (failing.includes(poolKey)) {
+      throw new Error(`pool ${poolKey} unavailable`);
+    }
+    const rate = rates[poolKey];
+    return { baseOut: baseIn > 0 ? 0 : quoteIn * rate.buy, quoteOut: baseIn * rate.sell, deepRequired: 1 };
+  };
+  const swap = (method: string) => (params: Record<string, unknown>) => (tx: Transaction) => {
+    swaps.push({ method, params });
+    const [baseCoin, quoteCoin, deepCoin] = tx.moveCall({ target: `0x1::pool::${method}` });
+    return [baseCoin, quoteCoin, deepCoin];
+  };
+
+  const client = {
+    getQuantityOut: quantityOut,
+    getQuantityOutInputFee: quantityOut,
+    deepBook: {
+      swapExactBaseForQuote: swap('swapExactBaseForQuote'),
+      swapExactQuoteForBase: swap('swapExactQuoteForBase'),
+    },
+  } as unknown as DeepBookClient;
+
+  return { router: new DeepBookRouterWrapper(client, pools), swaps };
+}
+
+describe('DeepBookRouterWrapper.quoteRoutes', () => {
+  it('sorts routes by output and chains each hop on the previous output', async () => {
+    const { router } = stubClient();
+    const routes = await router.quoteRoutes('SUI', 'USDC', 10);
+
+    expect(routes.map(route => [route.hops.map(hop => hop.poolKey), route.amountOut])).toEqual([
+      [['DEEP_SUI', 'DEEP_USDC'], 20],
+      [['SUI_USDC'], 15],
+    ]);
+    expect(routes[0].hops.map(hop => [hop.amountIn, hop.amountOut])).toEqual([
+      [10, 100],
+      [100, 20],
+    ]);
+    expect(routes[0].hops[0].deepAmount).toBeCloseTo(1.1);
+  });
+
+  it('leaves out paths that fail to quote or fill nothing', async () => {
+    const rejected = stubClient(['DEEP_USDC']);
+    expect((await rejected.router.quoteRoutes('SUI', 'USDC', 10)).map(route => route.amountOut)).toEqual([15]);
+
+    const empty = stubClient([], { ...RATES, DEEP_USDC: { sell: 0, buy: 0 } });
+    expect((await empty.router.quoteRoutes('SUI', 'USDC', 10)).map(route => route.amountOut)).toEqual([15]);
+  });
+
+  it('fails with the first rejection when no route fills', async () => {
+    const { router } = stubClient(['DEEP_USDC'], { ...RATES, SUI_USDC: { sell: 0, buy: 0 } });
+
+    const error = await router.quoteRoutes('SUI', 'USDC', 10).catch(error => error);
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error.message).toContain('pool DEEP_USDC unavailable');
+  });
+
+  it('rejects coins no path connects', async () => {
+    const { router } = stubClient();
+    await expect(router.quoteRoutes('SUI', 'BTC', 10)).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('DeepBookRouterWrapper.swap', () => {
+  it('feeds each hop the previous output and enforces minOut on the last hop only', async () => {
+    const { router, swaps } = stubClient();
+    const { tx, route, minOut } = await router.swap({
+      fromCoin: 'SUI',
+      toCoin: 'USDC',
+      amount: 10,
+      slippageBps: 100,
+      recipient: '0xb',
+    });
+
+    expect(route.amountOut).toBe(20);
+    expect(minOut).toBeCloseTo(19.8);
+    expect(swaps.map(({ method, params }) => [method, params.poolKey, params.amount, params.minOut])).toEqual([
+      ['swapExactQuoteForBase', 'DEEP_SUI', 10, 0],
+      ['swapExactBaseForQuote', 'DEEP_USDC', 100, minOut],
+    ]);
+    // The first hop draws from the wallet; the second spends the base coin the first returned
+    expect(swaps[0].params.quoteCoin).toBeUndefined();
+    expect(swaps[1].params.baseCoin).toMatchObject({ NestedResult: [0, 0] });
+
+    // Leftover SUI and DEEP of both hops and the USDC output all go to the recipient
+    const transfer = tx.getData().commands[2].TransferObjects;
+    expect(transfer?.objects).toHaveLength(5);
+    expect(transfer?.objects[4]).toMatchObject({ NestedResult: [1, 1] });
+  });
+
+  it('rejects slippage outside 0 to 10000 bps', async () => {
+    const { router } = stubClient();
+    await expect(
+      router.swap({ fromCoin: 'SUI', toCoin: 'USDC', amount: 10, slippageBps: 20_000 })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
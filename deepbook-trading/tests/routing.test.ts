@@ -0,0 +1,52 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import { describe, expect, it } from 'vitest';
+import type { PoolMap } from '../src/types/index.js';
+import { findSwapPaths } from '../src/utils/routing.js';
+
+const pools: PoolMap = {
+  SUI_USDC: { address: '0x1', baseCoin: 'SUI', quoteCoin: 'USDC' },
+  DEEP_SUI: { address: '0x2', baseCoin: 'DEEP', quoteCoin: 'SUI' },
+  DEEP_USDC: { address: '0x3', baseCoin: 'DEEP', quoteCoin: 'USDC' },
+  WAL_USDC: { address: '0x4', baseCoin: 'WAL', quoteCoin: 'USDC' },
+};
+
+// Pool keys of each path, to compare paths at a glance
+const poolKeys = (paths: ReturnType<typeof findSwapPaths>) => paths.map(path => path.map(hop => hop.poolKey));
+
+describe('findSwapPaths', () => {
+  it('lists paths shortest first with the side of each hop', () => {
+    const paths = findSwapPaths(pools, 'SUI', 'USDC', 2);
+
+    expect(poolKeys(paths)).toEqual([['SUI_USDC'], ['DEEP_SUI', 'DEEP_USDC']]);
+    expect(paths[1]).toEqual([
+      { poolKey: 'DEEP_SUI', side: 'buy', fromCoin: 'SUI', toCoin: 'DEEP' },
+      { poolKey: 'DEEP_USDC', side: 'sell', fromCoin: 'DEEP', toCoin: 'USDC' },
+    ]);
+  });
+
+  it('stops at the hop limit', () => {
+    expect(poolKeys(findSwapPaths(pools, 'SUI', 'USDC', 1))).toEqual([['SUI_USDC']]);
+    expect(findSwapPaths(pools, 'WAL', 'DEEP', 1)).toEqual([]);
+    expect(poolKeys(findSwapPaths(pools, 'WAL', 'DEEP', 2))).toEqual([['WAL_USDC', 'DEEP_USDC']]);
+  });
+
+  it('never passes through a coin twice', () => {
+    const paths = findSwapPaths(pools, 'WAL', 'SUI', 4);
+
+    expect(poolKeys(paths)).toEqual([
+      ['WAL_USDC', 'SUI_USDC'],
+      ['WAL_USDC', 'DEEP_USDC', 'DEEP_SUI'],
+    ]);
+    for (const path of paths) {
+      const coins = [path[0].fromCoin, ...path.map(hop => hop.toCoin)];
+      expect(new Set(coins).size).toBe(coins.length);
+    }
+  });
+
+  it('finds nothing for unknown or unconnected coins', () => {
+    expect(findSwapPaths(pools, 'SUI', 'BTC', 3)).toEqual([]);
+    expect(findSwapPaths({}, 'SUI', 'USDC', 3)).toEqual([]);
+  });
+});
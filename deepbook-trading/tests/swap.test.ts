@@ -0,0 +1,122 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { DeepBookTradingWrapper } from '../src/transaction-wrapper.js';
+import { QuoteDriftError, RegistryError, ValidationError } from '../src/types/index.js';
+import { ClientOrderIdAllocator } from '../src/utils/client-order-ids.js';
+
+const pools = { SUI_USDC: { address: '0x1', baseCoin: 'SUI', quoteCoin: 'USDC' } };
+
+/**
+ * Stub client answering successive quotes from a list and recording the swaps it builds
+ * @param outputs Output of each successive quote; the last one repeats
+ * @param outputSide Coin the quoted output is in; the input side quotes nothing unfilled
+ */
+function stubClient(outputs: number[], outputSide: 'base' | 'quote' = 'quote') {
+  const swaps: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const quotes: string[] = [];
+
+  const quote = (method: string) => async () => {
+    quotes.push(method);
+    const out = outputs[Math.min(quotes.length, outputs.length) - 1];
+    return { baseOut: outputSide === 'base' ? out : 0, quoteOut: outputSide === 'quote' ? out : 0, deepRequired: 2 };
+  };
+  const swap = (method: string) => (params: Record<string, unknown>) => (tx: Transaction) => {
+    swaps.push({ method, params });
+    const [baseCoin, quoteCoin, deepCoin] = tx.moveCall({ target: `0x1::pool::${method}` });
+    return [baseCoin, quoteCoin, deepCoin];
+  };
+
+  const client = {
+    getQuantityOut: quote('getQuantityOut'),
+    getQuantityOutInputFee: quote('getQuantityOutInputFee'),
+    deepBook: {
+      swapExactBaseForQuote: swap('swapExactBaseForQuote'),
+      swapExactQuoteForBase: swap('swapExactQuoteForBase'),
+    },
+  } as unknown as DeepBookClient;
+
+  return { trading: new DeepBookTradingWrapper(client, new ClientOrderIdAllocator(), pools), swaps, quotes };
+}
+
+const sell = { poolKey: 'SUI_USDC', amount: 10, side: 'sell' as const, slippageBps: 50, recipient: '0xb' };
+
+describe('DeepBookTradingWrapper.swap', () => {
+  it('sets minOut from the quote less slippage and attaches the quoted DEEP', async () => {
+    const { trading, swaps } = stubClient([15]);
+    const { tx, quote } = await trading.swap(sell);
+
+    expect(quote).toMatchObject({ expectedOut: 15, unfilledIn: 0, slippageBps: 50 });
+    expect(quote.minOut).toBeCloseTo(15 * 0.995);
+    expect(quote.deepAmount).toBeCloseTo(2.2);
+    expect(swaps).toEqual([
+      {
+        method: 'swapExactBaseForQuote',
+        params: {
+          poolKey: 'SUI_USDC',
+          amount: 10,
+          deepAmount: quote.deepAmount,
+          minOut: quote.minOut,
+          baseCoin: undefined,
+        },
+      },
+    ]);
+    // Output, unfilled input and unused DEEP all go to the recipient
+    expect(tx.getData().commands[1].TransferObjects?.objects).toHaveLength(3);
+  });
+
+  it('quotes with the input-token fee and attaches no DEEP when not paying with DEEP', async () => {
+    const { trading, swaps, quotes } = stubClient([15], 'base');
+    const { quote } = await trading.swap({ ...sell, side: 'buy', payWithDeep: false });
+
+    expect(quotes).toEqual(['getQuantityOutInputFee']);
+    expect(quote.deepAmount).toBe(0);
+    expect(swaps[0].method).toBe('swapExactQuoteForBase');
+  });
+
+  it('rejects the swap when the re-quote drifted too far', async () => {
+    const within = await stubClient([15, 14.99]).trading.swap({ ...sell, maxDriftBps: 10 });
+    expect(within.quote.driftBps).toBeCloseTo(6.67, 1);
+
+    const error = await stubClient([15, 14.9]).trading.swap({ ...sell, maxDriftBps: 10 }).catch(error => error);
+    expect(error).toBeInstanceOf(QuoteDriftError);
+    expect(error.message).toBe('Quote for pool SUI_USDC moved 66.7 bps (limit 10)');
+  });
+
+  it('rejects out-of-range slippage and books that fill nothing', async () => {
+    await expect(stubClient([15]).trading.swap({ ...sell, slippageBps: 10_001 })).rejects.toThrow(ValidationError);
+    await expect(stubClient([0]).trading.swap(sell)).rejects.toThrow('cannot fill any of the sell amount 10');
+  });
+});
+
+describe('swap inputs', () => {
+  it('spends the given input coin instead of wallet coins', async () => {
+    const { trading, swaps } = stubClient([15]);
+    const tx = new Transaction();
+    const [inputCoin] = tx.splitCoins(tx.gas, [1]);
+    await trading.swapExactQuoteForBase({
+      poolKey: 'SUI_USDC',
+      amount: 10,
+      isExactBase: false,
+      deepAmount: 1,
+      inputCoin,
+      recipient: '0xb',
+    });
+
+    expect(swaps).toEqual([
+      {
+        method: 'swapExactQuoteForBase',
+        params: { poolKey: 'SUI_USDC', amount: 10, deepAmount: 1, minOut: 0, quoteCoin: inputCoin },
+      },
+    ]);
+  });
+
+  it('rejects pools missing from the registry', async () => {
+    const { trading } = stubClient([15]);
+    const params = { poolKey: 'DEEP_SUI', amount: 10, isExactBase: true, deepAmount: 1 };
+    await expect(trading.swapExactBaseForQuote(params)).rejects.toThrow(new RegistryError('Unknown pool DEEP_SUI'));
+  });
+});
@@ -0,0 +1,86 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { EventId } from '@mysten/sui/client';
+import { describe, expect, it } from 'vitest';
+import type { DeepBookQueryWrapper } from '../src/query-wrapper.js';
+import { TradeHistory } from '../src/trade-history.js';
+import type { Trade, TradePage, TradeQuery } from '../src/types/index.js';
+import { MemoryTradeStore } from '../src/utils/trade-stores.js';
+
+function trade(timestampMs: number): Trade {
+  return {
+    poolKey: 'SUI_USDC',
+    txDigest: `tx${timestampMs}`,
+    eventSeq: '0',
+    timestampMs,
+    price: 1.5,
+    baseQuantity: 1,
+    quoteQuantity: 1.5,
+    takerSide: 'buy',
+    makerOrderId: '1',
+    takerOrderId: '2',
+    makerBalanceManagerId: '0xa',
+    takerBalanceManagerId: '0xb',
+  };
+}
+
+/**
+ * Stub queries serving fixed pages, newest first, that can fail once at a given page
+ */
+function stubQueries(pages: Trade[][], failAt?: number) {
+  const calls: TradeQuery[] = [];
+  let failed = false;
+
+  const getTrades = async (_poolKey: string, query: TradeQuery): Promise<TradePage> => {
+    calls.push(query);
+    const index = query.cursor ? Number(query.cursor.eventSeq) : 0;
+    if (index === failAt && !failed) {
+      failed = true;
+      throw new Error('rpc unavailable');
+    }
+    const hasNextPage = index + 1 < pages.length;
+    const nextCursor: EventId | null = hasNextPage ? { txDigest: 'cursor', eventSeq: String(index + 1) } : null;
+    return { trades: pages[index].filter(t => t.timestampMs >= (query.from ?? 0)), nextCursor, hasNextPage };
+  };
+
+  return { queries: { getTrades } as unknown as DeepBookQueryWrapper, calls };
+}
+
+describe('TradeHistory.sync', () => {
+  it('stores each page and stops at the page cap, continuing on the next call', async () => {
+    const store = new MemoryTradeStore();
+    const { queries, calls } = stubQueries([[trade(50), trade(40)], [], [trade(30)], [trade(20)]]);
+    const history = new TradeHistory(queries, store);
+
+    expect(await history.sync('SUI_USDC', { from: 10, maxPages: 2 })).toEqual({ fetched: 2, complete: false });
+    expect(await store.query('SUI_USDC', 0, 100)).toHaveLength(2);
+
+    expect(await history.sync('SUI_USDC', { maxPages: 2 })).toEqual({ fetched: 2, complete: true });
+    expect((await store.query('SUI_USDC', 0, 100)).map(t => t.timestampMs)).toEqual([20, 30, 40, 50]);
+    // The continued sync keeps the original start rather than the newest stored trade
+    expect(calls.map(query => query.from)).toEqual([10, 10, 10, 10]);
+  });
+
+  it('keeps the pages stored before a failure and resumes after them', async () => {
+    const store = new MemoryTradeStore();
+    const { queries, calls } = stubQueries([[trade(50)], [trade(40)], [trade(30)]], 1);
+    const history = new TradeHistory(queries, store);
+
+    await expect(history.sync('SUI_USDC', { from: 10 })).rejects.toThrow('Failed to sync trades for pool SUI_USDC');
+    expect(await store.query('SUI_USDC', 0, 100)).toHaveLength(1);
+
+    expect(await history.sync('SUI_USDC')).toEqual({ fetched: 2, complete: true });
+    expect(calls.map(query => query.cursor?.eventSeq ?? null)).toEqual([null, '1', '1', '2']);
+  });
+
+  it('starts after the latest stored trade once earlier syncs completed', async () => {
+    const store = new MemoryTradeStore();
+    await store.append([trade(45)]);
+    const { queries, calls } = stubQueries([[trade(50), trade(40)]]);
+    const history = new TradeHistory(queries, store);
+
+    expect(await history.sync('SUI_USDC', { from: 10 })).toEqual({ fetched: 1, complete: true });
+    expect(calls[0].from).toBe(45);
+  });
+});
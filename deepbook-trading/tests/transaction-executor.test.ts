@@ -0,0 +1,188 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { MultiSigPublicKey } from '@mysten/sui/multisig';
+import { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { DeepBookTransactionExecutor } from '../src/transaction-executor.js';
+import type { RegistryCoinMap } from '../src/types/index.js';
+import { InsufficientBalanceError, TransactionError } from '../src/types/index.js';
+import { GAS_BUDGET } from '../src/utils/config.js';
+import { callbackSigner, keypairSigner, multisigSigner } from '../src/utils/signers.js';
+
+const GAS_USED = { computationCost: '1000', storageCost: '500', storageRebate: '200', nonRefundableStorageFee: '2' };
+const SUI_TYPE = '0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI';
+const SENDER = '0x' + 'a'.repeat(64);
+const ABORT =
+  'MoveAbort(MoveLocation { module: ModuleId { address: 2c8d, name: Identifier("balance_manager") }, ' +
+  'function: 8, instruction: 23, function_name: Some("withdraw_with_proof") }, 3) in command 0';
+
+const coins: RegistryCoinMap = { SUI: { address: '0x2', type: '0x2::sui::SUI', scalar: 1e9, decimals: 9 } };
+
+// Transaction with its gas fully specified, so building it needs no RPC
+function transaction(): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({ target: '0x2::clock::timestamp_ms', arguments: [tx.pure.u64(1)] });
+  tx.setGasPrice(1000);
+  tx.setGasPayment([{ objectId: '0x' + '1'.repeat(64), version: '1', digest: '1'.repeat(32) }]);
+  return tx;
+}
+
+/**
+ * Stub SuiClient recording executed transactions and answering with the given status
+ */
+function stubClient(status: { status: 'success' | 'failure'; error?: string } = { status: 'success' }) {
+  const executed: Array<{ transactionBlock: Uint8Array; signature: string | string[] }> = [];
+  const response = {
+    digest: 'digest',
+    checkpoint: '42',
+    effects: { status, gasUsed: GAS_USED },
+    balanceChanges: [{ owner: { AddressOwner: '0xa' }, coinType: SUI_TYPE, amount: '-1300' }],
+    events: [],
+  };
+
+  const client = {
+    executeTransactionBlock: async (params: { transactionBlock: Uint8Array; signature: string | string[] }) => {
+      executed.push(params);
+      return { digest: response.digest };
+    },
+    waitForTransaction: async () => response,
+    dryRunTransactionBlock: async () => ({
+      effects: { status, gasUsed: GAS_USED },
+      events: [],
+      balanceChanges: [
+        { owner: { AddressOwner: SENDER }, coinType: SUI_TYPE, amount: '-1500000000' },
+        { owner: { AddressOwner: '0xb' }, coinType: SUI_TYPE, amount: '1000000000' },
+      ],
+      objectChanges: [
+        { type: 'created', objectId: '0xc', objectType: '0x2::coin::Coin<0x2::sui::SUI>' },
+        { type: 'mutated', objectId: '0xd', objectType: '0x2::clock::Clock' },
+      ],
+    }),
+    devInspectTransactionBlock: async () => ({
+      effects: { status, gasUsed: GAS_USED, created: [{ reference: { objectId: '0xe' } }] },
+      events: [],
+      error: status.error,
+    }),
+  } as unknown as SuiClient;
+
+  return { client, executed };
+}
+
+describe('DeepBookTransactionExecutor.execute', () => {
+  it('signs the built bytes as the sender and returns the confirmed result', async () => {
+    const keypair = new Ed25519Keypair();
+    const { client, executed } = stubClient();
+    const tx = transaction();
+
+    const result = await new DeepBookTransactionExecutor(client, keypairSigner(keypair)).execute(tx);
+
+    expect(tx.getData().sender).toBe(keypair.toSuiAddress());
+    expect(tx.getData().gasData.budget).toBe(String(GAS_BUDGET));
+    const [{ transactionBlock, signature }] = executed;
+    expect(await keypair.getPublicKey().verifyTransaction(transactionBlock, signature as string)).toBe(true);
+    expect(result).toMatchObject({
+      digest: 'digest',
+      status: 'success',
+      checkpoint: '42',
+      gas: { totalCost: 1300n },
+      balanceChanges: [{ owner: '0xa', coinType: SUI_TYPE, amount: -1300n }],
+    });
+  });
+
+  it('prefers the signer passed per call', async () => {
+    const { client } = stubClient();
+    const tx = transaction();
+    const signer = callbackSigner('0x' + 'b'.repeat(64), async () => 'signature');
+
+    await new DeepBookTransactionExecutor(client, keypairSigner(new Ed25519Keypair())).execute(tx, { signer });
+    expect(tx.getData().sender).toBe('0x' + 'b'.repeat(64));
+  });
+
+  it('throws the decoded abort of a failed transaction with its digest', async () => {
+    const { client } = stubClient({ status: 'failure', error: ABORT });
+    const executor = new DeepBookTransactionExecutor(client, keypairSigner(new Ed25519Keypair()));
+
+    const error = await executor.execute(transaction()).catch(error => error);
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error).toMatchObject({ txDigest: 'digest', operation: 'execute' });
+  });
+
+  it('refuses to execute without a signer', async () => {
+    const { client, executed } = stubClient();
+
+    await expect(new DeepBookTransactionExecutor(client).execute(transaction())).rejects.toThrow(TransactionError);
+    expect(executed).toHaveLength(0);
+  });
+});
+
+describe('DeepBookTransactionExecutor.simulate', () => {
+  it('dry-runs a copy and reports balance deltas of the sender in registry units', async () => {
+    const { client, executed } = stubClient();
+    const tx = transaction();
+
+    const preview = await new DeepBookTransactionExecutor(client, undefined, coins, SENDER).simulate(tx);
+
+    expect(preview).toMatchObject({
+      success: true,
+      gas: { totalCost: 1300n },
+      balanceDeltas: [{ coinKey: 'SUI', coinType: SUI_TYPE, rawAmount: -1500000000n, amount: -1.5 }],
+      createdObjects: [{ objectId: '0xc', objectType: '0x2::coin::Coin<0x2::sui::SUI>' }],
+      deletedObjects: [],
+    });
+    expect(tx.getData().sender).toBeFalsy();
+    expect(executed).toHaveLength(0);
+  });
+
+  it('returns a failed devInspect as a preview with the decoded abort', async () => {
+    const { client } = stubClient({ status: 'failure', error: ABORT });
+    const executor = new DeepBookTransactionExecutor(client, undefined, coins);
+
+    const preview = await executor.simulate(transaction(), { mode: 'devInspect', sender: SENDER });
+
+    expect(preview).toMatchObject({
+      success: false,
+      error: ABORT,
+      abort: { module: 'balance_manager', code: 3, abortName: 'EBalanceManagerBalanceTooLow' },
+      balanceDeltas: null,
+      createdObjects: [{ objectId: '0xe' }],
+    });
+  });
+
+  it('needs a sender from the options, the signer or the client config', async () => {
+    const { client } = stubClient();
+
+    const executor = new DeepBookTransactionExecutor(client);
+    await expect(executor.simulate(transaction())).rejects.toThrow('No sender configured');
+  });
+});
+
+describe('multisigSigner', () => {
+  const keypairs = [new Ed25519Keypair(), new Ed25519Keypair(), new Ed25519Keypair()];
+  const multisig = MultiSigPublicKey.fromPublicKeys({
+    threshold: 2,
+    publicKeys: keypairs.map(keypair => ({ publicKey: keypair.getPublicKey(), weight: 1 })),
+  });
+  const participant = (keypair: Ed25519Keypair) => ({
+    publicKey: keypair.getPublicKey(),
+    sign: async (bytes: Uint8Array) => (await keypair.signTransaction(bytes)).signature,
+  });
+  const bytes = new Uint8Array([1, 2, 3]);
+
+  it('skips failing and unknown participants until the threshold is met', async () => {
+    const failing = { publicKey: keypairs[0].getPublicKey(), sign: async () => Promise.reject(new Error('offline')) };
+    const outsider = participant(new Ed25519Keypair());
+    const signer = multisigSigner(multisig, [failing, outsider, participant(keypairs[1]), participant(keypairs[2])]);
+
+    expect(signer.getAddress()).toBe(multisig.toSuiAddress());
+    expect(await multisig.verifyTransaction(bytes, await signer.signTransaction(bytes))).toBe(true);
+  });
+
+  it('fails when the participants cannot reach the threshold', async () => {
+    const signer = multisigSigner(multisig, [participant(keypairs[0])]);
+
+    await expect(signer.signTransaction(bytes)).rejects.toThrow('collected weight 1 of 2');
+  });
+});
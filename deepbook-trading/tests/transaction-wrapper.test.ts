@@ -0,0 +1,215 @@
+// Copyright (c) Mysten Labs, Inc.
+// SPDX-License-Identifier: Apache-2.0
+
+import type { DeepBookClient } from '@mysten/deepbook-v3';
+import { Transaction } from '@mysten/sui/transactions';
+import { describe, expect, it } from 'vitest';
+import { ClientOrderIdAllocator } from '../src/utils/client-order-ids.js';
+import { DeepBookTradingWrapper } from '../src/transaction-wrapper.js';
+import { OrderType, QueryError, SelfMatchingOptions, ValidationError } from '../src/types/index.js';
+
+// A batch step adding the given number of Move calls
+function step(commands: number, clientOrderId: string) {
+  return {
+    poolKey: 'SUI_USDC',
+    clientOrderId,
+    add: (tx: Transaction) => {
+      for (let i = 0; i < commands; i++) {
+        tx.moveCall({ target: '0x2::clock::timestamp_ms', arguments: [tx.object.clock()] });
+      }
+    },
+  };
+}
+
+const composeBatch = DeepBookTradingWrapper.prototype['composeBatch'];
+
+describe('composeBatch', () => {
+  it('starts a new transaction when a larger step no longer fits', () => {
+    const { transactions, atomic } = composeBatch([step(2, '1'), step(2, '2'), step(5, '3')], { maxCommands: 6 });
+
+    expect(atomic).toBe(false);
+    expect(transactions.map(({ tx, clientOrderIds }) => [tx.getData().commands.length, clientOrderIds])).toEqual([
+      [4, ['1', '2']],
+      [5, ['3']],
+    ]);
+  });
+
+  it('fills transactions up to the limit', () => {
+    const { transactions } = composeBatch([step(3, '1'), step(3, '2'), step(3, '3')], { maxCommands: 6 });
+
+    expect(transactions.map(({ tx }) => tx.getData().commands.length)).toEqual([6, 3]);
+  });
+
+  it('rejects only a step that does not fit in an empty transaction', () => {
+    expect(() => composeBatch([step(1, '1'), step(7, '2')], { maxCommands: 6 })).toThrow(ValidationError);
+  });
+});
+
+describe('cancelAllAcrossPools', () => {
+  const pools = {
+    SUI_USDC: { address: '0x1', baseCoin: 'SUI', quoteCoin: 'USDC' },
+    DEEP_SUI: { address: '0x2', baseCoin: 'DEEP', quoteCoin: 'SUI' },
+    DEEP_USDC: { address: '0x3', baseCoin: 'DEEP', quoteCoin: 'USDC' },
+  };
+  const openOrders: Record<string, string[] | Error> = {
+    SUI_USDC: ['11', '12'],
+    DEEP_SUI: new Error('RPC timeout'),
+    DEEP_USDC: [],
+  };
+  const client = {
+    accountOpenOrders: async (poolKey: string) => {
+      const orders = openOrders[poolKey];
+      if (orders instanceof Error) {
+        throw orders;
+      }
+      return orders;
+    },
+    deepBook: { cancelAllOrders: () => step(1, '').add },
+  } as unknown as DeepBookClient;
+
+  it('cancels the pools it could read and reports the others', async () => {
+    const trading = new DeepBookTradingWrapper(client, new ClientOrderIdAllocator(), pools);
+    const { transactions, failedPools } = await trading.cancelAllAcrossPools('MAIN');
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ poolKeys: ['SUI_USDC'], cancelledOrderIds: ['11', '12'] });
+    expect(failedPools).toEqual([
+      { poolKey: 'DEEP_SUI', error: 'Failed to get open orders in pool DEEP_SUI: RPC timeout' },
+    ]);
+  });
+});
+
+describe('order parameters', () => {
+  /**
+   * Stub client recording the parameters of each placed order
+   */
+  function orderClient() {
+    const placed: Array<Record<string, unknown>> = [];
+    const record = (params: Record<string, unknown>) => {
+      placed.push(params);
+      return step(1, '').add;
+    };
+    const client = {
+      poolBookParams: async () => ({ tickSize: 0.001, lotSize: 0.1, minSize: 1 }),
+      deepBook: { placeLimitOrder: record, placeMarketOrder: record },
+    } as unknown as DeepBookClient;
+
+    return { trading: new DeepBookTradingWrapper(client), placed };
+  }
+
+  const order = { poolKey: 'SUI_USDC', balanceManagerKey: 'MAIN', price: 1.5, quantity: 10, isBid: true };
+
+  it('places a resting order with the on-chain defaults and an expiration', async () => {
+    const { trading, placed } = orderClient();
+    await trading.placeLimitOrder(order);
+
+    expect(placed[0]).toMatchObject({
+      orderType: OrderType.NO_RESTRICTION,
+      selfMatchingOption: SelfMatchingOptions.SELF_MATCHING_ALLOWED,
+      payWithDeep: true,
+      clientOrderId: '1',
+    });
+    expect(placed[0].expiration).toBeGreaterThan(BigInt(Date.now()));
+  });
+
+  it('passes the order type, self-matching policy and fee coin through', async () => {
+    const { trading, placed } = orderClient();
+    await trading.placeLimitOrder({
+      ...order,
+      orderType: OrderType.IMMEDIATE_OR_CANCEL,
+      selfMatchingOption: SelfMatchingOptions.CANCEL_TAKER,
+      payWithDeep: false,
+    });
+    await trading.placeLimitOrder({ ...order, orderType: OrderType.POST_ONLY, expiration: 'GTC' });
+
+    expect(placed[0]).toMatchObject({
+      orderType: OrderType.IMMEDIATE_OR_CANCEL,
+      selfMatchingOption: SelfMatchingOptions.CANCEL_TAKER,
+      payWithDeep: false,
+      expiration: undefined,
+    });
+    expect(placed[1]).toMatchObject({ orderType: OrderType.POST_ONLY, clientOrderId: '2' });
+  });
+
+  it('gives market orders a client order ID and the same options', async () => {
+    const { trading, placed } = orderClient();
+    const { price: _price, ...market } = order;
+    await trading.placeMarketOrder({ ...market, selfMatchingOption: SelfMatchingOptions.CANCEL_MAKER });
+
+    expect(placed[0]).toMatchObject({
+      clientOrderId: '1',
+      selfMatchingOption: SelfMatchingOptions.CANCEL_MAKER,
+      payWithDeep: true,
+    });
+  });
+});
+
+describe('sweepSettledBalances', () => {
+  const pools = {
+    SUI_USDC: { address: '0x1', baseCoin: 'SUI', quoteCoin: 'USDC' },
+    DEEP_SUI: { address: '0x2', baseCoin: 'DEEP', quoteCoin: 'SUI' },
+    DEEP_USDC: { address: '0x3', baseCoin: 'DEEP', quoteCoin: 'USDC' },
+    WAL_USDC: { address: '0x4', baseCoin: 'WAL', quoteCoin: 'USDC' },
+  };
+  const none = { base: 0, quote: 0, deep: 0 };
+
+  /**
+   * Stub client with one pool account per key (undefined: no account) recording settlement calls
+   */
+  function settlementClient(accounts: Record<string, object | Error | undefined>) {
+    const calls: string[] = [];
+    const record = (method: string) => (poolKey: string) => {
+      calls.push(`${method}:${poolKey}`);
+      return step(1, '').add;
+    };
+    const client = {
+      accountExists: async (poolKey: string) => accounts[poolKey] !== undefined,
+      account: async (poolKey: string) => {
+        const account = accounts[poolKey];
+        if (account instanceof Error) {
+          throw account;
+        }
+        return account;
+      },
+      deepBook: {
+        claimRebates: record('claimRebates'),
+        withdrawSettledAmounts: record('withdrawSettledAmounts'),
+      },
+    } as unknown as DeepBookClient;
+
+    return { trading: new DeepBookTradingWrapper(client, new ClientOrderIdAllocator(), pools), calls };
+  }
+
+  it('settles only the pools with balances or rebates, in one transaction', async () => {
+    const { trading, calls } = settlementClient({
+      SUI_USDC: { settled_balances: { ...none, quote: 15 }, unclaimed_rebates: { ...none, deep: 0.5 } },
+      DEEP_SUI: { settled_balances: { ...none, base: 2 }, unclaimed_rebates: none },
+      WAL_USDC: { settled_balances: none, unclaimed_rebates: none },
+    });
+
+    const { tx, pools: settled } = await trading.sweepSettledBalances('MAIN');
+
+    expect(settled.map(pool => pool.poolKey)).toEqual(['SUI_USDC', 'DEEP_SUI']);
+    expect(calls).toEqual([
+      'claimRebates:SUI_USDC',
+      'withdrawSettledAmounts:SUI_USDC',
+      'withdrawSettledAmounts:DEEP_SUI',
+    ]);
+    expect(tx?.getData().commands).toHaveLength(3);
+  });
+
+  it('returns no transaction when there is nothing to settle', async () => {
+    const { trading, calls } = settlementClient({ SUI_USDC: { settled_balances: none, unclaimed_rebates: none } });
+
+    expect(await trading.sweepSettledBalances('MAIN')).toEqual({ tx: null, pools: [] });
+    expect(calls).toEqual([]);
+  });
+
+  it('fails with the pool whose account could not be read', async () => {
+    const { trading } = settlementClient({ DEEP_SUI: new Error('RPC timeout') });
+
+    const error = await trading.sweepSettledBalances('MAIN').catch(error => error);
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error).toMatchObject({ poolKey: 'DEEP_SUI', balanceManagerKey: 'MAIN', operation: 'sweepSettledBalances' });
+  });
+});